@@ -0,0 +1,105 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import pg from 'pg';
+import type { Partner, Wallet } from '@shared/schema';
+
+/**
+ * Postings racing each other on separate connections. PGlite is a single connection, so this
+ * file needs a real Postgres: set TEST_DATABASE_URL to a server the tests may create and drop
+ * databases on. Without it the file is skipped, and nothing else exercises the wallet row
+ * locks' ordering.
+ */
+const serverUrl = process.env.TEST_DATABASE_URL;
+
+describe.skipIf(!serverUrl)('concurrent postings', () => {
+  const database = `wallet_concurrency_${randomUUID().replace(/-/g, '')}`;
+  let services: {
+    walletService: typeof import('../services/wallet')['walletService'];
+    fixtures: typeof import('./fixtures');
+  };
+  let pool: pg.Pool;
+  let partner: Partner;
+
+  const admin = async (statement: string) => {
+    const client = new pg.Client({ connectionString: serverUrl });
+    await client.connect();
+    try {
+      await client.query(statement);
+    } finally {
+      await client.end();
+    }
+  };
+
+  beforeAll(async () => {
+    await admin(`CREATE DATABASE ${database}`);
+    const url = new URL(serverUrl!);
+    url.pathname = `/${database}`;
+    // server/db connects with DATABASE_URL when it is first imported
+    process.env.DATABASE_URL = url.toString();
+
+    const { schemaStatements } = await import('./test-db');
+    const db = await import('../db');
+    pool = db.pool;
+    for (const statement of await schemaStatements()) {
+      await pool.query(statement);
+    }
+    const { ensureLedgerImmutability } = await import('../infrastructure/ledger-immutability');
+    await ensureLedgerImmutability();
+
+    services = {
+      walletService: (await import('../services/wallet')).walletService,
+      fixtures: await import('./fixtures'),
+    };
+  }, 60_000);
+
+  afterAll(async () => {
+    await pool?.end();
+    await admin(`DROP DATABASE IF EXISTS ${database}`);
+  });
+
+  beforeEach(async () => {
+    partner = await services.fixtures.createPartner();
+  });
+
+  it('lets only as many parallel debits through as the balance covers', async () => {
+    const { walletService, fixtures } = services;
+    const wallet = await fixtures.createWallet(partner.id);
+    await fixtures.fund(partner.id, wallet.id, '100.00');
+
+    const results = await Promise.allSettled(Array.from({ length: 10 }, () =>
+      walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '15.00', idempotencyKey: randomUUID() })));
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(6);
+    for (const result of results.filter((r): r is PromiseRejectedResult => r.status === 'rejected')) {
+      expect(result.reason.message).toBe('Insufficient balance');
+    }
+    expect(await fixtures.balanceOf(wallet.id)).toBe('10.00');
+    const ledger = await fixtures.ledgerOf(wallet.id);
+    expect(ledger.map(entry => fixtures.amount(entry.balance))).toEqual(
+      ['100.00', '85.00', '70.00', '55.00', '40.00', '25.00', '10.00']
+    );
+  });
+
+  it('does not deadlock transfers running both ways between the same wallets', async () => {
+    const { walletService, fixtures } = services;
+    const wallets: Wallet[] = [await fixtures.createWallet(partner.id), await fixtures.createWallet(partner.id)];
+    for (const wallet of wallets) {
+      await fixtures.fund(partner.id, wallet.id, '100.00');
+    }
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => walletService.transferBetweenWallets(partner.id, {
+      fromWalletId: wallets[i % 2].id,
+      toWalletId: wallets[(i + 1) % 2].id,
+      amount: '5.00',
+      idempotencyKey: randomUUID(),
+    })));
+
+    expect(await fixtures.balanceOf(wallets[0].id)).toBe('100.00');
+    expect(await fixtures.balanceOf(wallets[1].id)).toBe('100.00');
+    for (const wallet of wallets) {
+      const ledger = await fixtures.ledgerOf(wallet.id);
+      expect(ledger).toHaveLength(21);
+      expect(fixtures.amount(ledger[ledger.length - 1].balance)).toBe('100.00');
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { walletService } from '../services/wallet';
+import { holdService } from '../services/hold';
+import { transactionsRepository } from '../repositories';
+import { createFundingSessionSchema, creditWalletSchema, transferSchema } from '@shared/schema';
+import { toMinorUnits, fromMinorUnits } from '@shared/money';
+import type { Partner } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('wallet currencies', () => {
+  let partner: Partner;
+
+  beforeEach(async () => {
+    partner = await createPartner();
+  });
+
+  it('refuses wallets in currencies outside the registry', async () => {
+    await expect(createWallet(partner.id, { currency: 'XYZ' })).rejects.toThrow();
+  });
+
+  it('moves money in the wallet currency when the request leaves it out', async () => {
+    const wallet = await createWallet(partner.id, { currency: 'EUR' });
+    const other = await createWallet(partner.id, { currency: 'EUR' });
+    const request = { walletId: wallet.id, amount: '50.00', idempotencyKey: randomUUID() };
+
+    const credit = await walletService.creditWallet(partner.id, creditWalletSchema.parse(request));
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '5.00', idempotencyKey: randomUUID() });
+    await walletService.transferBetweenWallets(partner.id, transferSchema.parse({
+      fromWalletId: wallet.id,
+      toWalletId: other.id,
+      amount: '10.00',
+      idempotencyKey: randomUUID(),
+    }));
+    const hold = await holdService.createHold(partner.id, { walletId: wallet.id, amount: '1.00', idempotencyKey: randomUUID() });
+
+    expect((await transactionsRepository.getById(credit.id))?.currency).toBe('EUR');
+    expect(hold.currency).toBe('EUR');
+    expect(await balanceOf(wallet.id, 'EUR')).toBe('35.00');
+    expect(await balanceOf(other.id, 'EUR')).toBe('10.00');
+  });
+
+  it('refuses money movements in another currency than the wallet holds', async () => {
+    const usd = await createWallet(partner.id);
+    const eur = await createWallet(partner.id, { currency: 'EUR' });
+    await fund(partner.id, eur.id, '20.00', 'EUR');
+
+    await expect(fund(partner.id, usd.id, '10.00', 'EUR')).rejects.toThrow('Currency mismatch');
+    await expect(walletService.transferBetweenWallets(partner.id, {
+      fromWalletId: eur.id,
+      toWalletId: usd.id,
+      amount: '10.00',
+      idempotencyKey: randomUUID(),
+    })).rejects.toThrow('Currency mismatch');
+    expect(await balanceOf(eur.id, 'EUR')).toBe('20.00');
+  });
+
+  it('applies the precision of the wallet currency', async () => {
+    const jpy = await createWallet(partner.id, { currency: 'JPY' });
+    const kwd = await createWallet(partner.id, { currency: 'KWD' });
+
+    await expect(fund(partner.id, jpy.id, '100.5', 'JPY')).rejects.toThrow('decimal places');
+    await expect(walletService.creditWallet(partner.id, { walletId: jpy.id, amount: '100.5', idempotencyKey: randomUUID() }))
+      .rejects.toThrow('decimal places');
+    await fund(partner.id, jpy.id, '100', 'JPY');
+    await fund(partner.id, kwd.id, '1.255', 'KWD');
+
+    expect(await balanceOf(jpy.id, 'JPY')).toBe('100');
+    expect(await balanceOf(kwd.id, 'KWD')).toBe('1.255');
+  });
+
+  it('validates request precision only against an explicit currency', () => {
+    const request = { walletId: randomUUID(), amount: '10.50', idempotencyKey: randomUUID() };
+
+    expect(creditWalletSchema.safeParse({ ...request, currency: 'JPY' }).success).toBe(false);
+    expect(creditWalletSchema.parse(request).currency).toBeUndefined();
+  });
+
+  it('takes funding session amounts as decimal strings like every other amount', () => {
+    const valid = (amount: unknown, currency?: string) => createFundingSessionSchema.safeParse({ amount, currency }).success;
+
+    expect(valid('25.00', 'USD')).toBe(true);
+    expect(valid('25')).toBe(true);
+    expect(valid(25)).toBe(false);
+    expect(valid('1e-7')).toBe(false);
+    expect(valid('0.00')).toBe(false);
+    expect(valid('10.5', 'JPY')).toBe(false);
+  });
+
+  it('converts gateway amounts with the currency precision', () => {
+    expect(toMinorUnits('12.34', 'USD')).toBe(1234);
+    expect(toMinorUnits('1234', 'JPY')).toBe(1234);
+    expect(toMinorUnits('1.234', 'KWD')).toBe(1234);
+    expect(fromMinorUnits(1234, 'JPY')).toBe('1234');
+  });
+});
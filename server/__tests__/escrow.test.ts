@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { escrowService } from '../services/escrow';
+import { systemAccountService } from '../services/system-accounts';
+import type { Escrow, Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('escrow', () => {
+  let partner: Partner;
+  let buyer: Wallet;
+  let seller: Wallet;
+  let escrow: Escrow;
+
+  const open = (data: { amount?: string; releaseAfter?: Date } = {}) => escrowService.createEscrow(partner.id, {
+    buyerWalletId: buyer.id,
+    sellerWalletId: seller.id,
+    amount: data.amount || '40.00',
+    dealReference: `deal-${randomUUID()}`,
+    releaseAfter: data.releaseAfter,
+    idempotencyKey: randomUUID(),
+  });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    buyer = await createWallet(partner.id);
+    seller = await createWallet(partner.id);
+    await fund(partner.id, buyer.id, '100.00');
+    escrow = await open();
+  });
+
+  it("moves the buyer's money into the escrow account", async () => {
+    const account = await systemAccountService.getOrCreateAccount(partner.id, 'escrow', 'USD');
+
+    expect(escrow.status).toBe('funded');
+    expect(await balanceOf(buyer.id)).toBe('60.00');
+    expect(await balanceOf(account.id)).toBe('40.00');
+    await expect(open({ amount: '60.01' })).rejects.toThrow('Insufficient balance');
+  });
+
+  it('releases to the seller once both parties confirm', async () => {
+    const first = await escrowService.confirmEscrow(partner.id, escrow.id, { party: 'buyer' });
+    const again = await escrowService.confirmEscrow(partner.id, escrow.id, { party: 'buyer' });
+    expect([first.status, again.status]).toEqual(['funded', 'funded']);
+    expect(await balanceOf(seller.id)).toBe('0.00');
+
+    const released = await escrowService.confirmEscrow(partner.id, escrow.id, { party: 'seller' });
+
+    expect(released.status).toBe('released');
+    expect(await balanceOf(seller.id)).toBe('40.00');
+  });
+
+  it('holds a disputed escrow until it is resolved', async () => {
+    await escrowService.disputeEscrow(partner.id, escrow.id, { reason: 'Item not delivered' });
+
+    await expect(escrowService.confirmEscrow(partner.id, escrow.id, { party: 'seller' }))
+      .rejects.toMatchObject({ code: 'INVALID_ESCROW_STATUS' });
+    const refunded = await escrowService.resolveEscrow(partner.id, escrow.id, { outcome: 'refund' });
+
+    expect(refunded.status).toBe('refunded');
+    expect(await balanceOf(buyer.id)).toBe('100.00');
+    expect(await balanceOf(seller.id)).toBe('0.00');
+    await expect(escrowService.resolveEscrow(partner.id, escrow.id, { outcome: 'release' }))
+      .rejects.toMatchObject({ code: 'INVALID_ESCROW_STATUS' });
+  });
+
+  it('releases funded escrows once their deadline passes', async () => {
+    const due = await open({ amount: '10.00', releaseAfter: new Date(Date.now() - 1000) });
+    const disputed = await open({ amount: '5.00', releaseAfter: new Date(Date.now() - 1000) });
+    await escrowService.disputeEscrow(partner.id, disputed.id, { reason: 'Wrong size' });
+
+    await escrowService.releaseDueEscrows();
+
+    expect((await escrowService.getEscrow(partner.id, due.id)).status).toBe('released');
+    expect((await escrowService.getEscrow(partner.id, disputed.id)).status).toBe('disputed');
+    expect((await escrowService.getEscrow(partner.id, escrow.id)).status).toBe('funded');
+    expect(await balanceOf(seller.id)).toBe('10.00');
+  });
+
+  it('returns the first escrow for a retried request', async () => {
+    const idempotencyKey = randomUUID();
+    const data = { buyerWalletId: buyer.id, sellerWalletId: seller.id, amount: '10.00', dealReference: 'deal-retry', idempotencyKey };
+
+    const first = await escrowService.createEscrow(partner.id, data);
+    const second = await escrowService.createEscrow(partner.id, data);
+
+    expect(second.id).toBe(first.id);
+    expect(await balanceOf(buyer.id)).toBe('50.00');
+  });
+});
@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { feeService } from '../services/fee';
+import { walletService } from '../services/wallet';
+import { systemAccountService } from '../services/system-accounts';
+import { holdService } from '../services/hold';
+import { fxService } from '../services/fx';
+import { transactionService } from '../services/transaction';
+import { fxRatesRepository } from '../repositories';
+import { multiLegTransactionSchema, upsertFeeScheduleSchema } from '@shared/schema';
+import { formatMoney, parseMoney } from '@shared/money';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(async () => {
+  await setupDatabase();
+  await fxRatesRepository.upsert({ baseCurrency: 'USD', quoteCurrency: 'EUR', rate: '0.9' });
+});
+
+describe('partner fees', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  const schedule = (data: Record<string, unknown>) =>
+    feeService.upsertSchedule(partner.id, upsertFeeScheduleSchema.parse({ currency: 'USD', ...data }));
+
+  const feesRevenue = async () =>
+    balanceOf((await systemAccountService.getOrCreateAccount(partner.id, 'fees_revenue', 'USD')).id);
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+  });
+
+  it('takes credit fees out of the incoming amount', async () => {
+    await schedule({ operation: 'credit', fixedAmount: '0.30', percentage: '2.9' });
+
+    const credit = await fund(partner.id, wallet.id, '100.00');
+
+    expect(await balanceOf(wallet.id)).toBe('96.80');
+    expect(await feesRevenue()).toBe('3.20');
+    expect(credit.fee).toMatchObject({ amount: '3.20', fixedAmount: '0.30', percentageAmount: '2.90', chargedWalletId: wallet.id });
+  });
+
+  it('charges transfer fees on top of the amount and counts them against the balance', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    await schedule({ operation: 'transfer', fixedAmount: '1.00' });
+    const other = await createWallet(partner.id);
+    const transfer = (amount: string) => walletService.transferBetweenWallets(partner.id, {
+      fromWalletId: wallet.id,
+      toWalletId: other.id,
+      amount,
+      idempotencyKey: randomUUID(),
+    });
+
+    await expect(transfer('99.50')).rejects.toThrow('Insufficient balance');
+    await transfer('99.00');
+
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+    expect(await balanceOf(other.id)).toBe('99.00');
+    expect(await feesRevenue()).toBe('1.00');
+  });
+
+  it('charges hold captures, FX transfers and splits under their own operations', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    await schedule({ operation: 'hold_capture', fixedAmount: '0.50' });
+    await schedule({ operation: 'fx', percentage: '1' });
+    await schedule({ operation: 'split', fixedAmount: '0.25' });
+    const other = await createWallet(partner.id);
+    const euro = await createWallet(partner.id, { currency: 'EUR' });
+
+    const hold = await holdService.createHold(partner.id, { walletId: wallet.id, amount: '10.00', idempotencyKey: randomUUID() });
+    const capture = await holdService.captureHold(partner.id, hold.id, { idempotencyKey: randomUUID() });
+    const quote = await fxService.createQuote(partner.id, { fromCurrency: 'USD', toCurrency: 'EUR', amount: '50.00' });
+    const fx = await fxService.transfer(partner.id, { quoteId: quote.id, fromWalletId: wallet.id, toWalletId: euro.id, idempotencyKey: randomUUID() });
+    const split = await transactionService.createMultiLegTransaction(partner.id, multiLegTransactionSchema.parse({
+      sources: [{ walletId: wallet.id, amount: '20.00' }],
+      destinations: [{ walletId: other.id, amount: '20.00' }],
+      idempotencyKey: randomUUID(),
+    }));
+
+    expect([capture.fee, fx.fee, split.fee]).toEqual([
+      expect.objectContaining({ operation: 'hold_capture', amount: '0.50', chargedWalletId: wallet.id }),
+      expect.objectContaining({ operation: 'fx', amount: '0.50', chargedWalletId: wallet.id }),
+      expect.objectContaining({ operation: 'split', amount: '0.25', chargedWalletId: wallet.id }),
+    ]);
+    expect(await balanceOf(wallet.id)).toBe('18.75');
+    expect(await balanceOf(euro.id, 'EUR')).toBe('45.00');
+    expect(await balanceOf(other.id)).toBe('20.00');
+    expect(await feesRevenue()).toBe('1.25');
+  });
+
+  it('uses the tier covering the amount and clamps to the minimum and maximum', async () => {
+    const tiered = await schedule({
+      operation: 'transfer',
+      tiers: [{ upTo: '100.00', percentage: '2' }, { upTo: null, percentage: '1' }],
+      minimumFee: '0.50',
+      maximumFee: '5.00',
+    });
+    const fee = (amount: string) => {
+      const applied = feeService.computeFee(tiered, parseMoney(amount, 'USD'), wallet.id);
+      return applied && formatMoney(applied.amount);
+    };
+
+    expect(fee('10.00')).toBe('0.50');
+    expect(fee('100.00')).toBe('2.00');
+    expect(fee('200.00')).toBe('2.00');
+    expect(fee('1000.00')).toBe('5.00');
+  });
+
+  it('never takes more than a credit brings in', async () => {
+    await schedule({ operation: 'credit', fixedAmount: '2.00' });
+
+    await fund(partner.id, wallet.id, '1.50');
+
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+    expect(await feesRevenue()).toBe('1.50');
+  });
+
+  it('charges nothing without an active schedule for the operation and currency', async () => {
+    await schedule({ operation: 'credit', currency: 'EUR', fixedAmount: '1.00' });
+    await schedule({ operation: 'debit', fixedAmount: '1.00', isActive: false });
+
+    await fund(partner.id, wallet.id, '10.00');
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '10.00', idempotencyKey: randomUUID() });
+
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+  });
+});
@@ -0,0 +1,59 @@
+import { randomUUID } from 'crypto';
+import { partnersRepository, walletsRepository, ledgerRepository } from "../repositories";
+import { walletService } from "../services/wallet";
+import { ensureLedgerImmutability } from "../infrastructure/ledger-immutability";
+import { createSchema } from "./test-db";
+import type { Partner, Wallet } from "@shared/schema";
+import { formatMoney, parseMoney } from "@shared/money";
+
+// Run once per test file, before anything touches the database. Ledger rows are append-only
+// in tests too.
+export async function setupDatabase() {
+  await createSchema();
+  await ensureLedgerImmutability();
+}
+
+export async function createPartner(): Promise<Partner> {
+  return await partnersRepository.create({
+    name: `partner-${randomUUID()}`,
+    companyName: 'Test Co',
+    email: 'ops@example.com',
+    contactPerson: 'Test Contact',
+    businessType: 'fintech',
+  });
+}
+
+export async function createWallet(partnerId: string, data: { currency?: string; parentWalletId?: string } = {}): Promise<Wallet> {
+  return await walletService.createWallet(partnerId, {
+    name: 'Test wallet',
+    currency: data.currency || 'USD',
+    parentWalletId: data.parentWalletId,
+  });
+}
+
+// Credits the wallet from clearing
+export async function fund(partnerId: string, walletId: string, amount: string, currency = 'USD') {
+  return await walletService.creditWallet(partnerId, {
+    walletId,
+    amount,
+    currency,
+    idempotencyKey: randomUUID(),
+  });
+}
+
+export async function balanceOf(walletId: string, currency = 'USD'): Promise<string> {
+  return formatMoney(await walletsRepository.getBalance(walletId, currency));
+}
+
+export async function availableOf(walletId: string, currency = 'USD'): Promise<string> {
+  return formatMoney(await walletService.getAvailableBalance(walletId, currency));
+}
+
+// Decimal columns carry the widest scale any currency uses; this gives the currency's own
+export function amount(value: string, currency = 'USD'): string {
+  return formatMoney(parseMoney(value, currency));
+}
+
+export async function ledgerOf(walletId: string) {
+  return (await ledgerRepository.listByWallet(walletId)).sort((a, b) => a.sequence - b.sequence);
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, balanceOf, ledgerOf } from './fixtures';
+import { fundingService } from '../services/funding';
+import { transactionsRepository } from '../repositories';
+import { stripeAdapter } from '../adapters/stripe-adapter';
+import { mockAdapter } from '../adapters/mock-adapter';
+import type { FundingSession, Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('funding sessions', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+  let session: FundingSession;
+  let cancelPayment: ReturnType<typeof vi.spyOn>;
+
+  const pendingCredit = async () => (await transactionsRepository.getByIdempotencyKey(`funding:${session.id}`))!;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(stripeAdapter, 'createPaymentIntent').mockImplementation(mockAdapter.createPaymentIntent);
+    cancelPayment = vi.spyOn(stripeAdapter, 'cancelPayment').mockImplementation(mockAdapter.cancelPayment);
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    session = await fundingService.createFundingSession(partner.id, wallet.id, { amount: '25.00', currency: 'USD', captureMode: 'automatic' });
+  });
+
+  it('credits the wallet once when the payment succeeds', async () => {
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+
+    expect((await pendingCredit()).status).toBe('completed');
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+    expect(await ledgerOf(wallet.id)).toHaveLength(1);
+  });
+
+  it('cancels the payment intent and voids the credit when the session expires', async () => {
+    const expired = await fundingService.expireSession(session.id);
+
+    expect(expired?.status).toBe('expired');
+    expect(cancelPayment).toHaveBeenCalledWith(session.paymentIntentId);
+    expect((await pendingCredit()).status).toBe('cancelled');
+  });
+
+  it('credits an expired session that was paid after all', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    cancelPayment.mockRejectedValueOnce(new Error('PaymentIntent has already succeeded'));
+    await fundingService.expireSession(session.id);
+
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('completed');
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+    expect(await ledgerOf(wallet.id)).toHaveLength(1);
+  });
+
+  it('credits a session paid on retry after a failed payment', async () => {
+    await fundingService.markSessionFailed(session.id);
+    expect((await pendingCredit()).status).toBe('pending');
+
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('completed');
+    expect((await pendingCredit()).status).toBe('completed');
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+  });
+
+  it('voids the credit of a failed session once it expires', async () => {
+    await fundingService.markSessionFailed(session.id);
+
+    expect((await fundingService.expireSession(session.id))?.status).toBe('expired');
+    expect((await pendingCredit()).status).toBe('cancelled');
+  });
+});
+
+describe('manual-capture funding sessions', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+  let session: FundingSession;
+  let capturePayment: ReturnType<typeof vi.spyOn>;
+  let cancelPayment: ReturnType<typeof vi.spyOn>;
+
+  const pendingCredit = async () => (await transactionsRepository.getByIdempotencyKey(`funding:${session.id}`))!;
+  const authorize = async () => {
+    await fundingService.processAuthorization(session.paymentIntentId);
+    return (await fundingService.getFundingSession(session.id))!;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(stripeAdapter, 'createPaymentIntent').mockImplementation(mockAdapter.createPaymentIntent);
+    capturePayment = vi.spyOn(stripeAdapter, 'capturePayment').mockImplementation(mockAdapter.capturePayment);
+    cancelPayment = vi.spyOn(stripeAdapter, 'cancelPayment').mockImplementation(mockAdapter.cancelPayment);
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    session = await fundingService.createFundingSession(partner.id, wallet.id, { amount: '25.00', currency: 'USD', captureMode: 'manual' });
+  });
+
+  it('credits the wallet only when the authorization is captured', async () => {
+    expect((await authorize()).status).toBe('authorized');
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+
+    const captured = await fundingService.captureFundingSession(partner.id, session.id);
+
+    expect(captured.status).toBe('completed');
+    expect(capturePayment).toHaveBeenCalledWith(session.paymentIntentId);
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+    expect((await fundingService.captureFundingSession(partner.id, session.id)).status).toBe('completed');
+    expect(capturePayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to capture before authorization or a session captured automatically', async () => {
+    await expect(fundingService.captureFundingSession(partner.id, session.id))
+      .rejects.toMatchObject({ code: 'INVALID_FUNDING_SESSION_STATUS' });
+    const automatic = await fundingService.createFundingSession(partner.id, wallet.id, { amount: '5.00', currency: 'USD', captureMode: 'automatic' });
+    await expect(fundingService.captureFundingSession(partner.id, automatic.id))
+      .rejects.toMatchObject({ code: 'NOT_MANUAL_CAPTURE' });
+  });
+
+  it('releases the card and voids the credit when the authorization is voided', async () => {
+    await authorize();
+
+    const voided = await fundingService.voidFundingSession(partner.id, session.id, { reason: 'Order cancelled' });
+
+    expect(voided.status).toBe('voided');
+    expect(cancelPayment).toHaveBeenCalledWith(session.paymentIntentId);
+    expect((await pendingCredit()).status).toBe('cancelled');
+    await expect(fundingService.captureFundingSession(partner.id, session.id))
+      .rejects.toMatchObject({ code: 'INVALID_FUNDING_SESSION_STATUS' });
+  });
+
+  it('refuses to capture a lapsed authorization and releases it', async () => {
+    const authorized = await authorize();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(authorized.authorizationExpiresAt!.getTime() + 1000);
+      await expect(fundingService.captureFundingSession(partner.id, session.id))
+        .rejects.toMatchObject({ code: 'AUTHORIZATION_EXPIRED' });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(capturePayment).not.toHaveBeenCalled();
+    expect(cancelPayment).toHaveBeenCalledWith(session.paymentIntentId);
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('expired');
+    expect((await pendingCredit()).status).toBe('cancelled');
+  });
+
+  it('expires authorizations the gateway let lapse', async () => {
+    await authorize();
+
+    await fundingService.processCancellation(session.paymentIntentId, 'automatic');
+
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('expired');
+    expect((await pendingCredit()).status).toBe('cancelled');
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+  });
+});
@@ -0,0 +1,77 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, amount, balanceOf } from './fixtures';
+import { db } from './test-db';
+import { fxService } from '../services/fx';
+import { systemAccountService } from '../services/system-accounts';
+import { fxRatesRepository } from '../repositories';
+import { fxQuotes, type FxQuote, type Partner, type Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(async () => {
+  await setupDatabase();
+  await fxRatesRepository.upsert({ baseCurrency: 'USD', quoteCurrency: 'EUR', rate: '0.9' });
+});
+
+describe('FX transfers', () => {
+  let partner: Partner;
+  let usd: Wallet;
+  let eur: Wallet;
+  let quote: FxQuote;
+
+  const transfer = (quoteId = quote.id) =>
+    fxService.transfer(partner.id, { quoteId, fromWalletId: usd.id, toWalletId: eur.id, idempotencyKey: randomUUID() });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    usd = await createWallet(partner.id);
+    eur = await createWallet(partner.id, { currency: 'EUR' });
+    await fund(partner.id, usd.id, '100.00');
+    quote = await fxService.createQuote(partner.id, { fromCurrency: 'USD', toCurrency: 'EUR', amount: '50.00' });
+  });
+
+  it('converts at the quoted rate through the FX position accounts', async () => {
+    expect(amount(quote.toAmount, 'EUR')).toBe('45.00');
+
+    await transfer();
+
+    const usdPosition = await systemAccountService.getAccountForOperation(partner.id, 'fx', 'USD');
+    const eurPosition = await systemAccountService.getAccountForOperation(partner.id, 'fx', 'EUR');
+    expect(await balanceOf(usd.id)).toBe('50.00');
+    expect(await balanceOf(eur.id, 'EUR')).toBe('45.00');
+    expect(await balanceOf(usdPosition.id)).toBe('50.00');
+    expect(await balanceOf(eurPosition.id, 'EUR')).toBe('-45.00');
+  });
+
+  it('uses a quote once', async () => {
+    const first = await transfer();
+
+    await expect(transfer()).rejects.toThrow('FX quote has expired or was already used');
+    expect((await fxService.getQuote(partner.id, quote.id)).transactionId).toBe(first.id);
+    expect(await balanceOf(usd.id)).toBe('50.00');
+    expect(await balanceOf(eur.id, 'EUR')).toBe('45.00');
+  });
+
+  it('refuses an expired quote without posting', async () => {
+    await db.update(fxQuotes).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(fxQuotes.id, quote.id));
+
+    await expect(transfer()).rejects.toThrow('FX quote has expired or was already used');
+    expect(await balanceOf(usd.id)).toBe('100.00');
+    expect(await balanceOf(eur.id, 'EUR')).toBe('0.00');
+  });
+
+  it('leaves the quote unused when the source wallet cannot pay', async () => {
+    const large = await fxService.createQuote(partner.id, { fromCurrency: 'USD', toCurrency: 'EUR', amount: '100.01' });
+
+    await expect(transfer(large.id)).rejects.toThrow('Insufficient balance');
+    expect((await fxService.getQuote(partner.id, large.id)).status).toBe('active');
+  });
+
+  it('keeps quotes private to the partner that asked for them', async () => {
+    const other = await createPartner();
+
+    await expect(fxService.getQuote(other.id, quote.id)).rejects.toThrow('FX quote not found');
+  });
+});
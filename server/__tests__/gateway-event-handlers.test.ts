@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { gatewayEventService } from '../services/gateway-events';
+import { fundingService } from '../services/funding';
+import { walletService } from '../services/wallet';
+import { systemAccountService } from '../services/system-accounts';
+import { transactionsRepository } from '../repositories';
+import { stripeAdapter } from '../adapters/stripe-adapter';
+import { mockAdapter } from '../adapters/mock-adapter';
+import type { FundingSession, Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('gateway event handlers', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+  let session: FundingSession;
+
+  const send = (gateway: string, type: string, object: Record<string, unknown>) =>
+    gatewayEventService.receive(gateway, { id: `evt_${randomUUID()}`, type, data: { object } } as { id: string; type: string });
+
+  const paymentIntent = (id: string, metadata: Record<string, unknown>) =>
+    ({ id, amount_received: 2500, currency: 'usd', metadata });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(stripeAdapter, 'createPaymentIntent').mockImplementation(mockAdapter.createPaymentIntent);
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    session = await fundingService.createFundingSession(partner.id, wallet.id, { amount: '25.00', currency: 'USD', captureMode: 'automatic' });
+  });
+
+  it('credits a funding session when Stripe reports it paid', async () => {
+    await send('stripe', 'payment_intent.succeeded', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('completed');
+  });
+
+  it('credits a funding session paid after a failed attempt', async () => {
+    await send('stripe', 'payment_intent.payment_failed', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('failed');
+
+    await send('stripe', 'payment_intent.succeeded', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('completed');
+  });
+
+  it('ignores mock events naming a Stripe funding session', async () => {
+    await send('mock', 'payment_intent.succeeded', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+    await send('mock', 'payment_intent.payment_failed', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+    expect((await fundingService.getFundingSession(session.id))?.status).toBe('created');
+  });
+
+  it('ignores mock dispute events on a Stripe funding payment', async () => {
+    await send('stripe', 'payment_intent.succeeded', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+
+    await send('mock', 'charge.dispute.funds_withdrawn', { id: `dp_${randomUUID()}`, payment_intent: session.paymentIntentId, amount: 2500, currency: 'usd' });
+
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+  });
+
+  it('moves disputed funding to suspense and back when Stripe withdraws and reinstates it', async () => {
+    await send('stripe', 'payment_intent.succeeded', paymentIntent(session.paymentIntentId, { session_type: 'funding' }));
+    const suspense = await systemAccountService.getAccountForOperation(partner.id, 'unmatched', 'USD');
+    const dispute = { id: `dp_${randomUUID()}`, payment_intent: session.paymentIntentId, amount: 1000, currency: 'usd' };
+
+    await send('stripe', 'charge.dispute.funds_withdrawn', dispute);
+    expect(await balanceOf(wallet.id)).toBe('15.00');
+    expect(await balanceOf(suspense.id)).toBe('10.00');
+
+    await send('stripe', 'charge.dispute.funds_reinstated', dispute);
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+    expect(await balanceOf(suspense.id)).toBe('0.00');
+  });
+
+  it('leaves transactions alone that were not made to be paid through the gateway', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    const other = await createWallet(partner.id);
+    const transfer = await walletService.transferBetweenWallets(partner.id, {
+      fromWalletId: wallet.id,
+      toWalletId: other.id,
+      amount: '30.00',
+      idempotencyKey: randomUUID(),
+      pending: true,
+    });
+    const fundingCredit = (await transactionsRepository.getByIdempotencyKey(`funding:${session.id}`))!;
+
+    await send('mock', 'payment_intent.succeeded', paymentIntent(`pi_mock_${randomUUID()}`, { transactionId: transfer.id }));
+    await send('mock', 'payment_intent.payment_failed', paymentIntent(`pi_mock_${randomUUID()}`, { transactionId: fundingCredit.id }));
+    await send('stripe', 'payment_intent.succeeded', paymentIntent(`pi_${randomUUID()}`, { transactionId: transfer.id }));
+
+    expect((await transactionsRepository.getById(transfer.id))?.status).toBe('pending');
+    expect((await transactionsRepository.getById(fundingCredit.id))?.status).toBe('pending');
+    expect(await balanceOf(other.id)).toBe('0.00');
+  });
+
+  it('settles and voids pending credits paid through the gateway that reports them', async () => {
+    const credit = (gateway: 'stripe' | 'mock') => walletService.creditWallet(partner.id, {
+      walletId: wallet.id,
+      amount: '10.00',
+      idempotencyKey: randomUUID(),
+      pending: true,
+      gateway,
+    });
+    const paid = await credit('mock');
+    const unpaid = await credit('mock');
+    const elsewhere = await credit('stripe');
+
+    await send('mock', 'payment_intent.succeeded', paymentIntent(`pi_mock_${randomUUID()}`, { transactionId: paid.id }));
+    await send('mock', 'payment_intent.payment_failed', paymentIntent(`pi_mock_${randomUUID()}`, { transactionId: unpaid.id }));
+    await send('mock', 'payment_intent.succeeded', paymentIntent(`pi_mock_${randomUUID()}`, { transactionId: elsewhere.id }));
+
+    expect((await transactionsRepository.getById(paid.id))?.status).toBe('completed');
+    expect((await transactionsRepository.getById(unpaid.id))?.status).toBe('cancelled');
+    expect((await transactionsRepository.getById(elsewhere.id))?.status).toBe('pending');
+    expect(await balanceOf(wallet.id)).toBe('10.00');
+  });
+});
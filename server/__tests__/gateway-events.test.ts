@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase } from './fixtures';
+import { db } from './test-db';
+import { gatewayEventService } from '../services/gateway-events';
+import { payoutService } from '../services/payout';
+import { gatewayEvents } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('gateway events', () => {
+  let handlePaid: ReturnType<typeof vi.spyOn>;
+  let event: { id: string; type: string; data: { object: { id: string } } };
+
+  const receive = () => gatewayEventService.receive('mock', event);
+
+  // Puts the event back in processing as if an attempt claimed it at the given time
+  const claimedAt = async (id: string, processingStartedAt: Date) => {
+    await db.update(gatewayEvents).set({ status: 'processing', processingStartedAt }).where(eq(gatewayEvents.id, id));
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {}); // Failed attempts are logged
+    handlePaid = vi.spyOn(payoutService, 'handleGatewayPaid').mockResolvedValue(undefined);
+    event = { id: `evt_${randomUUID()}`, type: 'payout.paid', data: { object: { id: `po_mock_${randomUUID()}` } } };
+  });
+
+  it('processes an event once however often it is delivered', async () => {
+    const first = await receive();
+    const redelivery = await receive();
+
+    expect(first.status).toBe('processed');
+    expect(redelivery.id).toBe(first.id);
+    expect(redelivery.attempts).toBe(1);
+    expect(handlePaid).toHaveBeenCalledTimes(1);
+    expect(handlePaid).toHaveBeenCalledWith('mock', event.data.object);
+  });
+
+  it('acknowledges event types it has no handler for', async () => {
+    event.type = 'customer.created';
+
+    expect((await receive()).status).toBe('processed');
+    expect(handlePaid).not.toHaveBeenCalled();
+  });
+
+  it('keeps a failed event for the next delivery', async () => {
+    handlePaid.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const failed = await receive();
+    expect(failed.status).toBe('failed');
+    expect(failed.lastError).toBe('database unavailable');
+
+    const retried = await receive();
+    expect(retried.status).toBe('processed');
+    expect(retried.lastError).toBeNull();
+    expect(retried.attempts).toBe(2);
+  });
+
+  it('re-processes a failed event from its stored payload', async () => {
+    handlePaid.mockRejectedValueOnce(new Error('database unavailable'));
+    const failed = await receive();
+
+    const reprocessed = await gatewayEventService.reprocess(failed.id);
+
+    expect(reprocessed.status).toBe('processed');
+    expect(handlePaid).toHaveBeenLastCalledWith('mock', event.data.object);
+  });
+
+  it('refuses to re-process a processed event', async () => {
+    const processed = await receive();
+
+    await expect(gatewayEventService.reprocess(processed.id)).rejects.toMatchObject({ code: 'INVALID_GATEWAY_EVENT_STATUS' });
+    expect(handlePaid).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves an event alone while another attempt is processing it', async () => {
+    handlePaid.mockRejectedValueOnce(new Error('database unavailable'));
+    const stored = await receive();
+    await claimedAt(stored.id, new Date());
+
+    expect((await receive()).status).toBe('processing');
+    await expect(gatewayEventService.reprocess(stored.id)).rejects.toMatchObject({ code: 'INVALID_GATEWAY_EVENT_STATUS' });
+    expect(handlePaid).toHaveBeenCalledTimes(1);
+  });
+
+  it('claims again an event whose attempt never finished', async () => {
+    handlePaid.mockRejectedValueOnce(new Error('database unavailable'));
+    const stored = await receive();
+    await claimedAt(stored.id, new Date(Date.now() - 10 * 60 * 1000));
+
+    const reprocessed = await gatewayEventService.reprocess(stored.id);
+
+    expect(reprocessed.status).toBe('processed');
+    expect(handlePaid).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a redelivery take over an event whose attempt never finished', async () => {
+    handlePaid.mockRejectedValueOnce(new Error('database unavailable'));
+    const stored = await receive();
+    await claimedAt(stored.id, new Date(Date.now() - 10 * 60 * 1000));
+
+    expect((await receive()).status).toBe('processed');
+  });
+
+  it('returns the event as finished by another attempt when this one lost its claim', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    handlePaid.mockImplementationOnce(async () => {
+      // A redelivery took the attempt for stale and processed the event meanwhile
+      await db.update(gatewayEvents).set({ status: 'processed', processedAt: new Date() }).where(eq(gatewayEvents.eventId, event.id));
+      return undefined;
+    });
+
+    const result = await receive();
+
+    expect(result.status).toBe('processed');
+    expect(result.eventId).toBe(event.id);
+  });
+});
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf, availableOf } from './fixtures';
+import { holdService } from '../services/hold';
+import { walletService } from '../services/wallet';
+import { subWalletService } from '../services/sub-wallets';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('wallet holds', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  const hold = (walletId: string, amount: string) =>
+    holdService.createHold(partner.id, { walletId, amount, currency: 'USD', idempotencyKey: randomUUID() });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await fund(partner.id, wallet.id, '100.00');
+  });
+
+  it('lowers the available balance but not the ledger balance', async () => {
+    await hold(wallet.id, '40.00');
+
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+    expect(await availableOf(wallet.id)).toBe('60.00');
+  });
+
+  it('refuses debits and further holds beyond the available balance', async () => {
+    await hold(wallet.id, '70.00');
+
+    await expect(walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '30.01', idempotencyKey: randomUUID() }))
+      .rejects.toThrow('Insufficient balance');
+    await expect(hold(wallet.id, '30.01')).rejects.toThrow('Insufficient balance');
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '30.00', idempotencyKey: randomUUID() });
+    expect(await availableOf(wallet.id)).toBe('0.00');
+  });
+
+  it('captures part of a hold and keeps the rest reserved', async () => {
+    const placed = await hold(wallet.id, '40.00');
+
+    await holdService.captureHold(partner.id, placed.id, { amount: '15.00', idempotencyKey: randomUUID() });
+
+    const current = await holdService.getHold(partner.id, placed.id);
+    expect(current.status).toBe('active');
+    expect(await balanceOf(wallet.id)).toBe('85.00');
+    expect(await availableOf(wallet.id)).toBe('60.00');
+  });
+
+  it('gives the funds back when released', async () => {
+    const placed = await hold(wallet.id, '40.00');
+
+    await holdService.releaseHold(partner.id, placed.id);
+
+    expect(await availableOf(wallet.id)).toBe('100.00');
+    await expect(holdService.captureHold(partner.id, placed.id, { idempotencyKey: randomUUID() }))
+      .rejects.toThrow('Hold is released and cannot be captured');
+  });
+
+  it('returns a retried hold or capture and refuses keys used for another one', async () => {
+    const idempotencyKey = randomUUID();
+    const placed = await holdService.createHold(partner.id, { walletId: wallet.id, amount: '40.00', idempotencyKey });
+    const other = await hold(wallet.id, '10.00');
+    const outsider = await createPartner();
+    const outsiderWallet = await createWallet(outsider.id);
+    await fund(outsider.id, outsiderWallet.id, '100.00');
+
+    expect((await holdService.createHold(partner.id, { walletId: wallet.id, amount: '40.00', idempotencyKey })).id).toBe(placed.id);
+    await expect(holdService.createHold(partner.id, { walletId: wallet.id, amount: '20.00', idempotencyKey }))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+    await expect(holdService.createHold(outsider.id, { walletId: outsiderWallet.id, amount: '40.00', idempotencyKey }))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+
+    const captureKey = randomUUID();
+    const capture = await holdService.captureHold(partner.id, placed.id, { idempotencyKey: captureKey });
+    expect((await holdService.captureHold(partner.id, placed.id, { idempotencyKey: captureKey })).id).toBe(capture.id);
+    await expect(holdService.captureHold(partner.id, other.id, { idempotencyKey: captureKey }))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+    await expect(holdService.captureHold(outsider.id, placed.id, { idempotencyKey: captureKey })).rejects.toThrow('Hold not found');
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+  });
+
+  describe('on sub-wallets', () => {
+    let child: Wallet;
+
+    beforeEach(async () => {
+      child = await createWallet(partner.id, { parentWalletId: wallet.id });
+    });
+
+    it('lets a child reserve what the tree can cover', async () => {
+      await hold(child.id, '60.00');
+
+      expect(await availableOf(child.id)).toBe('-60.00');
+      await expect(hold(child.id, '40.01')).rejects.toThrow('Insufficient balance');
+    });
+
+    it('follows the parent rule against negative children', async () => {
+      await subWalletService.setRules(partner.id, wallet.id, { preventNegativeChildren: true });
+
+      await expect(hold(child.id, '0.01')).rejects.toThrow('Insufficient balance');
+      await subWalletService.transfer(partner.id, wallet.id, {
+        fromWalletId: wallet.id,
+        toWalletId: child.id,
+        amount: '25.00',
+        currency: 'USD',
+        idempotencyKey: randomUUID(),
+      });
+      await hold(child.id, '25.00');
+      await expect(hold(child.id, '0.01')).rejects.toThrow('Insufficient balance');
+    });
+  });
+});
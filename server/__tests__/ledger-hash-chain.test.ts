@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { setupDatabase, createPartner, createWallet, fund, ledgerOf } from './fixtures';
+import { walletService } from '../services/wallet';
+import { ledgerIntegrityService } from '../services/ledger-integrity';
+import { computeLedgerEntryHash } from '../repositories/ledger-repository';
+import { db } from './test-db';
+import { ledgerEntries } from '@shared/schema';
+import type { LedgerEntry, Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('ledger hash chain', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  // A ledger row following the given entry, for writing straight to the table
+  const nextRow = (last: LedgerEntry) => ({
+    id: randomUUID(),
+    transactionId: last.transactionId,
+    walletId: wallet.id,
+    type: 'credit' as const,
+    amount: '5.00',
+    currency: 'USD',
+    balance: '75.00',
+    description: null,
+    createdAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await fund(partner.id, wallet.id, '100.00');
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '30.00', idempotencyKey: randomUUID() });
+  });
+
+  it("links each entry to the wallet's previous one", async () => {
+    const [first, second] = await ledgerOf(wallet.id);
+
+    expect(first.prevHash).toBeNull();
+    expect(first.hash).toBe(computeLedgerEntryHash(first, null));
+    expect(second.prevHash).toBe(first.hash);
+    expect(second.hash).toBe(computeLedgerEntryHash(second, first.hash));
+    expect((await ledgerIntegrityService.verifyHashChains({ partnerId: partner.id })).ok).toBe(true);
+  });
+
+  it('refuses to update or delete ledger entries', async () => {
+    const [entry] = await ledgerOf(wallet.id);
+
+    await expect(db.update(ledgerEntries).set({ amount: '1000.00' }).where(eq(ledgerEntries.id, entry.id)))
+      .rejects.toThrow('append-only');
+    await expect(db.delete(ledgerEntries).where(eq(ledgerEntries.id, entry.id))).rejects.toThrow('append-only');
+  });
+
+  it('reports entries that do not chain to the previous one', async () => {
+    const [, last] = await ledgerOf(wallet.id);
+    const row = nextRow(last);
+    // Hashed correctly, but against a forged predecessor
+    await db.insert(ledgerEntries).values({ ...row, prevHash: 'forged', hash: computeLedgerEntryHash(row, 'forged') });
+
+    const report = await ledgerIntegrityService.verifyHashChains({ partnerId: partner.id });
+
+    expect(report.ok).toBe(false);
+    expect(report.breaks).toEqual([expect.objectContaining({
+      type: 'chain_break',
+      entryId: row.id,
+      expectedPrevHash: last.hash,
+      storedPrevHash: 'forged',
+    })]);
+  });
+
+  it('reports entries whose contents no longer match their hash', async () => {
+    const [, last] = await ledgerOf(wallet.id);
+    const row = nextRow(last);
+    await db.insert(ledgerEntries).values({ ...row, prevHash: last.hash, hash: computeLedgerEntryHash({ ...row, amount: '500.00' }, last.hash) });
+
+    const report = await ledgerIntegrityService.verifyHashChains({ partnerId: partner.id });
+
+    expect(report.breaks).toEqual([expect.objectContaining({ type: 'hash_mismatch', entryId: row.id })]);
+  });
+});
@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, ledgerOf } from './fixtures';
+import { ledgerIntegrityService } from '../services/ledger-integrity';
+import { transactionsRepository } from '../repositories';
+import { computeLedgerEntryHash } from '../repositories/ledger-repository';
+import { db } from './test-db';
+import { ledgerEntries } from '@shared/schema';
+import type { Partner, Transaction, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('ledger integrity verifier', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  // Appends a correctly chained entry with whatever balance the test gives it
+  const append = async (transaction: Transaction, amount: string, balance: string) => {
+    const previous = (await ledgerOf(wallet.id)).pop();
+    const row = {
+      id: randomUUID(),
+      transactionId: transaction.id,
+      walletId: wallet.id,
+      type: 'credit' as const,
+      amount,
+      currency: 'USD',
+      balance,
+      description: null,
+      createdAt: new Date(),
+    };
+    const prevHash = previous?.hash ?? null;
+    await db.insert(ledgerEntries).values({ ...row, prevHash, hash: computeLedgerEntryHash(row, prevHash) });
+  };
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+  });
+
+  it('reports a clean ledger as ok', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+
+    const report = await ledgerIntegrityService.verify({ partnerId: partner.id });
+
+    expect(report.ok).toBe(true);
+    expect(report.summary).toMatchObject({ walletsChecked: 2, entriesChecked: 2, discrepancies: 0 });
+  });
+
+  it('reports running balances that disagree with the entries, with the balance to recompute', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    const transaction = await transactionsRepository.create({ type: 'credit', amount: '5.00', currency: 'USD', toWalletId: wallet.id });
+    await append(transaction, '5.00', '110.00');
+    await append(transaction, '5.00', '115.00');
+
+    const report = await ledgerIntegrityService.verify({ partnerId: partner.id });
+
+    expect(report.ok).toBe(false);
+    expect(report.summary.walletsWithBalanceMismatches).toBe(1);
+    expect(report.discrepancies).toContainEqual(expect.objectContaining({
+      type: 'running_balance_mismatch',
+      walletId: wallet.id,
+      expectedBalance: '105.00',
+      storedBalance: '110.00',
+      mismatchedEntries: 2,
+      repair: expect.objectContaining({ action: 'recompute_balances', finalBalance: '110.00' }),
+    }));
+  });
+
+  it('reports transactions whose legs do not balance', async () => {
+    const transaction = await transactionsRepository.create({ type: 'credit', amount: '5.00', currency: 'USD', toWalletId: wallet.id });
+    await append(transaction, '5.00', '5.00');
+
+    const report = await ledgerIntegrityService.verify({ partnerId: partner.id });
+
+    expect(report.discrepancies).toContainEqual({
+      type: 'unbalanced_transaction',
+      transactionId: transaction.id,
+      currency: 'USD',
+      net: '-5.00',
+      repair: { action: 'post_adjustment' },
+    });
+  });
+
+  it('reports completed transactions that never reached the ledger', async () => {
+    const transaction = await transactionsRepository.create({
+      type: 'credit',
+      amount: '5.00',
+      currency: 'USD',
+      toWalletId: wallet.id,
+      status: 'completed',
+    });
+
+    const report = await ledgerIntegrityService.verify({ partnerId: partner.id });
+
+    expect(report.summary.orphanedTransactions).toBe(1);
+    expect(report.discrepancies).toContainEqual(expect.objectContaining({ type: 'orphaned_transaction', transactionId: transaction.id }));
+  });
+
+  it('leaves other partners out of a scoped report', async () => {
+    const transaction = await transactionsRepository.create({ type: 'credit', amount: '5.00', currency: 'USD', toWalletId: wallet.id });
+    await append(transaction, '5.00', '5.00');
+    const other = await createPartner();
+    await fund(other.id, (await createWallet(other.id)).id, '10.00');
+
+    const report = await ledgerIntegrityService.verify({ partnerId: other.id });
+
+    expect(report.ok).toBe(true);
+  });
+});
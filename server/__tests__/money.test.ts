@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf, ledgerOf } from './fixtures';
+import { walletService } from '../services/wallet';
+import { addMoney, compareMoney, formatMoney, money, parseMoney, subtractMoney, sumMoney } from '@shared/money';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('money', () => {
+  it('parses decimal strings into integer minor units', () => {
+    expect(parseMoney('12.34', 'USD')).toEqual({ amount: 1234, currency: 'USD' });
+    expect(parseMoney('12.3', 'USD').amount).toBe(1230);
+    expect(parseMoney('10.5000', 'USD').amount).toBe(1050);
+    expect(parseMoney('-0.01', 'USD').amount).toBe(-1);
+  });
+
+  it('rejects malformed amounts and digits the currency cannot hold instead of rounding', () => {
+    expect(() => parseMoney('10.505', 'USD')).toThrow('decimal places');
+    expect(() => parseMoney('1e3', 'USD')).toThrow('Invalid amount');
+    expect(() => money(0.5, 'USD')).toThrow('Invalid minor-unit amount');
+  });
+
+  it('adds and compares exactly where floating point drifts', () => {
+    const total = sumMoney(Array.from({ length: 10 }, () => parseMoney('0.10', 'USD')), 'USD');
+
+    expect(formatMoney(total)).toBe('1.00');
+    expect(formatMoney(subtractMoney(parseMoney('0.30', 'USD'), parseMoney('0.10', 'USD')))).toBe('0.20');
+    expect(compareMoney(addMoney(parseMoney('0.10', 'USD'), parseMoney('0.20', 'USD')), parseMoney('0.30', 'USD'))).toBe(0);
+  });
+
+  it('refuses arithmetic across currencies', () => {
+    expect(() => addMoney(parseMoney('1.00', 'USD'), parseMoney('1.00', 'EUR'))).toThrow('Currency mismatch');
+  });
+
+  it('keeps the ledger balance exact across many small postings', async () => {
+    const partner = await createPartner();
+    const wallet = await createWallet(partner.id);
+    for (let i = 0; i < 10; i++) {
+      await fund(partner.id, wallet.id, '0.10');
+    }
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '0.30', idempotencyKey: randomUUID() });
+
+    expect(await balanceOf(wallet.id)).toBe('0.70');
+    const entries = await ledgerOf(wallet.id);
+    expect(entries).toHaveLength(11);
+    expect(entries[entries.length - 1].balance).toBe('0.700');
+  });
+});
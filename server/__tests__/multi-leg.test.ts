@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, amount, balanceOf } from './fixtures';
+import { transactionService } from '../services/transaction';
+import { ledgerRepository } from '../repositories';
+import { multiLegTransactionSchema } from '@shared/schema';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('multi-leg transactions', () => {
+  let partner: Partner;
+  let buyer: Wallet;
+  let seller: Wallet;
+  let platform: Wallet;
+
+  const split = (data: Record<string, unknown>) =>
+    transactionService.createMultiLegTransaction(partner.id, multiLegTransactionSchema.parse({ idempotencyKey: randomUUID(), ...data }));
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    buyer = await createWallet(partner.id);
+    seller = await createWallet(partner.id);
+    platform = await createWallet(partner.id);
+    await fund(partner.id, buyer.id, '100.00');
+  });
+
+  it('posts every leg of a split in one transaction', async () => {
+    const transaction = await split({
+      sources: [{ walletId: buyer.id, amount: '50.00' }],
+      destinations: [{ walletId: seller.id, amount: '45.00' }, { walletId: platform.id, amount: '5.00' }],
+    });
+
+    expect(transaction).toMatchObject({ type: 'split', fromWalletId: buyer.id, toWalletId: null });
+    expect(amount(transaction.amount)).toBe('50.00');
+    expect(await ledgerRepository.listByTransaction(transaction.id)).toHaveLength(3);
+    expect(await balanceOf(buyer.id)).toBe('50.00');
+    expect(await balanceOf(seller.id)).toBe('45.00');
+    expect(await balanceOf(platform.id)).toBe('5.00');
+  });
+
+  it('writes no leg when a source cannot pay its share', async () => {
+    const other = await createWallet(partner.id);
+    await fund(partner.id, other.id, '10.00');
+
+    await expect(split({
+      sources: [{ walletId: buyer.id, amount: '20.00' }, { walletId: other.id, amount: '20.00' }],
+      destinations: [{ walletId: seller.id, amount: '40.00' }],
+    })).rejects.toThrow('Insufficient balance');
+
+    expect(await balanceOf(buyer.id)).toBe('100.00');
+    expect(await balanceOf(seller.id)).toBe('0.00');
+  });
+
+  it('rejects splits whose sides do not add up or reuse a wallet', () => {
+    const request = (destinations: Array<{ walletId: string; amount: string }>) => multiLegTransactionSchema.safeParse({
+      idempotencyKey: randomUUID(),
+      sources: [{ walletId: buyer.id, amount: '10.00' }],
+      destinations,
+    });
+
+    expect(request([{ walletId: seller.id, amount: '9.99' }]).success).toBe(false);
+    expect(request([{ walletId: buyer.id, amount: '10.00' }]).success).toBe(false);
+    expect(request([{ walletId: seller.id, amount: '10.001' }]).success).toBe(false);
+  });
+
+  it("refuses legs on another partner's wallet", async () => {
+    const stranger = await createWallet((await createPartner()).id);
+
+    await expect(split({
+      sources: [{ walletId: buyer.id, amount: '10.00' }],
+      destinations: [{ walletId: stranger.id, amount: '10.00' }],
+    })).rejects.toThrow('not found or access denied');
+    expect(await balanceOf(buyer.id)).toBe('100.00');
+  });
+
+  it('posts a retried split once', async () => {
+    const idempotencyKey = randomUUID();
+    const data = {
+      idempotencyKey,
+      sources: [{ walletId: buyer.id, amount: '10.00' }],
+      destinations: [{ walletId: seller.id, amount: '10.00' }],
+    };
+
+    const first = await split(data);
+    const second = await split(data);
+
+    expect(second.id).toBe(first.id);
+    expect(await balanceOf(seller.id)).toBe('10.00');
+  });
+});
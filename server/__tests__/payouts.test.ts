@@ -0,0 +1,140 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf, availableOf } from './fixtures';
+import { payoutService } from '../services/payout';
+import { walletService } from '../services/wallet';
+import { systemAccountService } from '../services/system-accounts';
+import { mockAdapter } from '../adapters/mock-adapter';
+import type { Partner, PayoutRecord, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('payouts', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  const createPayout = (amount: string, idempotencyKey = randomUUID()) =>
+    payoutService.createPayout(partner.id, 'mock', {
+      walletId: wallet.id,
+      amount,
+      currency: 'USD',
+      destination: { type: 'bank_account', account: 'acct_test' },
+      idempotencyKey,
+    });
+
+  const inTransit = async () =>
+    balanceOf((await systemAccountService.getAccountForOperation(partner.id, 'payout', 'USD')).id);
+
+  const fail = (payout: PayoutRecord) =>
+    payoutService.handleGatewayFailure('mock', { id: payout.gatewayPayoutId!, failure_code: 'account_closed' }, 'payout.failed');
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await fund(partner.id, wallet.id, '100.00');
+  });
+
+  it('moves an accepted payout to payouts in transit', async () => {
+    const payout = await createPayout('40.00');
+
+    expect(payout.status).toBe('submitted');
+    expect(payout.gatewayPayoutId).toMatch(/^po_mock_/);
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+    expect(await inTransit()).toBe('40.00');
+  });
+
+  it('clears payouts in transit once paid, and only once', async () => {
+    const payout = await createPayout('40.00');
+
+    const paid = await payoutService.handleGatewayPaid('mock', { id: payout.gatewayPayoutId! });
+    await payoutService.handleGatewayPaid('mock', { id: payout.gatewayPayoutId! });
+
+    expect(paid?.status).toBe('paid');
+    expect(paid?.clearingTransactionId).toBeTruthy();
+    expect(await inTransit()).toBe('0.00');
+  });
+
+  it('goes straight to paid when the gateway pays synchronously', async () => {
+    mockAdapter.payoutsPaidOnCreation = true;
+    try {
+      const payout = await createPayout('40.00');
+
+      expect(payout.status).toBe('paid');
+      expect(await inTransit()).toBe('0.00');
+    } finally {
+      mockAdapter.payoutsPaidOnCreation = false;
+    }
+  });
+
+  it('fails without posting when the gateway refuses', async () => {
+    vi.spyOn(mockAdapter, 'createPayout').mockRejectedValueOnce(new Error('invalid_account'));
+
+    await expect(createPayout('40.00')).rejects.toThrow('invalid_account');
+    const [payout] = await payoutService.listPayouts(partner.id, { walletId: wallet.id });
+    expect(payout.status).toBe('failed');
+    expect(payout.failureReason).toBe('invalid_account');
+    expect(await availableOf(wallet.id)).toBe('100.00');
+  });
+
+  it('refuses a payout beyond the available balance', async () => {
+    await expect(createPayout('100.01')).rejects.toThrow('Insufficient balance');
+
+    const [payout] = await payoutService.listPayouts(partner.id, { walletId: wallet.id });
+    expect(payout.status).toBe('failed');
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+  });
+
+  it('reverses a submitted payout that fails, even with the wallet suspended', async () => {
+    const payout = await createPayout('40.00');
+    await walletService.suspendWallet(partner.id, wallet.id);
+
+    const failed = await fail(payout);
+    await fail(payout);
+
+    expect(failed?.status).toBe('failed');
+    expect(failed?.reversalTransactionId).toBeTruthy();
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+    expect(await inTransit()).toBe('0.00');
+  });
+
+  it('credits a paid payout back when the bank returns it', async () => {
+    const payout = await createPayout('40.00');
+    await payoutService.handleGatewayPaid('mock', { id: payout.gatewayPayoutId! });
+
+    const returned = await fail(payout);
+
+    expect(returned?.status).toBe('returned');
+    expect(returned?.reversalTransactionId).toBeTruthy();
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+    expect(await payoutService.handleGatewayPaid('mock', { id: payout.gatewayPayoutId! })).toMatchObject({ status: 'returned' });
+  });
+
+  it('returns a paid transfer only once it is reversed in full', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const payout = await createPayout('40.00');
+    await payoutService.handleGatewayPaid('mock', { id: payout.gatewayPayoutId! });
+
+    const partial = await payoutService.handleTransferReversal('mock', { id: payout.gatewayPayoutId!, amount_reversed: 1500 });
+    expect(partial?.status).toBe('paid');
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+
+    const full = await payoutService.handleTransferReversal('mock', { id: payout.gatewayPayoutId!, amount_reversed: 4000 });
+    expect(full?.status).toBe('returned');
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+  });
+
+  it('returns the same payout for a retried request', async () => {
+    const idempotencyKey = randomUUID();
+    const first = await createPayout('40.00', idempotencyKey);
+    const retry = await createPayout('40.00', idempotencyKey);
+
+    expect(retry.id).toBe(first.id);
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+  });
+});
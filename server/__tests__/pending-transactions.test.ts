@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf, availableOf, ledgerOf } from './fixtures';
+import { transactionService } from '../services/transaction';
+import { walletService } from '../services/wallet';
+import { fundingService } from '../services/funding';
+import { payoutService } from '../services/payout';
+import { holdsRepository, transactionsRepository } from '../repositories';
+import { stripeAdapter } from '../adapters/stripe-adapter';
+import { mockAdapter } from '../adapters/mock-adapter';
+import type { Partner, Transaction, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('pending transactions', () => {
+  let partner: Partner;
+  let payer: Wallet;
+  let payee: Wallet;
+  let pending: Transaction;
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    payer = await createWallet(partner.id);
+    payee = await createWallet(partner.id);
+    await fund(partner.id, payer.id, '100.00');
+    pending = await walletService.transferBetweenWallets(partner.id, {
+      fromWalletId: payer.id,
+      toWalletId: payee.id,
+      amount: '30.00',
+      idempotencyKey: randomUUID(),
+      pending: true,
+    });
+  });
+
+  it('reserves the funds with a hold and posts nothing', async () => {
+    expect(pending.status).toBe('pending');
+    expect(await balanceOf(payer.id)).toBe('100.00');
+    expect(await availableOf(payer.id)).toBe('70.00');
+    expect(await ledgerOf(payee.id)).toHaveLength(0);
+  });
+
+  it('posts the legs and captures the hold on settle', async () => {
+    const settled = await transactionService.settleTransaction(partner.id, pending.id);
+
+    expect(settled.status).toBe('completed');
+    expect(await balanceOf(payer.id)).toBe('70.00');
+    expect(await availableOf(payer.id)).toBe('70.00');
+    expect(await balanceOf(payee.id)).toBe('30.00');
+    const hold = await holdsRepository.getById(settled.settlement!.holdId!);
+    expect(hold?.status).toBe('captured');
+  });
+
+  it('settles once when settled again', async () => {
+    await transactionService.settleTransaction(partner.id, pending.id);
+    await transactionService.settleTransaction(partner.id, pending.id);
+
+    expect(await ledgerOf(payee.id)).toHaveLength(1);
+    expect(await balanceOf(payee.id)).toBe('30.00');
+  });
+
+  it('releases the hold on void and posts nothing', async () => {
+    const voided = await transactionService.voidTransaction(partner.id, pending.id, { reason: 'cancelled by customer' });
+
+    expect(voided.status).toBe('cancelled');
+    expect(await availableOf(payer.id)).toBe('100.00');
+    expect(await ledgerOf(payee.id)).toHaveLength(0);
+    await expect(transactionService.settleTransaction(partner.id, pending.id)).rejects.toThrow('Transaction is cancelled and cannot be settled');
+  });
+
+  it('cannot be voided once settled', async () => {
+    await transactionService.settleTransaction(partner.id, pending.id);
+
+    await expect(transactionService.voidTransaction(partner.id, pending.id)).rejects.toThrow('Transaction is completed and cannot be voided');
+    expect(await balanceOf(payee.id)).toBe('30.00');
+  });
+
+  it('keeps the reserved funds out of other debits', async () => {
+    await expect(walletService.debitWallet(partner.id, { walletId: payer.id, amount: '70.01', idempotencyKey: randomUUID() }))
+      .rejects.toThrow('Insufficient balance');
+    await walletService.debitWallet(partner.id, { walletId: payer.id, amount: '70.00', idempotencyKey: randomUUID() });
+
+    await transactionService.settleTransaction(partner.id, pending.id);
+    expect(await balanceOf(payer.id)).toBe('0.00');
+  });
+});
+
+describe('pending transactions reserved by other flows', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    vi.spyOn(stripeAdapter, 'createPaymentIntent').mockImplementation(mockAdapter.createPaymentIntent);
+  });
+
+  it('refuses to settle or void a funding session credit directly', async () => {
+    const session = await fundingService.createFundingSession(partner.id, wallet.id, { amount: '25.00', currency: 'USD', captureMode: 'automatic' });
+    const credit = (await transactionsRepository.getByIdempotencyKey(`funding:${session.id}`))!;
+
+    await expect(transactionService.settleTransaction(partner.id, credit.id)).rejects.toMatchObject({ code: 'TRANSACTION_MANAGED' });
+    await expect(transactionService.voidTransaction(partner.id, credit.id)).rejects.toMatchObject({ code: 'TRANSACTION_MANAGED' });
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+  });
+
+  it('refuses to void a payout reservation while the gateway pays it out', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    let voidAttempt: Promise<Transaction> | undefined;
+    const createPayout = mockAdapter.createPayout;
+    vi.spyOn(mockAdapter, 'createPayout').mockImplementation(async (destination, amount) => {
+      const [reservation] = await transactionService.getPartnerTransactions(partner.id, wallet.id);
+      voidAttempt = transactionService.voidTransaction(partner.id, reservation.id);
+      await voidAttempt.catch(() => undefined);
+      return await createPayout(destination, amount);
+    });
+
+    const payout = await payoutService.createPayout(partner.id, 'mock', {
+      walletId: wallet.id,
+      amount: '40.00',
+      currency: 'USD',
+      destination: { type: 'bank_account', account: 'acct_test' },
+      idempotencyKey: randomUUID(),
+    });
+
+    await expect(voidAttempt).rejects.toMatchObject({ code: 'TRANSACTION_MANAGED' });
+    expect(payout.status).toBe('submitted');
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+  });
+});
@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, amount, balanceOf, availableOf } from './fixtures';
+import { refundService } from '../services/refund';
+import { fundingService } from '../services/funding';
+import { feeService } from '../services/fee';
+import { walletService } from '../services/wallet';
+import { transactionService } from '../services/transaction';
+import { transactionsRepository, gatewayTransactionsRepository } from '../repositories';
+import { mockAdapter } from '../adapters/mock-adapter';
+import { stripeAdapter } from '../adapters/stripe-adapter';
+import { upsertFeeScheduleSchema } from '@shared/schema';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('refunds of gateway payments', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+  let paymentId: string;
+
+  const refund = (amount?: string) =>
+    refundService.refundGatewayPayment(partner.id, paymentId, { amount, idempotencyKey: randomUUID() });
+
+  // A captured card payment of 100.00 that credited the wallet
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    const credit = await fund(partner.id, wallet.id, '100.00');
+    paymentId = `pi_mock_${randomUUID()}`;
+    await gatewayTransactionsRepository.create({
+      gatewayTransactionId: paymentId,
+      gateway: 'mock',
+      status: 'completed',
+      amount: '100.00',
+      currency: 'USD',
+      transactionId: credit.id,
+    });
+  });
+
+  it('debits the wallet once the gateway accepts the refund', async () => {
+    const created = await refund('40.00');
+
+    expect(created.status).toBe('succeeded');
+    expect((await transactionsRepository.getById(created.transactionId!))?.status).toBe('completed');
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+  });
+
+  it('caps refunds at the captured amount across partial refunds', async () => {
+    await refund('40.00');
+
+    await expect(refund('60.01')).rejects.toMatchObject({
+      code: 'REFUND_EXCEEDS_CAPTURED',
+      details: { refundable: '60.00' },
+    });
+    await refund();
+    await expect(refund('0.01')).rejects.toMatchObject({ code: 'REFUND_EXCEEDS_CAPTURED' });
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+  });
+
+  it('cannot refund money already spent from the wallet', async () => {
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '70.00', idempotencyKey: randomUUID() });
+
+    await expect(refund('30.01')).rejects.toThrow('Insufficient balance');
+    expect(await balanceOf(wallet.id)).toBe('30.00');
+  });
+
+  it('releases the reserved funds when the gateway refuses', async () => {
+    vi.spyOn(mockAdapter, 'refundPayment').mockRejectedValueOnce(new Error('card_declined'));
+
+    await expect(refund('40.00')).rejects.toThrow('card_declined');
+    expect(await availableOf(wallet.id)).toBe('100.00');
+    await refund();
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+  });
+
+  it('puts the money back and frees the cap when the gateway fails the refund later', async () => {
+    const created = await refund('40.00');
+    await walletService.suspendWallet(partner.id, wallet.id);
+
+    const failed = await refundService.handleGatewayRefund('mock', { id: created.gatewayRefundId!, status: 'failed', failure_reason: 'expired_card' });
+
+    expect(failed?.status).toBe('failed');
+    expect(failed?.reversalTransactionId).toBeTruthy();
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+    await walletService.reactivateWallet(partner.id, wallet.id);
+    await refund();
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+  });
+
+  it('settles on the gateway confirmation if settling failed, even with the wallet suspended', async () => {
+    vi.spyOn(transactionService, 'settleTransaction').mockRejectedValueOnce(new Error('connection reset'));
+    await expect(refund('40.00')).rejects.toThrow('connection reset');
+    const [created] = await refundService.listRefunds(partner.id, { walletId: wallet.id });
+    await walletService.suspendWallet(partner.id, wallet.id);
+
+    const succeeded = await refundService.handleGatewayRefund('mock', { id: created.gatewayRefundId!, status: 'succeeded' });
+
+    expect(succeeded?.status).toBe('succeeded');
+    expect(await balanceOf(wallet.id)).toBe('60.00');
+  });
+
+  it('returns the same refund for a retried request', async () => {
+    const idempotencyKey = randomUUID();
+    const first = await refundService.refundGatewayPayment(partner.id, paymentId, { amount: '10.00', idempotencyKey });
+    const retry = await refundService.refundGatewayPayment(partner.id, paymentId, { amount: '10.00', idempotencyKey });
+
+    expect(retry.id).toBe(first.id);
+    expect(await balanceOf(wallet.id)).toBe('90.00');
+  });
+});
+
+describe('refunds of funding sessions', () => {
+  it('caps the refund at what the session credited after its funding fee', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(stripeAdapter, 'createPaymentIntent').mockImplementation(mockAdapter.createPaymentIntent);
+    vi.spyOn(stripeAdapter, 'refundPayment').mockImplementation(mockAdapter.refundPayment);
+    const partner = await createPartner();
+    const wallet = await createWallet(partner.id);
+    await feeService.upsertSchedule(partner.id, upsertFeeScheduleSchema.parse({ operation: 'funding', currency: 'USD', fixedAmount: '1.00' }));
+    const session = await fundingService.createFundingSession(partner.id, wallet.id, { amount: '25.00', currency: 'USD', captureMode: 'automatic' });
+    await fundingService.processFundingSuccess(session.paymentIntentId);
+    expect(await balanceOf(wallet.id)).toBe('24.00');
+
+    await expect(refundService.refundFundingSession(partner.id, session.id, { amount: '24.01', idempotencyKey: randomUUID() }))
+      .rejects.toMatchObject({ code: 'REFUND_EXCEEDS_CAPTURED', details: { refundable: '24.00' } });
+    const full = await refundService.refundFundingSession(partner.id, session.id, { idempotencyKey: randomUUID() });
+
+    expect(amount(full.amount)).toBe('24.00');
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+  });
+});
@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, amount, balanceOf, ledgerOf } from './fixtures';
+import { transactionService } from '../services/transaction';
+import { walletService } from '../services/wallet';
+import type { Partner, Transaction, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('reversing transactions', () => {
+  let partner: Partner;
+  let payer: Wallet;
+  let payee: Wallet;
+  let transfer: Transaction;
+
+  const reverse = (data: { amount?: string; idempotencyKey?: string } = {}) =>
+    transactionService.reverseTransaction(partner.id, transfer.id, {
+      amount: data.amount,
+      idempotencyKey: data.idempotencyKey || randomUUID(),
+    });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    payer = await createWallet(partner.id);
+    payee = await createWallet(partner.id);
+    await fund(partner.id, payer.id, '100.00');
+    transfer = await walletService.transferBetweenWallets(partner.id, {
+      fromWalletId: payer.id,
+      toWalletId: payee.id,
+      amount: '60.00',
+      idempotencyKey: randomUUID(),
+    });
+  });
+
+  it('posts a partial reversal as mirrored legs linked to the original', async () => {
+    const reversal = await reverse({ amount: '25.00' });
+
+    expect(reversal.reversedTransactionId).toBe(transfer.id);
+    expect(amount(reversal.amount)).toBe('25.00');
+    expect(await balanceOf(payer.id)).toBe('65.00');
+    expect(await balanceOf(payee.id)).toBe('35.00');
+    const last = (await ledgerOf(payee.id)).at(-1)!;
+    expect([last.type, amount(last.amount)]).toEqual(['debit', '25.00']);
+  });
+
+  it('never reverses more than the original amount in total', async () => {
+    await reverse({ amount: '40.00' });
+
+    await expect(reverse({ amount: '20.01' })).rejects.toThrow('Reversal amount must be between 0 and the unreversed 20.00 USD');
+    const rest = await reverse();
+    expect(amount(rest.amount)).toBe('20.00');
+    await expect(reverse()).rejects.toThrow('Transaction has already been fully reversed');
+    expect(await balanceOf(payer.id)).toBe('100.00');
+    expect(await balanceOf(payee.id)).toBe('0.00');
+  });
+
+  it('needs the funds to still be in the recipient wallet', async () => {
+    await walletService.debitWallet(partner.id, { walletId: payee.id, amount: '50.00', idempotencyKey: randomUUID() });
+
+    await expect(reverse({ amount: '10.01' })).rejects.toThrow('Insufficient balance');
+    expect(await balanceOf(payer.id)).toBe('40.00');
+  });
+
+  it('refuses to reverse a reversal', async () => {
+    const reversal = await reverse({ amount: '10.00' });
+
+    await expect(transactionService.reverseTransaction(partner.id, reversal.id, { idempotencyKey: randomUUID() }))
+      .rejects.toThrow('A reversal cannot itself be reversed');
+  });
+
+  it('returns the same reversal for a retried request', async () => {
+    const idempotencyKey = randomUUID();
+    const first = await reverse({ amount: '10.00', idempotencyKey });
+    const retry = await reverse({ amount: '10.00', idempotencyKey });
+
+    expect(retry.id).toBe(first.id);
+    expect(await balanceOf(payee.id)).toBe('50.00');
+  });
+
+  it('refuses an idempotency key already used for another transaction', async () => {
+    const idempotencyKey = randomUUID();
+    await walletService.creditWallet(partner.id, { walletId: payee.id, amount: '5.00', idempotencyKey });
+
+    await expect(reverse({ idempotencyKey })).rejects.toThrow('Idempotency key was already used for a different transaction');
+    expect(await balanceOf(payee.id)).toBe('65.00');
+  });
+});
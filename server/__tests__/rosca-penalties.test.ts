@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { roscaService } from '../services/rosca';
+import { walletService } from '../services/wallet';
+import { roscaPenaltyService } from '../services/rosca-penalties';
+import { systemAccountService } from '../services/system-accounts';
+import { createRoscaGroupSchema } from '@shared/schema';
+import type { Partner, RoscaGroup, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ROSCA penalties', () => {
+  let partner: Partner;
+  let members: Wallet[];
+
+  // Weekly rounds starting ten days ago with a two-day grace period: rounds 1 and 2 are overdue
+  const createGroup = async (rules: Record<string, unknown>) => await roscaService.createGroup(partner.id, createRoscaGroupSchema.parse({
+    name: 'Savings circle',
+    contributionAmount: '20.00',
+    frequency: 'weekly',
+    startDate: new Date(Date.now() - 10 * DAY_MS),
+    memberWalletIds: members.map(m => m.id),
+    gracePeriodDays: 2,
+    idempotencyKey: randomUUID(),
+    ...rules,
+  }));
+  const contribute = (group: RoscaGroup, wallet: Wallet, roundNumber: number) =>
+    roscaService.recordContribution(partner.id, group.id, { walletId: wallet.id, roundNumber, idempotencyKey: randomUUID() });
+  const payout = (group: RoscaGroup) => roscaService.executePayout(partner.id, group.id, { idempotencyKey: randomUUID() });
+  const feesRevenue = async () =>
+    balanceOf((await systemAccountService.getOrCreateAccount(partner.id, 'fees_revenue', 'USD')).id);
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    partner = await createPartner();
+    members = [];
+    for (let i = 0; i < 3; i++) {
+      const wallet = await createWallet(partner.id);
+      await fund(partner.id, wallet.id, '100.00');
+      members.push(wallet);
+    }
+  });
+
+  it('charges the late fee on contributions after the grace period', async () => {
+    const group = await createGroup({ lateFeeAmount: '2.50' });
+
+    const contribution = await contribute(group, members[1], 1);
+
+    expect(contribution.late).toBe(true);
+    expect(await balanceOf(members[1].id)).toBe('77.50');
+    expect(await feesRevenue()).toBe('2.50');
+  });
+
+  it('keeps a late fee the member cannot pay outstanding', async () => {
+    const group = await createGroup({ lateFeeAmount: '2.50' });
+    await walletService.debitWallet(partner.id, { walletId: members[1].id, amount: '80.00', idempotencyKey: randomUUID() });
+
+    await contribute(group, members[1], 1);
+
+    const standing = await roscaPenaltyService.getStanding(partner.id, group.id);
+    expect(await balanceOf(members[1].id)).toBe('0.00');
+    expect(standing.members[1]).toMatchObject({ lateFeesCharged: '0.00', lateFeesOutstanding: '2.50', standing: 'in_arrears' });
+  });
+
+  it('moves the turn of a member who missed their own round to the end of the rotation', async () => {
+    const group = await createGroup({ missedPaymentRule: 'skip_turn' });
+    await contribute(group, members[1], 1);
+    await contribute(group, members[2], 1);
+    for (const member of members) {
+      await contribute(group, member, 2);
+    }
+
+    const result = await roscaPenaltyService.assessGroup(partner.id, group.id);
+
+    expect(result.penalties.map(p => [p.type, p.memberId])).toEqual([
+      ['missed_contribution', group.members[0].id],
+      ['skip_turn', group.members[0].id],
+    ]);
+    const { rounds, members: joined } = await roscaService.getGroupDetails(partner.id, group.id);
+    const recipients = rounds.map(r => joined.find(m => m.id === r.recipientMemberId)!.walletId);
+    expect(recipients).toEqual([members[1].id, members[2].id, members[0].id]);
+  });
+
+  it('repays arrears out of the defaulter payout to whoever received the short round', async () => {
+    const group = await createGroup({ missedPaymentRule: 'deduct_from_payout' });
+    await contribute(group, members[0], 1);
+    await contribute(group, members[1], 1);
+    await payout(group); // Round 1 is overdue, so it is paid short after assessing the missing member
+    for (const member of members) {
+      await contribute(group, member, 2);
+    }
+    await payout(group);
+    for (const member of members) {
+      await contribute(group, member, 3);
+    }
+
+    const { deductions } = await payout(group);
+
+    expect(deductions).toEqual([expect.objectContaining({ type: 'missed_contribution', amount: '20.00', walletId: members[0].id })]);
+    for (const member of members) {
+      expect(await balanceOf(member.id)).toBe('100.00');
+    }
+    const standing = await roscaPenaltyService.getStanding(partner.id, group.id);
+    expect(standing.members[2]).toMatchObject({ missedRounds: [1], arrearsAmount: '0.00' });
+  });
+
+  it('reports members with unpaid overdue rounds as in arrears', async () => {
+    const group = await createGroup({});
+    await contribute(group, members[0], 1);
+
+    const standing = await roscaPenaltyService.getStanding(partner.id, group.id);
+
+    expect(standing.members[0]).toMatchObject({ contributionsDue: 2, contributionsPaid: 1, arrearsAmount: '20.00', standing: 'in_arrears' });
+    expect(standing.members[1]).toMatchObject({ missedRounds: [1, 2], arrearsAmount: '40.00' });
+  });
+});
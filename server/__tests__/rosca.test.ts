@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, amount, balanceOf } from './fixtures';
+import { roscaService } from '../services/rosca';
+import { createRoscaGroupSchema } from '@shared/schema';
+import type { Partner, RoscaGroup, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ROSCA groups', () => {
+  let partner: Partner;
+  let members: Wallet[];
+  let group: RoscaGroup;
+
+  const contribute = (wallet: Wallet, roundNumber?: number) =>
+    roscaService.recordContribution(partner.id, group.id, { walletId: wallet.id, roundNumber, idempotencyKey: randomUUID() });
+  const payout = () => roscaService.executePayout(partner.id, group.id, { idempotencyKey: randomUUID() });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    members = [];
+    for (let i = 0; i < 3; i++) {
+      const wallet = await createWallet(partner.id);
+      await fund(partner.id, wallet.id, '100.00');
+      members.push(wallet);
+    }
+    group = await roscaService.createGroup(partner.id, createRoscaGroupSchema.parse({
+      name: 'Savings circle',
+      contributionAmount: '20.00',
+      frequency: 'weekly',
+      startDate: new Date(Date.now() + DAY_MS),
+      memberWalletIds: members.map(m => m.id),
+      idempotencyKey: randomUUID(),
+    }));
+  });
+
+  it('creates a round per member in rotation order, one period apart', async () => {
+    const details = await roscaService.getGroupDetails(partner.id, group.id);
+
+    expect(details.members.map(m => [m.walletId, m.position])).toEqual(members.map((m, i) => [m.id, i + 1]));
+    expect(details.rounds.map(r => amount(r.expectedAmount))).toEqual(['60.00', '60.00', '60.00']);
+    expect(details.rounds[1].dueDate.getTime() - details.rounds[0].dueDate.getTime()).toBe(7 * DAY_MS);
+  });
+
+  it('pays the pot to the member whose turn it is once everyone has contributed', async () => {
+    await contribute(members[0]);
+    await contribute(members[1]);
+    await expect(payout()).rejects.toMatchObject({ code: 'CONTRIBUTIONS_OUTSTANDING' });
+    await contribute(members[2]);
+
+    const { round, recipient } = await payout();
+
+    expect(round).toMatchObject({ roundNumber: 1, status: 'paid_out' });
+    expect(recipient.walletId).toBe(members[0].id);
+    expect(await balanceOf(members[0].id)).toBe('140.00');
+    expect(await balanceOf(members[1].id)).toBe('80.00');
+    expect((await roscaService.getGroup(partner.id, group.id)).currentRound).toBe(2);
+  });
+
+  it('refuses a second contribution from the same member to a round', async () => {
+    await contribute(members[0]);
+
+    await expect(contribute(members[0])).rejects.toMatchObject({ code: 'DUPLICATE_CONTRIBUTION' });
+    expect(await balanceOf(members[0].id)).toBe('80.00');
+  });
+
+  it('completes the group after the last round is paid out', async () => {
+    for (let round = 1; round <= 3; round++) {
+      for (const member of members) {
+        await contribute(member, round);
+      }
+      await payout();
+    }
+
+    const finished = await roscaService.getGroupDetails(partner.id, group.id);
+    expect(finished.status).toBe('completed');
+    expect(await balanceOf(finished.groupWalletId)).toBe('0.00');
+    for (const member of members) {
+      expect(await balanceOf(member.id)).toBe('100.00');
+    }
+    await expect(contribute(members[0], 3)).rejects.toMatchObject({ code: 'INVALID_GROUP_STATUS' });
+  });
+
+  it('refuses wallets of another partner or currency', async () => {
+    const euro = await createWallet(partner.id, { currency: 'EUR' });
+    const request = (walletIds: string[]) => roscaService.createGroup(partner.id, createRoscaGroupSchema.parse({
+      name: 'Mixed',
+      contributionAmount: '20.00',
+      frequency: 'monthly',
+      startDate: new Date(),
+      memberWalletIds: walletIds,
+      idempotencyKey: randomUUID(),
+    }));
+
+    await expect(request([members[0].id, euro.id])).rejects.toThrow('Currency mismatch');
+    await expect(request([members[0].id, (await createWallet((await createPartner()).id)).id])).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,95 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund } from './fixtures';
+import { walletService } from '../services/wallet';
+import { statementService } from '../services/statement';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('wallet statements', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  // Ledger entries take their timestamp from the clock when they are posted
+  const at = async <T>(time: string, post: () => Promise<T>) => {
+    vi.setSystemTime(new Date(time));
+    return await post();
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await at('2026-01-05T10:00:00Z', () => fund(partner.id, wallet.id, '100.00'));
+    await at('2026-02-10T10:00:00Z', () =>
+      walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '30.00', description: 'Rent', idempotencyKey: randomUUID() }));
+    await at('2026-02-20T10:00:00Z', () => fund(partner.id, wallet.id, '12.50'));
+    await at('2026-03-01T10:00:00Z', () => fund(partner.id, wallet.id, '1.00'));
+    vi.useRealTimers();
+  });
+
+  it('gives the balance as it stood at a past instant', async () => {
+    const balance = (asOf: string) => walletService.getBalanceAsOf(partner.id, wallet.id, new Date(asOf));
+
+    expect((await balance('2026-01-01T00:00:00Z')).balance).toBe('0.00');
+    expect((await balance('2026-01-05T10:00:00Z')).balance).toBe('100.00');
+    expect(await balance('2026-02-15T00:00:00Z')).toMatchObject({ balance: '70.00', currency: 'USD' });
+  });
+
+  it('opens with the balance before the range and totals the entries inside it', async () => {
+    const statement = await statementService.getStatement(partner.id, wallet.id, new Date('2026-02-01T00:00:00Z'), new Date('2026-02-28T23:59:59Z'));
+
+    expect(statement).toMatchObject({
+      openingBalance: '100.00',
+      closingBalance: '82.50',
+      totalCredits: '12.50',
+      totalDebits: '30.00',
+    });
+    expect(statement.entries.map(line => [line.type, line.amount, line.balance])).toEqual([
+      ['debit', '30.00', '70.00'],
+      ['credit', '12.50', '82.50'],
+    ]);
+  });
+
+  it('keeps past balances consistent when the posting clock steps back', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await at('2026-02-25T10:00:00Z', () =>
+      walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '2.50', idempotencyKey: randomUUID() }));
+    vi.useRealTimers();
+
+    // Posted after the 1 March credit, so it is dated with it and not before it
+    const balance = (asOf: string) => walletService.getBalanceAsOf(partner.id, wallet.id, new Date(asOf));
+    expect((await balance('2026-02-28T00:00:00Z')).balance).toBe('82.50');
+    expect((await balance('2026-03-01T10:00:00Z')).balance).toBe('81.00');
+  });
+
+  it('closes on the opening balance when nothing was posted in the range', async () => {
+    const statement = await statementService.getStatement(partner.id, wallet.id, new Date('2026-01-10T00:00:00Z'), new Date('2026-01-31T00:00:00Z'));
+
+    expect(statement).toMatchObject({ openingBalance: '100.00', closingBalance: '100.00', entries: [] });
+  });
+
+  it('writes opening and closing rows around the entries in the CSV', async () => {
+    const statement = await statementService.getStatement(partner.id, wallet.id, new Date('2026-02-01T00:00:00Z'), new Date('2026-02-15T00:00:00Z'));
+
+    const rows = statementService.toCsv(statement).trimEnd().split('\r\n');
+
+    expect(rows).toHaveLength(4);
+    expect(rows[1]).toContain('opening_balance');
+    expect(rows[2]).toContain(',debit,Rent,30.00,70.00');
+    expect(rows[3]).toMatch(/closing_balance,,,70\.00$/);
+  });
+
+  it("refuses another partner's wallet", async () => {
+    const other = await createPartner();
+
+    await expect(statementService.getStatement(other.id, wallet.id, new Date(0), new Date())).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { subWalletService } from '../services/sub-wallets';
+import { walletService } from '../services/wallet';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('sub-wallets', () => {
+  let partner: Partner;
+  let parent: Wallet;
+  let child: Wallet;
+
+  const debit = (walletId: string, amount: string) =>
+    walletService.debitWallet(partner.id, { walletId, amount, idempotencyKey: randomUUID() });
+  const move = (fromWalletId: string, toWalletId: string, amount: string) =>
+    subWalletService.transfer(partner.id, parent.id, { fromWalletId, toWalletId, amount, idempotencyKey: randomUUID() });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    parent = await createWallet(partner.id);
+    child = await createWallet(partner.id, { parentWalletId: parent.id });
+    await fund(partner.id, parent.id, '100.00');
+  });
+
+  it('rolls the children up into a consolidated balance', async () => {
+    await move(parent.id, child.id, '30.00');
+    await fund(partner.id, child.id, '5.00');
+
+    const tree = await subWalletService.getTree(partner.id, parent.id);
+
+    expect(tree.parent.balance).toBe('70.00');
+    expect(tree.children.map(c => [c.id, c.balance])).toEqual([[child.id, '35.00']]);
+    expect(tree.consolidated).toEqual({ currency: 'USD', balance: '105.00', availableBalance: '105.00' });
+  });
+
+  it('allows one level of same-currency sub-wallets only', async () => {
+    await expect(createWallet(partner.id, { parentWalletId: child.id })).rejects.toMatchObject({ code: 'INVALID_PARENT_WALLET' });
+    await expect(createWallet(partner.id, { currency: 'EUR', parentWalletId: parent.id })).rejects.toThrow('Currency mismatch');
+  });
+
+  it('lets a child spend from the tree unless negative children are prevented', async () => {
+    await debit(child.id, '10.00');
+    expect(await balanceOf(child.id)).toBe('-10.00');
+    await expect(debit(child.id, '90.01')).rejects.toThrow('Insufficient balance');
+
+    await subWalletService.setRules(partner.id, parent.id, { preventNegativeChildren: true, capAtParentBalance: false });
+
+    await expect(debit(child.id, '1.00')).rejects.toThrow('Insufficient balance');
+  });
+
+  it('keeps children at or below the parent balance when capped', async () => {
+    await subWalletService.setRules(partner.id, parent.id, { preventNegativeChildren: false, capAtParentBalance: true });
+
+    await expect(move(parent.id, child.id, '60.00')).rejects.toMatchObject({ code: 'SUB_WALLET_RULE_VIOLATION', details: { rule: 'capAtParentBalance' } });
+    await move(parent.id, child.id, '50.00');
+    expect(await balanceOf(child.id)).toBe('50.00');
+  });
+
+  it('only moves money within the tree', async () => {
+    const outsider = await createWallet(partner.id);
+
+    await expect(move(parent.id, outsider.id, '10.00')).rejects.toThrow('not part of this wallet tree');
+    await expect(subWalletService.transfer(partner.id, child.id, {
+      fromWalletId: child.id,
+      toWalletId: parent.id,
+      amount: '1.00',
+      idempotencyKey: randomUUID(),
+    })).rejects.toMatchObject({ code: 'INVALID_PARENT_WALLET' });
+  });
+
+  it('cannot close a parent with open children', async () => {
+    await expect(walletService.closeWallet(partner.id, parent.id, {})).rejects.toMatchObject({ code: 'WALLET_HAS_CHILDREN' });
+  });
+});
@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { systemAccountService } from '../services/system-accounts';
+import { walletService } from '../services/wallet';
+import { partnersRepository } from '../repositories';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('system accounts', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+  });
+
+  it('posts each operation against its own system account', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    await walletService.creditWallet(partner.id, { walletId: wallet.id, amount: '40.00', idempotencyKey: randomUUID() }, 'funding');
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '30.00', idempotencyKey: randomUUID() });
+
+    const clearing = await systemAccountService.getOrCreateAccount(partner.id, 'clearing', 'USD');
+    const receivable = await systemAccountService.getOrCreateAccount(partner.id, 'gateway_receivable', 'USD');
+    expect(await balanceOf(clearing.id)).toBe('-70.00');
+    expect(await balanceOf(receivable.id)).toBe('-40.00');
+    expect(await balanceOf(wallet.id)).toBe('110.00');
+  });
+
+  it('keeps one account per type and currency', async () => {
+    const usd = await systemAccountService.getOrCreateAccount(partner.id, 'fees_revenue', 'USD');
+    const again = await systemAccountService.getOrCreateAccount(partner.id, 'fees_revenue', 'USD');
+    const eur = await systemAccountService.getOrCreateAccount(partner.id, 'fees_revenue', 'EUR');
+
+    expect(again.id).toBe(usd.id);
+    expect(eur.id).not.toBe(usd.id);
+    expect(eur).toMatchObject({ currency: 'EUR', systemAccountType: 'fees_revenue' });
+  });
+
+  it('adopts the clearing wallet kept in partner settings', async () => {
+    const legacy = await createWallet(partner.id);
+    await partnersRepository.updateSettings(partner.id, { clearingWalletId: legacy.id });
+
+    const clearing = await systemAccountService.getOrCreateAccount(partner.id, 'clearing', 'USD');
+
+    expect(clearing.id).toBe(legacy.id);
+    expect(clearing.systemAccountType).toBe('clearing');
+  });
+
+  it('lists the partner system accounts with their balances', async () => {
+    await fund(partner.id, wallet.id, '25.00');
+
+    const accounts = await systemAccountService.listAccounts(partner.id);
+
+    expect(accounts).toEqual([expect.objectContaining({ systemAccountType: 'clearing', currency: 'USD', balance: '-25.00' })]);
+  });
+});
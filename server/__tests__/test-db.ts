@@ -0,0 +1,54 @@
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from "@shared/schema";
+
+/**
+ * Stands in for server/db in tests: an in-process Postgres (PGlite). Test files swap it in with
+ * `vi.mock('../db', () => import('./test-db'))` and create the schema with setupDatabase() from
+ * the fixtures; each file runs in its own worker, so each gets an empty database. Being a single
+ * connection it never runs postings side by side; concurrent-posting.test.ts does that on a real
+ * Postgres when TEST_DATABASE_URL is set.
+ */
+
+// drizzle-kit's ESM build cannot load its own dependencies; the CommonJS one can
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require('drizzle-kit/api');
+
+const pool = new PGlite();
+const db = drizzle(pool, { schema });
+
+// The statements creating every table, enum and index of the current schema
+export async function schemaStatements(): Promise<string[]> {
+  return await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+}
+
+export async function createSchema() {
+  for (const statement of await schemaStatements()) {
+    await pool.exec(statement);
+  }
+}
+
+export type DbExecutor = typeof db;
+
+// PGlite is a single connection, so a transaction is opened on it directly and every query joins
+// it, as queries given the tx handle do in production. Nested calls become savepoints.
+let depth = 0;
+
+export async function withTransaction<T>(callback: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  const savepoint = `sp_${depth}`;
+  await pool.exec(depth === 0 ? 'BEGIN' : `SAVEPOINT ${savepoint}`);
+  depth++;
+  try {
+    const result = await callback(db);
+    depth--;
+    await pool.exec(depth === 0 ? 'COMMIT' : `RELEASE SAVEPOINT ${savepoint}`);
+    return result;
+  } catch (error) {
+    depth--;
+    await pool.exec(depth === 0 ? 'ROLLBACK' : `ROLLBACK TO SAVEPOINT ${savepoint}`);
+    throw error;
+  }
+}
+
+export { pool, db };
@@ -0,0 +1,118 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, amount, balanceOf, ledgerOf } from './fixtures';
+import { transactionService } from '../services/transaction';
+import { walletService } from '../services/wallet';
+import { systemAccountService } from '../services/system-accounts';
+import { transactionsRepository, ledgerRepository } from '../repositories';
+import { ensureLedgerImmutability } from '../infrastructure/ledger-immutability';
+import { db } from './test-db';
+import { money } from '@shared/money';
+import { ledgerEntries } from '@shared/schema';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('posting transactions', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+  });
+
+  it('writes the transaction and balanced ledger legs together', async () => {
+    const transaction = await fund(partner.id, wallet.id, '100.00');
+
+    const legs = await ledgerRepository.listByTransaction(transaction.id);
+    const clearing = await systemAccountService.getAccountForOperation(partner.id, 'manual_credit', 'USD');
+    expect(transaction.status).toBe('completed');
+    expect(legs.map(leg => [leg.walletId, leg.type, amount(leg.amount)])).toEqual(expect.arrayContaining([
+      [clearing.id, 'debit', '100.00'],
+      [wallet.id, 'credit', '100.00'],
+    ]));
+    expect(await balanceOf(wallet.id)).toBe('100.00');
+    expect(await balanceOf(clearing.id)).toBe('-100.00');
+  });
+
+  it('rolls back the transaction row and every leg when the posting fails', async () => {
+    await fund(partner.id, wallet.id, '50.00');
+    const other = await createWallet(partner.id);
+    const idempotencyKey = randomUUID();
+
+    await expect(transactionService.postTransaction({
+      type: 'transfer',
+      amount: '20.00',
+      currency: 'USD',
+      fromWalletId: wallet.id,
+      toWalletId: other.id,
+      idempotencyKey,
+    }, [
+      { walletId: wallet.id, type: 'debit', amount: money(2000, 'USD') },
+      { walletId: other.id, type: 'credit', amount: money(2000, 'USD') },
+    ], {
+      afterPost: async () => {
+        throw new Error('downstream write failed');
+      },
+    })).rejects.toThrow('downstream write failed');
+
+    expect(await transactionsRepository.getByIdempotencyKey(idempotencyKey)).toBeUndefined();
+    expect(await balanceOf(wallet.id)).toBe('50.00');
+    expect(await ledgerOf(other.id)).toHaveLength(0);
+  });
+
+  it('keeps a running balance on every entry', async () => {
+    await fund(partner.id, wallet.id, '100.00');
+    await walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '30.00', idempotencyKey: randomUUID() });
+    await fund(partner.id, wallet.id, '5.50');
+
+    const entries = await ledgerOf(wallet.id);
+    expect(entries.map(entry => amount(entry.balance))).toEqual(['100.00', '70.00', '75.50']);
+    expect(await balanceOf(wallet.id)).toBe('75.50');
+  });
+
+  it('refuses a debit beyond the balance without writing anything', async () => {
+    await fund(partner.id, wallet.id, '10.00');
+
+    await expect(walletService.debitWallet(partner.id, { walletId: wallet.id, amount: '10.01', idempotencyKey: randomUUID() }))
+      .rejects.toThrow('Insufficient balance');
+    expect(await ledgerOf(wallet.id)).toHaveLength(1);
+  });
+
+  it('posts a retried request once', async () => {
+    const idempotencyKey = randomUUID();
+    const first = await walletService.creditWallet(partner.id, { walletId: wallet.id, amount: '25.00', idempotencyKey });
+    const retry = await walletService.creditWallet(partner.id, { walletId: wallet.id, amount: '25.00', idempotencyKey });
+
+    expect(retry.id).toBe(first.id);
+    expect(await balanceOf(wallet.id)).toBe('25.00');
+  });
+
+  it('chains rows written before hashing in the order they were created', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const transaction = await transactionsRepository.create({ type: 'credit', amount: '5.00', currency: 'USD', toWalletId: wallet.id });
+    const row = (createdAt: Date, balance: string) => ({
+      transactionId: transaction.id,
+      walletId: wallet.id,
+      type: 'credit' as const,
+      amount: '5.00',
+      currency: 'USD',
+      balance,
+      createdAt,
+    });
+    // Stored out of order, as adding the sequence column to an old table can number them
+    await db.insert(ledgerEntries).values(row(new Date('2024-01-02T00:00:00Z'), '10.00'));
+    await db.insert(ledgerEntries).values(row(new Date('2024-01-01T00:00:00Z'), '5.00'));
+
+    await ensureLedgerImmutability();
+
+    const [first, second] = await ledgerOf(wallet.id);
+    expect(amount(first.balance)).toBe('5.00');
+    expect(amount(second.balance)).toBe('10.00');
+    expect(first.prevHash).toBeNull();
+    expect(second.prevHash).toBe(first.hash);
+  });
+});
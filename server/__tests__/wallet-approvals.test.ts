@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf, availableOf } from './fixtures';
+import { walletApprovalService } from '../services/wallet-approval';
+import { walletService } from '../services/wallet';
+import { transactionService } from '../services/transaction';
+import { holdService } from '../services/hold';
+import { roscaService } from '../services/rosca';
+import { transactionsRepository } from '../repositories';
+import { createRoscaGroupSchema, setApprovalPolicySchema } from '@shared/schema';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('wallet approvals', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  const debit = (amount: string) =>
+    walletService.debitWallet(partner.id, { walletId: wallet.id, amount, idempotencyKey: randomUUID() });
+  const requestFor = async () => (await walletApprovalService.listRequests(partner.id, wallet.id))[0];
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await fund(partner.id, wallet.id, '100.00');
+    await walletApprovalService.setPolicy(partner.id, wallet.id, setApprovalPolicySchema.parse({
+      approverIds: ['alice', 'bob', 'carol'],
+      requiredApprovals: 2,
+      thresholdAmount: '50.00',
+    }));
+  });
+
+  it('holds a debit over the threshold until enough approvers agree', async () => {
+    const proposed = await debit('60.00');
+    expect(proposed.status).toBe('pending');
+    expect(await availableOf(wallet.id)).toBe('40.00');
+    const request = await requestFor();
+
+    const first = await walletApprovalService.approve(partner.id, request.id, { approverId: 'alice' });
+    expect(first.status).toBe('pending');
+    const second = await walletApprovalService.approve(partner.id, request.id, { approverId: 'bob' });
+
+    expect(second.status).toBe('approved');
+    expect((await transactionsRepository.getById(proposed.id))?.status).toBe('completed');
+    expect(await balanceOf(wallet.id)).toBe('40.00');
+  });
+
+  it('posts debits within the threshold straight away', async () => {
+    const posted = await debit('50.00');
+
+    expect(posted.status).toBe('completed');
+    expect(await walletApprovalService.listRequests(partner.id, wallet.id)).toEqual([]);
+  });
+
+  it('voids the debit once too many approvers refuse', async () => {
+    const proposed = await debit('60.00');
+    const request = await requestFor();
+
+    await walletApprovalService.reject(partner.id, request.id, { approverId: 'alice' });
+    const rejected = await walletApprovalService.reject(partner.id, request.id, { approverId: 'bob', note: 'Not budgeted' });
+
+    expect(rejected.status).toBe('rejected');
+    expect((await transactionsRepository.getById(proposed.id))?.status).toBe('cancelled');
+    expect(await availableOf(wallet.id)).toBe('100.00');
+  });
+
+  it('only takes decisions from designated approvers, once each', async () => {
+    await debit('60.00');
+    const request = await requestFor();
+    await walletApprovalService.approve(partner.id, request.id, { approverId: 'alice' });
+
+    await expect(walletApprovalService.approve(partner.id, request.id, { approverId: 'mallory' }))
+      .rejects.toMatchObject({ code: 'NOT_AN_APPROVER' });
+    await expect(walletApprovalService.reject(partner.id, request.id, { approverId: 'alice' }))
+      .rejects.toMatchObject({ code: 'APPROVER_ALREADY_DECIDED' });
+    expect((await walletApprovalService.approve(partner.id, request.id, { approverId: 'alice' })).status).toBe('pending');
+  });
+
+  it('refuses to settle an awaiting transaction or bypass the policy through other flows', async () => {
+    const proposed = await debit('60.00');
+
+    await expect(transactionService.settleTransaction(partner.id, proposed.id)).rejects.toMatchObject({ code: 'APPROVAL_REQUIRED' });
+    await expect(holdService.createHold(partner.id, { walletId: wallet.id, amount: '50.01', idempotencyKey: randomUUID() }))
+      .rejects.toMatchObject({ code: 'APPROVAL_REQUIRED' });
+  });
+
+  it('refuses reversing a credit out of a wallet past its threshold', async () => {
+    const credit = await fund(partner.id, wallet.id, '60.00');
+
+    await expect(transactionService.reverseTransaction(partner.id, credit.id, { idempotencyKey: randomUUID() }))
+      .rejects.toMatchObject({ code: 'APPROVAL_REQUIRED' });
+    await transactionService.reverseTransaction(partner.id, credit.id, { amount: '50.00', idempotencyKey: randomUUID() });
+    expect(await balanceOf(wallet.id)).toBe('110.00');
+  });
+
+  it('refuses a ROSCA payout out of a group wallet past its threshold', async () => {
+    const members = [await createWallet(partner.id), await createWallet(partner.id), await createWallet(partner.id)];
+    for (const member of members) {
+      await fund(partner.id, member.id, '20.00');
+    }
+    const group = await roscaService.createGroup(partner.id, createRoscaGroupSchema.parse({
+      name: 'Savings circle',
+      contributionAmount: '20.00',
+      frequency: 'weekly',
+      startDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      memberWalletIds: members.map(m => m.id),
+      idempotencyKey: randomUUID(),
+    }));
+    await walletApprovalService.setPolicy(partner.id, group.groupWalletId, setApprovalPolicySchema.parse({
+      approverIds: ['alice', 'bob'],
+      requiredApprovals: 2,
+      thresholdAmount: '50.00',
+    }));
+    for (const member of members) {
+      await roscaService.recordContribution(partner.id, group.id, { walletId: member.id, idempotencyKey: randomUUID() });
+    }
+
+    await expect(roscaService.executePayout(partner.id, group.id, { idempotencyKey: randomUUID() }))
+      .rejects.toMatchObject({ code: 'APPROVAL_REQUIRED' });
+    expect(await balanceOf(group.groupWalletId)).toBe('60.00');
+  });
+
+  it('voids the debit when the request expires', async () => {
+    const proposed = await debit('60.00');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+      await walletApprovalService.expireDueRequests();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect((await requestFor()).status).toBe('expired');
+    expect((await transactionsRepository.getById(proposed.id))?.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { walletService } from '../services/wallet';
+import { holdService } from '../services/hold';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(setupDatabase);
+
+describe('wallet lifecycle', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  const debit = (walletId: string) =>
+    walletService.debitWallet(partner.id, { walletId, amount: '1.00', idempotencyKey: randomUUID() });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await fund(partner.id, wallet.id, '50.00');
+  });
+
+  it('stops money movements while suspended and resumes them on reactivation', async () => {
+    const suspended = await walletService.suspendWallet(partner.id, wallet.id, 'KYC review');
+    expect(suspended).toMatchObject({ status: 'suspended', statusReason: 'KYC review' });
+
+    await expect(debit(wallet.id)).rejects.toMatchObject({ code: 'WALLET_NOT_ACTIVE' });
+    await expect(fund(partner.id, wallet.id, '1.00')).rejects.toMatchObject({ code: 'WALLET_NOT_ACTIVE' });
+
+    await walletService.reactivateWallet(partner.id, wallet.id);
+    await debit(wallet.id);
+    expect(await balanceOf(wallet.id)).toBe('49.00');
+  });
+
+  it('only moves between the statuses each action allows', async () => {
+    await expect(walletService.reactivateWallet(partner.id, wallet.id)).rejects.toMatchObject({ code: 'INVALID_WALLET_STATUS' });
+    await walletService.suspendWallet(partner.id, wallet.id);
+    await expect(walletService.suspendWallet(partner.id, wallet.id)).rejects.toMatchObject({ code: 'INVALID_WALLET_STATUS' });
+  });
+
+  it('refuses to close a wallet that still holds money unless it is swept', async () => {
+    await expect(walletService.closeWallet(partner.id, wallet.id, {})).rejects.toMatchObject({ code: 'WALLET_NOT_EMPTY' });
+    const target = await createWallet(partner.id);
+
+    const { wallet: closed, sweepTransaction } = await walletService.closeWallet(partner.id, wallet.id, {
+      sweepToWalletId: target.id,
+      reason: 'Customer left',
+    });
+
+    expect(closed).toMatchObject({ status: 'closed', statusReason: 'Customer left' });
+    expect(sweepTransaction).toBeDefined();
+    expect(await balanceOf(wallet.id)).toBe('0.00');
+    expect(await balanceOf(target.id)).toBe('50.00');
+  });
+
+  it('refuses to close a wallet with active holds', async () => {
+    await holdService.createHold(partner.id, { walletId: wallet.id, amount: '50.00', idempotencyKey: randomUUID() });
+
+    await expect(walletService.closeWallet(partner.id, wallet.id, {}))
+      .rejects.toMatchObject({ code: 'WALLET_NOT_EMPTY', message: expect.stringContaining('holds') });
+    expect((await walletService.getPartnerWallet({ partnerId: partner.id, walletId: wallet.id }))?.status).toBe('active');
+  });
+
+  it('keeps closed wallets closed', async () => {
+    const empty = await createWallet(partner.id);
+    await walletService.closeWallet(partner.id, empty.id, {});
+
+    await expect(walletService.reactivateWallet(partner.id, empty.id)).rejects.toMatchObject({ code: 'INVALID_WALLET_STATUS' });
+    await expect(walletService.updateWallet(partner.id, empty.id, { name: 'Renamed' })).rejects.toMatchObject({ code: 'INVALID_WALLET_STATUS' });
+    await expect(walletService.closeWallet(partner.id, empty.id, {})).rejects.toMatchObject({ code: 'INVALID_WALLET_STATUS' });
+    await expect(fund(partner.id, empty.id, '1.00')).rejects.toMatchObject({ code: 'WALLET_NOT_ACTIVE' });
+  });
+
+  it('updates the name and metadata only', async () => {
+    const updated = await walletService.updateWallet(partner.id, wallet.id, { name: 'Savings', metadata: { goal: 'car' } });
+
+    expect(updated).toMatchObject({ name: 'Savings', metadata: { goal: 'car' }, status: 'active', currency: 'USD' });
+  });
+});
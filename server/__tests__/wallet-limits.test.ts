@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { setupDatabase, createPartner, createWallet, fund, balanceOf } from './fixtures';
+import { walletLimitService } from '../services/wallet-limits';
+import { walletService } from '../services/wallet';
+import { transactionService } from '../services/transaction';
+import { holdService } from '../services/hold';
+import { fxService } from '../services/fx';
+import { fxRatesRepository } from '../repositories';
+import { multiLegTransactionSchema } from '@shared/schema';
+import type { Partner, Wallet } from '@shared/schema';
+
+vi.mock('../db', () => import('./test-db'));
+
+beforeAll(async () => {
+  await setupDatabase();
+  await fxRatesRepository.upsert({ baseCurrency: 'USD', quoteCurrency: 'EUR', rate: '0.9' });
+});
+
+describe('wallet limits', () => {
+  let partner: Partner;
+  let wallet: Wallet;
+
+  const debit = (amount: string, pending?: boolean) =>
+    walletService.debitWallet(partner.id, { walletId: wallet.id, amount, idempotencyKey: randomUUID(), pending });
+
+  beforeEach(async () => {
+    partner = await createPartner();
+    wallet = await createWallet(partner.id);
+    await fund(partner.id, wallet.id, '500.00');
+  });
+
+  it('refuses single transactions over the maximum and credits past the maximum balance', async () => {
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: wallet.id, currency: 'USD', maxTransactionAmount: '200.00', maxBalance: '600.00' });
+
+    await expect(debit('200.01')).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', details: { limit: 'maxTransactionAmount' } });
+    await expect(fund(partner.id, wallet.id, '100.01')).rejects.toMatchObject({
+      code: 'LIMIT_EXCEEDED',
+      details: { limit: 'maxBalance', used: '500.00', remaining: '100.00' },
+    });
+    await fund(partner.id, wallet.id, '100.00');
+    expect(await balanceOf(wallet.id)).toBe('600.00');
+  });
+
+  it('applies the lowest limit set across partner and wallet scopes', async () => {
+    await walletLimitService.upsertLimit(partner.id, { scope: 'partner', currency: 'USD', dailyDebitLimit: '50.00' });
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: wallet.id, currency: 'USD', dailyDebitLimit: '300.00' });
+
+    await expect(debit('50.01')).rejects.toMatchObject({ details: { limit: 'dailyDebitLimit', scope: 'partner' } });
+    await debit('50.00');
+  });
+
+  it('checks hold captures, split payments and FX transfers', async () => {
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: wallet.id, currency: 'USD', dailyDebitLimit: '100.00' });
+    const other = await createWallet(partner.id);
+    const euro = await createWallet(partner.id, { currency: 'EUR' });
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: euro.id, currency: 'EUR', maxBalance: '40.00' });
+    const hold = await holdService.createHold(partner.id, { walletId: wallet.id, amount: '150.00', idempotencyKey: randomUUID() });
+
+    await expect(holdService.captureHold(partner.id, hold.id, { idempotencyKey: randomUUID() }))
+      .rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', details: { limit: 'dailyDebitLimit' } });
+    await expect(transactionService.createMultiLegTransaction(partner.id, multiLegTransactionSchema.parse({
+      sources: [{ walletId: wallet.id, amount: '100.01' }],
+      destinations: [{ walletId: other.id, amount: '100.01' }],
+      idempotencyKey: randomUUID(),
+    }))).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', details: { limit: 'dailyDebitLimit' } });
+    const quote = await fxService.createQuote(partner.id, { fromCurrency: 'USD', toCurrency: 'EUR', amount: '50.00' });
+    await expect(fxService.transfer(partner.id, { quoteId: quote.id, fromWalletId: wallet.id, toWalletId: euro.id, idempotencyKey: randomUUID() }))
+      .rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', details: { walletId: euro.id, limit: 'maxBalance' } });
+    expect(await balanceOf(wallet.id)).toBe('500.00');
+  });
+
+  it('counts pending debits toward the daily limit until they are settled or voided', async () => {
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: wallet.id, currency: 'USD', dailyDebitLimit: '100.00' });
+    const first = await debit('60.00', true);
+
+    await expect(debit('60.00', true)).rejects.toMatchObject({
+      code: 'LIMIT_EXCEEDED',
+      details: { limit: 'dailyDebitLimit', used: '60.00', remaining: '40.00' },
+    });
+    const second = await debit('40.00', true);
+    await transactionService.settleTransaction(partner.id, first.id);
+    await transactionService.voidTransaction(partner.id, second.id);
+
+    await expect(debit('40.01')).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED' });
+    await debit('40.00');
+    expect(await balanceOf(wallet.id)).toBe('400.00');
+  });
+
+  it('counts pending credits toward the daily credit limit', async () => {
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: wallet.id, currency: 'USD', dailyCreditLimit: '600.00' });
+    const credit = (amount: string) =>
+      walletService.creditWallet(partner.id, { walletId: wallet.id, amount, idempotencyKey: randomUUID(), pending: true });
+
+    await credit('80.00');
+
+    await expect(credit('20.01')).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', details: { limit: 'dailyCreditLimit', remaining: '20.00' } });
+  });
+
+  it('reports pending debits in the wallet usage', async () => {
+    await walletLimitService.upsertLimit(partner.id, { scope: 'wallet', walletId: wallet.id, currency: 'USD', dailyDebitLimit: '100.00' });
+    await debit('25.00', true);
+
+    const report = await walletLimitService.getWalletLimits(partner.id, wallet.id);
+
+    expect(report.limits.dailyDebitLimit).toMatchObject({ used: '25.00', remaining: '75.00' });
+  });
+});
@@ -1,12 +1,17 @@
 import { randomUUID } from 'crypto';
+import type { Money } from '@shared/money';
 
 export const mockAdapter = {
-  async createPaymentIntent(amount: string, currency: string, metadata?: any) {
+  // Mock payouts stay pending until a payout.paid or payout.failed event arrives
+  payoutsPaidOnCreation: false,
+
+  async createPaymentIntent(amount: Money, metadata?: any, captureMethod: 'automatic' | 'manual' = 'automatic') {
     return {
       id: `pi_mock_${randomUUID()}`,
-      amount: Math.round(parseFloat(amount) * 100),
-      currency: currency.toLowerCase(),
-      status: 'succeeded',
+      amount: amount.amount,
+      currency: amount.currency.toLowerCase(),
+      status: captureMethod === 'manual' ? 'requires_capture' : 'succeeded',
+      capture_method: captureMethod,
       client_secret: `pi_mock_${randomUUID()}_secret_mock`,
       metadata
     };
@@ -20,20 +25,32 @@ export const mockAdapter = {
     };
   },
 
-  async refundPayment(paymentIntentId: string, amount?: string) {
+  async cancelPayment(paymentIntentId: string) {
+    return {
+      id: paymentIntentId,
+      status: 'canceled'
+    };
+  },
+
+  async refundPayment(paymentIntentId: string, amount?: Money) {
     return {
       id: `re_mock_${randomUUID()}`,
       payment_intent: paymentIntentId,
-      amount: amount ? Math.round(parseFloat(amount) * 100) : null,
+      amount: amount ? amount.amount : null,
       status: 'succeeded'
     };
   },
 
-  async createPayout(destination: any, amount: string, currency: string) {
+  async listRefunds(paymentIntentId: string) {
+    // Mock refunds succeed when they are created, so there is nothing to bring up to date
+    return [];
+  },
+
+  async createPayout(destination: any, amount: Money) {
     return {
       id: `po_mock_${randomUUID()}`,
-      amount: Math.round(parseFloat(amount) * 100),
-      currency: currency.toLowerCase(),
+      amount: amount.amount,
+      currency: amount.currency.toLowerCase(),
       status: 'pending',
       destination
     };
@@ -42,7 +59,7 @@ export const mockAdapter = {
   async verifyWebhook(payload: string, signature: string, secret: string) {
     const event = JSON.parse(payload);
     return {
-      id: `evt_mock_${randomUUID()}`,
+      id: event.id || `evt_mock_${randomUUID()}`,
       type: event.type || 'payment_intent.succeeded',
       data: event.data || {}
     };
@@ -1,4 +1,5 @@
 import Stripe from 'stripe';
+import type { Money } from '@shared/money';
 
 function getStripe(): Stripe {
   const key = process.env.STRIPE_SECRET_KEY;
@@ -12,20 +13,17 @@ function getStripe(): Stripe {
 }
 
 export const stripeAdapter = {
-  async createPaymentIntent(amount: string, currency: string, metadata?: any) {
-    const stripe = getStripe();
-    return await stripe.paymentIntents.create({
-      amount: Math.round(parseFloat(amount) * 100), // Convert to cents
-      currency: currency.toLowerCase(),
-      metadata
-    });
-  },
+  // Payouts are Stripe transfers to connected accounts. A transfer lands in the account's balance
+  // when it is created and has no status; Stripe sends no paid or failed event for it, only
+  // transfer.reversed can follow.
+  payoutsPaidOnCreation: true,
 
-  async createPaymentIntentFromNumber(amount: number, currency: string, metadata?: any) {
+  async createPaymentIntent(amount: Money, metadata?: any, captureMethod: 'automatic' | 'manual' = 'automatic') {
     const stripe = getStripe();
     return await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
-      currency: currency.toLowerCase(),
+      amount: amount.amount, // Already in minor units
+      currency: amount.currency.toLowerCase(),
+      capture_method: captureMethod,
       metadata
     });
   },
@@ -35,20 +33,31 @@ export const stripeAdapter = {
     return await stripe.paymentIntents.capture(paymentIntentId);
   },
 
-  async refundPayment(paymentIntentId: string, amount?: string) {
+  async cancelPayment(paymentIntentId: string) {
+    const stripe = getStripe();
+    return await stripe.paymentIntents.cancel(paymentIntentId);
+  },
+
+  async refundPayment(paymentIntentId: string, amount?: Money) {
     const stripe = getStripe();
     const refundData: any = { payment_intent: paymentIntentId };
     if (amount) {
-      refundData.amount = Math.round(parseFloat(amount) * 100);
+      refundData.amount = amount.amount;
     }
     return await stripe.refunds.create(refundData);
   },
 
-  async createPayout(destination: any, amount: string, currency: string) {
+  async listRefunds(paymentIntentId: string) {
+    const stripe = getStripe();
+    const refunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+    return refunds.data;
+  },
+
+  async createPayout(destination: any, amount: Money) {
     const stripe = getStripe();
     return await stripe.transfers.create({
-      amount: Math.round(parseFloat(amount) * 100),
-      currency: currency.toLowerCase(),
+      amount: amount.amount,
+      currency: amount.currency.toLowerCase(),
       destination: destination.account,
     });
   },
@@ -0,0 +1,16 @@
+import { fxRatesRepository } from '../repositories';
+import { invertRate } from '@shared/money';
+
+// Rate provider backed by the fx_rates table, maintained through the admin API.
+// When only the opposite pair is stored, its inverse is used.
+export const tableFxRateProvider = {
+  async getRate(baseCurrency: string, quoteCurrency: string): Promise<string | undefined> {
+    const direct = await fxRatesRepository.getByPair(baseCurrency, quoteCurrency);
+    if (direct) {
+      return direct.rate;
+    }
+
+    const inverse = await fxRatesRepository.getByPair(quoteCurrency, baseCurrency);
+    return inverse ? invertRate(inverse.rate) : undefined;
+  }
+};
@@ -29,4 +29,18 @@ if (isNeonUrl) {
   db = drizzlePg({ client: pool, schema });
 }
 
+/**
+ * Either the root connection or a transaction handle passed to withTransaction callbacks.
+ * Repositories accept one so their queries can join an open transaction.
+ */
+export type DbExecutor = typeof db;
+
+/**
+ * Run the callback inside a single database transaction. Everything executed through
+ * the provided handle commits together, or rolls back if the callback throws.
+ */
+export async function withTransaction<T>(callback: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return await db.transaction(callback);
+}
+
 export { pool, db };
\ No newline at end of file
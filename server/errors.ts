@@ -0,0 +1,60 @@
+// Errors that API clients need to tell apart. The global error handler in index.ts returns
+// `status`, and adds `code` and `details` to the JSON body.
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export interface LimitBreach {
+  limit: string; // e.g. dailyDebitLimit
+  scope: 'partner' | 'tier' | 'wallet';
+  walletId: string;
+  currency: string;
+  limitAmount: string;
+  used: string; // Usage before this transaction (balance for maxBalance)
+  remaining: string;
+  attempted: string;
+}
+
+export class LimitExceededError extends ApiError {
+  constructor(breach: LimitBreach) {
+    super(
+      `Wallet limit exceeded: ${breach.limit} (${breach.scope}) allows ${breach.remaining} ${breach.currency} more`,
+      422,
+      'LIMIT_EXCEEDED',
+      { ...breach }
+    );
+  }
+}
+
+export class WalletNotActiveError extends ApiError {
+  constructor(walletId: string, status: string) {
+    super(`Wallet ${walletId} is ${status}; only active wallets can move money`, 409, 'WALLET_NOT_ACTIVE', { walletId, status });
+  }
+}
+
+export class ApprovalRequiredError extends ApiError {
+  constructor(walletId: string, message: string, details: Record<string, unknown> = {}) {
+    super(message, 409, 'APPROVAL_REQUIRED', { walletId, ...details });
+  }
+}
+
+// A retried request's idempotency key already belongs to a different request
+export class IdempotencyKeyReusedError extends ApiError {
+  constructor(details: Record<string, unknown> = {}) {
+    super('Idempotency key was already used for a different request', 409, 'IDEMPOTENCY_KEY_REUSED', details);
+  }
+}
+
+// Postgres unique_violation, e.g. a concurrent request inserting the same idempotency key first
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && (error as Error & { code?: string }).code === '23505';
+}
@@ -4,6 +4,8 @@ import helmet from "helmet";
 import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { ensureLedgerImmutability } from "./infrastructure/ledger-immutability";
+import { ApiError } from "./errors";
 
 const app = express();
 app.use(helmet());
@@ -45,12 +47,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await ensureLedgerImmutability();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
+    if (err instanceof ApiError) {
+      res.status(status).json({ message, code: err.code, ...(err.details ? { details: err.details } : {}) });
+      return;
+    }
+
     res.status(status).json({ message });
     throw err;
   });
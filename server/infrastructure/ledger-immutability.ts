@@ -0,0 +1,72 @@
+import { sql } from "drizzle-orm";
+import { withTransaction, type DbExecutor } from "../db";
+import { ledgerRepository, computeLedgerEntryHash } from "../repositories/ledger-repository";
+
+// drizzle-kit push only manages tables, so the append-only guard on ledger_entries is
+// installed here on startup. Every statement is idempotent.
+const IMMUTABLE_FUNCTION_SQL = `
+CREATE OR REPLACE FUNCTION ledger_entries_reject_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_entries is append-only: % is not allowed', TG_OP
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+`;
+
+const CREATE_TRIGGERS_SQL = `
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'ledger_entries_no_update_delete') THEN
+    CREATE TRIGGER ledger_entries_no_update_delete
+      BEFORE UPDATE OR DELETE ON ledger_entries
+      FOR EACH ROW EXECUTE FUNCTION ledger_entries_reject_change();
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'ledger_entries_no_truncate') THEN
+    CREATE TRIGGER ledger_entries_no_truncate
+      BEFORE TRUNCATE ON ledger_entries
+      FOR EACH STATEMENT EXECUTE FUNCTION ledger_entries_reject_change();
+  END IF;
+END;
+$$;
+`;
+
+export async function ensureLedgerImmutability(): Promise<void> {
+  await withTransaction(async (tx) => {
+    const result = await tx.execute(sql`SELECT to_regclass('ledger_entries') AS "table"`);
+    if (!result.rows?.[0]?.table) {
+      console.warn('ledger_entries does not exist yet; run db:push before starting the server');
+      return;
+    }
+
+    await tx.execute(sql.raw(IMMUTABLE_FUNCTION_SQL));
+    await backfillHashes(tx);
+    await tx.execute(sql.raw(CREATE_TRIGGERS_SQL));
+  });
+}
+
+// Chains rows written before hashing existed, in the order they were written. The trigger is
+// dropped and recreated inside this transaction, so no other session ever sees the table unprotected.
+async function backfillHashes(tx: DbExecutor): Promise<void> {
+  if ((await ledgerRepository.listUnhashed(tx)).length === 0) return;
+
+  await tx.execute(sql`DROP TRIGGER IF EXISTS ledger_entries_no_update_delete ON ledger_entries`);
+
+  // Those rows predate the sequence column too, so they are put in creation order before chaining
+  await ledgerRepository.resequenceUnhashed(tx);
+  const unhashed = await ledgerRepository.listUnhashed(tx);
+
+  const heads = new Map<string, string | null>();
+  for (const entry of unhashed) {
+    let prevHash = heads.get(entry.walletId);
+    if (prevHash === undefined) {
+      const previous = await ledgerRepository.getPreviousEntry(entry.walletId, entry.sequence, tx);
+      prevHash = previous?.hash ?? null;
+    }
+
+    const hash = computeLedgerEntryHash(entry, prevHash);
+    await ledgerRepository.setHash(entry.id, prevHash, hash, tx);
+    heads.set(entry.walletId, hash);
+  }
+
+  console.log(`Backfilled hashes for ${unhashed.length} ledger entries`);
+}
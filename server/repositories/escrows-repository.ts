@@ -0,0 +1,63 @@
+import { db, type DbExecutor } from "../db";
+import { escrows } from "@shared/schema";
+import type { Escrow, InsertEscrow } from "@shared/schema";
+import { eq, and, desc, inArray, lte } from "drizzle-orm";
+
+export class EscrowsRepository {
+  async create(data: InsertEscrow, executor: DbExecutor = db): Promise<Escrow> {
+    const [escrow] = await executor.insert(escrows).values(data).returning();
+    return escrow;
+  }
+
+  async getById(id: string, executor: DbExecutor = db): Promise<Escrow | undefined> {
+    const [escrow] = await executor.select().from(escrows).where(eq(escrows.id, id));
+    return escrow || undefined;
+  }
+
+  async getByIdempotencyKey(key: string): Promise<Escrow | undefined> {
+    const [escrow] = await db.select().from(escrows).where(eq(escrows.idempotencyKey, key));
+    return escrow || undefined;
+  }
+
+  async listByPartner(partnerId: string, status?: Escrow['status'], limit: number = 50, offset: number = 0): Promise<Escrow[]> {
+    const conditions = [eq(escrows.partnerId, partnerId)];
+    if (status) {
+      conditions.push(eq(escrows.status, status));
+    }
+    return await db
+      .select()
+      .from(escrows)
+      .where(and(...conditions))
+      .orderBy(desc(escrows.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Funded escrows whose release deadline has passed
+  async listDueForRelease(now: Date, limit: number = 100): Promise<Escrow[]> {
+    return await db
+      .select()
+      .from(escrows)
+      .where(and(eq(escrows.status, 'funded'), lte(escrows.releaseAfter, now)))
+      .orderBy(escrows.releaseAfter)
+      .limit(limit);
+  }
+
+  // Updates the escrow only while it is still in one of the given states. Returns undefined
+  // when a concurrent change moved it on, so callers can abort.
+  async transition(
+    id: string,
+    from: Escrow['status'][],
+    data: Partial<Omit<Escrow, 'id' | 'partnerId' | 'createdAt' | 'updatedAt'>>,
+    executor: DbExecutor = db
+  ): Promise<Escrow | undefined> {
+    const [escrow] = await executor
+      .update(escrows)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(escrows.id, id), inArray(escrows.status, from)))
+      .returning();
+    return escrow || undefined;
+  }
+}
+
+export const escrowsRepository = new EscrowsRepository();
@@ -0,0 +1,51 @@
+import { db } from "../db";
+import { feeSchedules } from "@shared/schema";
+import type { FeeOperation, FeeSchedule, UpsertFeeSchedule } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+
+export class FeeSchedulesRepository {
+  async getActive(partnerId: string, operation: FeeOperation, currency: string): Promise<FeeSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(feeSchedules)
+      .where(and(
+        eq(feeSchedules.partnerId, partnerId),
+        eq(feeSchedules.operation, operation),
+        eq(feeSchedules.currency, currency),
+        eq(feeSchedules.isActive, true)
+      ));
+    return schedule || undefined;
+  }
+
+  async listByPartner(partnerId: string): Promise<FeeSchedule[]> {
+    return await db
+      .select()
+      .from(feeSchedules)
+      .where(eq(feeSchedules.partnerId, partnerId))
+      .orderBy(feeSchedules.operation, feeSchedules.currency);
+  }
+
+  async upsert(partnerId: string, data: UpsertFeeSchedule): Promise<FeeSchedule> {
+    const values = {
+      operation: data.operation,
+      currency: data.currency,
+      fixedAmount: data.fixedAmount,
+      percentage: data.percentage,
+      tiers: data.tiers ?? null,
+      minimumFee: data.minimumFee ?? null,
+      maximumFee: data.maximumFee ?? null,
+      isActive: data.isActive,
+    };
+    const [schedule] = await db
+      .insert(feeSchedules)
+      .values({ partnerId, ...values })
+      .onConflictDoUpdate({
+        target: [feeSchedules.partnerId, feeSchedules.operation, feeSchedules.currency],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return schedule;
+  }
+}
+
+export const feeSchedulesRepository = new FeeSchedulesRepository();
@@ -1,5 +1,5 @@
-import { eq, and, lt, sql } from "drizzle-orm";
-import { db } from "../db";
+import { eq, and, lt, lte, inArray, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
 import { fundingSessions, type InsertFundingSession, type FundingSession } from "@shared/schema";
 
 export class FundingSessionsRepository {
@@ -54,6 +54,36 @@ export class FundingSessionsRepository {
     return session || null;
   }
 
+  // Updates the session only while it is still in one of the given states. Returns null when a
+  // concurrent change moved it on.
+  async transition(
+    sessionId: string,
+    from: FundingSession['status'][],
+    data: Partial<Pick<FundingSession, 'status' | 'authorizedAt' | 'authorizationExpiresAt' | 'capturedAt'>>,
+    executor: DbExecutor = db
+  ): Promise<FundingSession | null> {
+    const [session] = await executor
+      .update(fundingSessions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(fundingSessions.id, sessionId), inArray(fundingSessions.status, from)))
+      .returning();
+
+    return session || null;
+  }
+
+  // Authorized manual-capture sessions whose authorization has lapsed
+  async listExpiredAuthorizations(now: Date, limit: number = 100): Promise<FundingSession[]> {
+    return await db
+      .select()
+      .from(fundingSessions)
+      .where(and(
+        eq(fundingSessions.status, 'authorized'),
+        lte(fundingSessions.authorizationExpiresAt, now)
+      ))
+      .orderBy(fundingSessions.authorizationExpiresAt)
+      .limit(limit);
+  }
+
   async listByWalletId(walletId: string): Promise<FundingSession[]> {
     return await db
       .select()
@@ -62,22 +92,21 @@ export class FundingSessionsRepository {
       .orderBy(fundingSessions.createdAt);
   }
 
-  // Helper to clean up expired sessions (could be run via cron job)
-  async markExpiredSessions(): Promise<number> {
-    const result = await db
+  // Helper to clean up expired sessions (could be run via cron job). Returns the sessions expired.
+  async markExpiredSessions(): Promise<FundingSession[]> {
+    return await db
       .update(fundingSessions)
       .set({ 
         status: 'expired' as const,
         updatedAt: new Date() 
       })
       .where(and(
-        eq(fundingSessions.status, 'created'),
+        // Paid or authorized sessions keep their status
+        inArray(fundingSessions.status, ['created', 'active', 'failed']),
         // sessions where expires_at is less than current time
         lt(fundingSessions.expiresAt, sql`NOW()`)
       ))
       .returning();
-    
-    return result.length;
   }
 }
 
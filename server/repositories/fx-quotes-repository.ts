@@ -0,0 +1,33 @@
+import { db, type DbExecutor } from "../db";
+import { fxQuotes } from "@shared/schema";
+import type { FxQuote, InsertFxQuote } from "@shared/schema";
+import { eq, and, gt } from "drizzle-orm";
+
+export class FxQuotesRepository {
+  async create(data: InsertFxQuote): Promise<FxQuote> {
+    const [quote] = await db.insert(fxQuotes).values(data).returning();
+    return quote;
+  }
+
+  async getById(id: string): Promise<FxQuote | undefined> {
+    const [quote] = await db.select().from(fxQuotes).where(eq(fxQuotes.id, id));
+    return quote || undefined;
+  }
+
+  // Consumes an active, unexpired quote. Returns undefined when another transfer already
+  // used it or its rate lock has lapsed, so callers can abort the posting.
+  async markUsed(id: string, transactionId: string, executor: DbExecutor = db): Promise<FxQuote | undefined> {
+    const [quote] = await executor
+      .update(fxQuotes)
+      .set({ status: 'used' as const, transactionId, updatedAt: new Date() })
+      .where(and(
+        eq(fxQuotes.id, id),
+        eq(fxQuotes.status, 'active'),
+        gt(fxQuotes.expiresAt, new Date())
+      ))
+      .returning();
+    return quote || undefined;
+  }
+}
+
+export const fxQuotesRepository = new FxQuotesRepository();
@@ -0,0 +1,32 @@
+import { db } from "../db";
+import { fxRates } from "@shared/schema";
+import type { FxRate, UpsertFxRate } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+
+export class FxRatesRepository {
+  async getByPair(baseCurrency: string, quoteCurrency: string): Promise<FxRate | undefined> {
+    const [rate] = await db
+      .select()
+      .from(fxRates)
+      .where(and(eq(fxRates.baseCurrency, baseCurrency), eq(fxRates.quoteCurrency, quoteCurrency)));
+    return rate || undefined;
+  }
+
+  async list(): Promise<FxRate[]> {
+    return await db.select().from(fxRates).orderBy(fxRates.baseCurrency, fxRates.quoteCurrency);
+  }
+
+  async upsert(data: UpsertFxRate): Promise<FxRate> {
+    const [rate] = await db
+      .insert(fxRates)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [fxRates.baseCurrency, fxRates.quoteCurrency],
+        set: { rate: data.rate, source: data.source, updatedAt: new Date() },
+      })
+      .returning();
+    return rate;
+  }
+}
+
+export const fxRatesRepository = new FxRatesRepository();
@@ -0,0 +1,97 @@
+import { db, type DbExecutor } from "../db";
+import { gatewayEvents } from "@shared/schema";
+import type { GatewayEvent, InsertGatewayEvent } from "@shared/schema";
+import { eq, and, or, lt, isNull, desc, inArray, sql } from "drizzle-orm";
+
+export class GatewayEventsRepository {
+  // Stores the event unless it was seen before; either way returns the stored row
+  async record(data: InsertGatewayEvent): Promise<{ event: GatewayEvent; duplicate: boolean }> {
+    const [inserted] = await db
+      .insert(gatewayEvents)
+      .values(data)
+      .onConflictDoNothing({ target: [gatewayEvents.gateway, gatewayEvents.eventId] })
+      .returning();
+    if (inserted) {
+      return { event: inserted, duplicate: false };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(gatewayEvents)
+      .where(and(eq(gatewayEvents.gateway, data.gateway), eq(gatewayEvents.eventId, data.eventId)));
+    return { event: existing, duplicate: true };
+  }
+
+  async getById(id: string, executor: DbExecutor = db): Promise<GatewayEvent | undefined> {
+    const [event] = await executor.select().from(gatewayEvents).where(eq(gatewayEvents.id, id));
+    return event || undefined;
+  }
+
+  async list(
+    filters: { gateway?: GatewayEvent['gateway']; status?: GatewayEvent['status']; type?: string } = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<GatewayEvent[]> {
+    const conditions = [];
+    if (filters.gateway) {
+      conditions.push(eq(gatewayEvents.gateway, filters.gateway));
+    }
+    if (filters.status) {
+      conditions.push(eq(gatewayEvents.status, filters.status));
+    }
+    if (filters.type) {
+      conditions.push(eq(gatewayEvents.type, filters.type));
+    }
+    return await db
+      .select()
+      .from(gatewayEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(gatewayEvents.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Claims the event for an attempt: one that is received or failed, or one whose previous attempt
+  // was claimed before staleBefore and never finished (the worker died). Returns undefined when
+  // another attempt holds it or it was processed.
+  async claim(id: string, staleBefore: Date, executor: DbExecutor = db): Promise<GatewayEvent | undefined> {
+    const [event] = await executor
+      .update(gatewayEvents)
+      .set({
+        status: 'processing',
+        attempts: sql`${gatewayEvents.attempts} + 1`,
+        processingStartedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(gatewayEvents.id, id),
+        or(
+          inArray(gatewayEvents.status, ['received', 'failed']),
+          and(
+            eq(gatewayEvents.status, 'processing'),
+            or(isNull(gatewayEvents.processingStartedAt), lt(gatewayEvents.processingStartedAt, staleBefore))
+          )
+        )
+      ))
+      .returning();
+    return event || undefined;
+  }
+
+  // Updates the event only while it is still in one of the given states. Returns undefined
+  // when a concurrent change moved it on, so callers can abort.
+  async transition(
+    id: string,
+    from: GatewayEvent['status'][],
+    data: Partial<Pick<GatewayEvent, 'status' | 'attempts' | 'lastError' | 'processedAt'>>,
+    executor: DbExecutor = db
+  ): Promise<GatewayEvent | undefined> {
+    const [event] = await executor
+      .update(gatewayEvents)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(gatewayEvents.id, id), inArray(gatewayEvents.status, from)))
+      .returning();
+    return event || undefined;
+  }
+}
+
+export const gatewayEventsRepository = new GatewayEventsRepository();
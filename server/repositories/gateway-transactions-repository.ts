@@ -1,5 +1,6 @@
 import { db } from "../db";
 import { gatewayTransactions } from "@shared/schema";
+import { eq, and, isNotNull } from "drizzle-orm";
 import type { GatewayTransaction } from "@shared/schema";
 
 export class GatewayTransactionsRepository {
@@ -16,6 +17,20 @@ export class GatewayTransactionsRepository {
     const [gt] = await db.insert(gatewayTransactions).values(gatewayTx as any).returning();
     return gt;
   }
+
+  // The completed record of a gateway payment that credited one of our transactions
+  async getCompletedPayment(gatewayTransactionId: string): Promise<GatewayTransaction | undefined> {
+    const [gt] = await db
+      .select()
+      .from(gatewayTransactions)
+      .where(and(
+        eq(gatewayTransactions.gatewayTransactionId, gatewayTransactionId),
+        eq(gatewayTransactions.status, 'completed'),
+        isNotNull(gatewayTransactions.transactionId)
+      ))
+      .limit(1);
+    return gt || undefined;
+  }
 }
 
 export const gatewayTransactionsRepository = new GatewayTransactionsRepository();
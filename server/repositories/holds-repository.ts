@@ -0,0 +1,82 @@
+import { db, type DbExecutor } from "../db";
+import { walletHolds } from "@shared/schema";
+import type { WalletHold, InsertWalletHold } from "@shared/schema";
+import { type Money, parseMoney } from "@shared/money";
+import { eq, and, or, ne, gt, lt, isNull, desc, sql } from "drizzle-orm";
+
+export class HoldsRepository {
+  async create(data: InsertWalletHold, executor: DbExecutor = db): Promise<WalletHold> {
+    const [hold] = await executor.insert(walletHolds).values(data).returning();
+    return hold;
+  }
+
+  async getById(id: string, executor: DbExecutor = db): Promise<WalletHold | undefined> {
+    const [hold] = await executor.select().from(walletHolds).where(eq(walletHolds.id, id));
+    return hold || undefined;
+  }
+
+  async getByIdempotencyKey(key: string): Promise<WalletHold | undefined> {
+    const [hold] = await db.select().from(walletHolds).where(eq(walletHolds.idempotencyKey, key));
+    return hold || undefined;
+  }
+
+  async listByWallet(walletId: string, limit: number = 50, offset: number = 0): Promise<WalletHold[]> {
+    return await db
+      .select()
+      .from(walletHolds)
+      .where(eq(walletHolds.walletId, walletId))
+      .orderBy(desc(walletHolds.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Total still reserved by active, unexpired holds. Holds past expiresAt stop counting
+  // immediately, even before markExpiredHolds flips their status.
+  async sumActiveByWallet(walletId: string, currency: string, executor: DbExecutor = db, excludeHoldId?: string): Promise<Money> {
+    const conditions = [
+      eq(walletHolds.walletId, walletId),
+      eq(walletHolds.status, 'active'),
+      or(isNull(walletHolds.expiresAt), gt(walletHolds.expiresAt, sql`NOW()`)),
+    ];
+    if (excludeHoldId) {
+      conditions.push(ne(walletHolds.id, excludeHoldId));
+    }
+
+    const [result] = await executor
+      .select({
+        held: sql<string>`COALESCE(SUM(${walletHolds.amount} - ${walletHolds.capturedAmount}), 0)`,
+      })
+      .from(walletHolds)
+      .where(and(...conditions));
+
+    return parseMoney(result?.held || '0', currency);
+  }
+
+  async update(id: string, data: Partial<Pick<WalletHold, 'capturedAmount' | 'status'>>, executor: DbExecutor = db): Promise<WalletHold> {
+    const [hold] = await executor
+      .update(walletHolds)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(walletHolds.id, id))
+      .returning();
+    return hold;
+  }
+
+  // Helper to flag lapsed holds (could be run via cron job)
+  async markExpiredHolds(): Promise<number> {
+    const result = await db
+      .update(walletHolds)
+      .set({
+        status: 'expired' as const,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(walletHolds.status, 'active'),
+        lt(walletHolds.expiresAt, sql`NOW()`)
+      ))
+      .returning();
+
+    return result.length;
+  }
+}
+
+export const holdsRepository = new HoldsRepository();
@@ -6,5 +6,16 @@ export { transactionsRepository } from './transactions-repository';
 export { ledgerRepository } from './ledger-repository';
 export { gatewayTransactionsRepository } from './gateway-transactions-repository';
 export { fundingSessionsRepository } from './funding-sessions-repository';
+export { fxRatesRepository } from './fx-rates-repository';
+export { fxQuotesRepository } from './fx-quotes-repository';
+export { holdsRepository } from './holds-repository';
+export { feeSchedulesRepository } from './fee-schedules-repository';
+export { walletLimitsRepository } from './wallet-limits-repository';
+export { escrowsRepository } from './escrows-repository';
+export { roscaRepository } from './rosca-repository';
 
 
+export { walletApprovalsRepository } from './wallet-approvals-repository';
+export { payoutsRepository } from './payouts-repository';
+export { refundsRepository } from './refunds-repository';
+export { gatewayEventsRepository } from './gateway-events-repository';
@@ -1,39 +1,82 @@
-import { db } from "../db";
+import { db, type DbExecutor } from "../db";
 import { ledgerEntries } from "@shared/schema";
 import type { LedgerEntry } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { type Money, parseMoney, formatMoney, addMoney, subtractMoney } from "@shared/money";
+import { eq, desc, and, gt, gte, lt, lte, sql, isNull } from "drizzle-orm";
+import { createHash, randomUUID } from "crypto";
+
+type HashedFields = Pick<LedgerEntry, 'id' | 'transactionId' | 'walletId' | 'type' | 'amount' | 'currency' | 'balance' | 'description' | 'createdAt'>;
+
+// "10.500" and "10.5" are the same amount; the decimal column pads to its scale on read
+function canonicalDecimal(value: string): string {
+  return value.includes('.') ? value.replace(/\.?0+$/, '') : value;
+}
+
+/**
+ * Hash of a ledger row chained to its predecessor in the same wallet. Amounts are normalized
+ * so the value read back from the decimal column hashes the same as the one written.
+ */
+export function computeLedgerEntryHash(entry: HashedFields, prevHash: string | null): string {
+  const canonical = JSON.stringify([
+    entry.id,
+    entry.transactionId,
+    entry.walletId,
+    entry.type,
+    canonicalDecimal(entry.amount),
+    entry.currency,
+    canonicalDecimal(entry.balance),
+    entry.description ?? null,
+    entry.createdAt.toISOString(),
+    prevHash,
+  ]);
+  return createHash('sha256').update(canonical).digest('hex');
+}
 
 export class LedgerRepository {
+  // Callers must hold the wallet's row lock (WalletsRepository.lockForUpdate) so the
+  // latest balance cannot move between the read and the insert below.
   async create(entry: {
     transactionId: string;
     walletId: string;
     type: 'debit' | 'credit';
-    amount: string;
-    currency: string;
+    amount: Money;
     description?: string;
-  }): Promise<LedgerEntry> {
-    // Get the current balance for this wallet
-    const [currentEntry] = await db
-      .select({ balance: ledgerEntries.balance })
+  }, executor: DbExecutor = db): Promise<LedgerEntry> {
+    // Get the current balance and chain head for this wallet
+    const [currentEntry] = await executor
+      .select({ balance: ledgerEntries.balance, hash: ledgerEntries.hash, createdAt: ledgerEntries.createdAt })
       .from(ledgerEntries)
       .where(eq(ledgerEntries.walletId, entry.walletId))
-      .orderBy(desc(ledgerEntries.createdAt))
+      .orderBy(desc(ledgerEntries.sequence))
       .limit(1);
 
-    // Calculate new balance using precise decimal arithmetic
-    const currentBalance = parseFloat(currentEntry?.balance || '0.00');
-    const entryAmount = parseFloat(entry.amount);
+    // Calculate new balance in integer minor units
+    const currentBalance = parseMoney(currentEntry?.balance || '0', entry.amount.currency);
     const newBalance = entry.type === 'credit' 
-      ? currentBalance + entryAmount
-      : currentBalance - entryAmount;
+      ? addMoney(currentBalance, entry.amount)
+      : subtractMoney(currentBalance, entry.amount);
+
+    // id and createdAt are set here rather than by column defaults because they are hashed.
+    // A clock behind the previous entry's (another host, a step back) is held at that entry's
+    // time, so a wallet's timestamps never run against its sequence.
+    const now = new Date();
+    const row = {
+      id: randomUUID(),
+      transactionId: entry.transactionId,
+      walletId: entry.walletId,
+      type: entry.type,
+      amount: formatMoney(entry.amount),
+      currency: entry.amount.currency,
+      balance: formatMoney(newBalance),
+      description: entry.description ?? null,
+      createdAt: currentEntry && currentEntry.createdAt > now ? currentEntry.createdAt : now,
+    };
+    const prevHash = currentEntry?.hash ?? null;
 
     // Create the ledger entry with calculated balance
-    const [e] = await db
+    const [e] = await executor
       .insert(ledgerEntries)
-      .values({
-        ...entry,
-        balance: newBalance.toFixed(2)
-      })
+      .values({ ...row, prevHash, hash: computeLedgerEntryHash(row, prevHash) })
       .returning();
     return e;
   }
@@ -43,17 +86,124 @@ export class LedgerRepository {
       .select()
       .from(ledgerEntries)
       .where(eq(ledgerEntries.walletId, walletId))
-      .orderBy(desc(ledgerEntries.createdAt))
+      .orderBy(desc(ledgerEntries.sequence))
       .limit(limit)
       .offset(offset);
   }
 
+  // Last entry posted at or before `at` (strictly before when inclusive is false), by posting
+  // time with sequence breaking ties; its running balance is the wallet balance at that instant
+  async getLatestEntryAsOf(walletId: string, at: Date, inclusive: boolean = true): Promise<LedgerEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.walletId, walletId),
+        inclusive ? lte(ledgerEntries.createdAt, at) : lt(ledgerEntries.createdAt, at)
+      ))
+      .orderBy(desc(ledgerEntries.createdAt), desc(ledgerEntries.sequence))
+      .limit(1);
+    return entry || undefined;
+  }
+
+  // Oldest-first entries posted within [from, to], for statements
+  async listByWalletBetween(walletId: string, from: Date, to: Date): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.walletId, walletId),
+        gte(ledgerEntries.createdAt, from),
+        lte(ledgerEntries.createdAt, to)
+      ))
+      .orderBy(ledgerEntries.createdAt, ledgerEntries.sequence);
+  }
+
+  // Total of a wallet's debits or credits posted since a point in time (limit usage)
+  async sumByWalletSince(walletId: string, type: 'debit' | 'credit', since: Date, executor: DbExecutor = db): Promise<string> {
+    const [result] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.walletId, walletId),
+        eq(ledgerEntries.type, type),
+        gte(ledgerEntries.createdAt, since)
+      ));
+    return result?.total || '0';
+  }
+
+  // Oldest-first page of a wallet's entries, for replaying running balances
+  async listByWalletAfterSequence(walletId: string, afterSequence: number, limit: number = 1000): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(and(eq(ledgerEntries.walletId, walletId), gt(ledgerEntries.sequence, afterSequence)))
+      .orderBy(ledgerEntries.sequence)
+      .limit(limit);
+  }
+
+  // Transactions whose legs do not net to zero in some currency (debits positive)
+  async findUnbalancedTransactions(): Promise<Array<{ transactionId: string; currency: string; net: string }>> {
+    const net = sql<string>`SUM(CASE WHEN ${ledgerEntries.type} = 'debit' THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END)`;
+    return await db
+      .select({
+        transactionId: ledgerEntries.transactionId,
+        currency: ledgerEntries.currency,
+        net,
+      })
+      .from(ledgerEntries)
+      .groupBy(ledgerEntries.transactionId, ledgerEntries.currency)
+      .having(sql`${net} <> 0`);
+  }
+
+  // Rows written before hashing was introduced, oldest first
+  async listUnhashed(executor: DbExecutor = db): Promise<LedgerEntry[]> {
+    return await executor
+      .select()
+      .from(ledgerEntries)
+      .where(isNull(ledgerEntries.hash))
+      .orderBy(ledgerEntries.sequence);
+  }
+
+  // Backfill only, like setHash. Adding the sequence column numbered existing rows in physical
+  // order; the unhashed rows are renumbered in (created_at, id) order, reusing the same numbers.
+  async resequenceUnhashed(executor: DbExecutor): Promise<void> {
+    await executor.execute(sql`
+      WITH by_creation AS (
+        SELECT id, row_number() OVER (ORDER BY created_at, id) AS position FROM ledger_entries WHERE hash IS NULL
+      ), slots AS (
+        SELECT sequence, row_number() OVER (ORDER BY sequence) AS position FROM ledger_entries WHERE hash IS NULL
+      )
+      UPDATE ledger_entries SET sequence = slots.sequence
+      FROM by_creation JOIN slots ON slots.position = by_creation.position
+      WHERE ledger_entries.id = by_creation.id AND ledger_entries.sequence <> slots.sequence
+    `);
+  }
+
+  // Backfill only: the immutability trigger rejects this unless it has been dropped in the same transaction
+  async setHash(id: string, prevHash: string | null, hash: string, executor: DbExecutor): Promise<void> {
+    await executor
+      .update(ledgerEntries)
+      .set({ prevHash, hash })
+      .where(eq(ledgerEntries.id, id));
+  }
+
+  async getPreviousEntry(walletId: string, sequence: number, executor: DbExecutor = db): Promise<LedgerEntry | undefined> {
+    const [entry] = await executor
+      .select()
+      .from(ledgerEntries)
+      .where(and(eq(ledgerEntries.walletId, walletId), lt(ledgerEntries.sequence, sequence)))
+      .orderBy(desc(ledgerEntries.sequence))
+      .limit(1);
+    return entry || undefined;
+  }
+
   async listByTransaction(transactionId: string): Promise<LedgerEntry[]> {
     return await db
       .select()
       .from(ledgerEntries)
       .where(eq(ledgerEntries.transactionId, transactionId))
-      .orderBy(ledgerEntries.createdAt);
+      .orderBy(ledgerEntries.sequence);
   }
 }
 
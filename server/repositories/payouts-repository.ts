@@ -0,0 +1,70 @@
+import { db, type DbExecutor } from "../db";
+import { payouts } from "@shared/schema";
+import type { InsertPayoutRecord, PayoutRecord } from "@shared/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
+
+export class PayoutsRepository {
+  async create(data: InsertPayoutRecord, executor: DbExecutor = db): Promise<PayoutRecord | undefined> {
+    // A concurrent request with the same idempotency key inserted it first
+    const [payout] = await executor.insert(payouts).values(data).onConflictDoNothing({ target: payouts.idempotencyKey }).returning();
+    return payout || undefined;
+  }
+
+  async getById(id: string, executor: DbExecutor = db): Promise<PayoutRecord | undefined> {
+    const [payout] = await executor.select().from(payouts).where(eq(payouts.id, id));
+    return payout || undefined;
+  }
+
+  async getByIdempotencyKey(key: string): Promise<PayoutRecord | undefined> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.idempotencyKey, key));
+    return payout || undefined;
+  }
+
+  async getByGatewayPayoutId(gateway: PayoutRecord['gateway'], gatewayPayoutId: string): Promise<PayoutRecord | undefined> {
+    const [payout] = await db
+      .select()
+      .from(payouts)
+      .where(and(eq(payouts.gateway, gateway), eq(payouts.gatewayPayoutId, gatewayPayoutId)));
+    return payout || undefined;
+  }
+
+  async listByPartner(
+    partnerId: string,
+    filters: { walletId?: string; status?: PayoutRecord['status'] } = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<PayoutRecord[]> {
+    const conditions = [eq(payouts.partnerId, partnerId)];
+    if (filters.walletId) {
+      conditions.push(eq(payouts.walletId, filters.walletId));
+    }
+    if (filters.status) {
+      conditions.push(eq(payouts.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(payouts)
+      .where(and(...conditions))
+      .orderBy(desc(payouts.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Updates the payout only while it is still in one of the given states. Returns undefined
+  // when a concurrent change moved it on, so callers can abort.
+  async transition(
+    id: string,
+    from: PayoutRecord['status'][],
+    data: Partial<Omit<PayoutRecord, 'id' | 'partnerId' | 'createdAt' | 'updatedAt'>>,
+    executor: DbExecutor = db
+  ): Promise<PayoutRecord | undefined> {
+    const [payout] = await executor
+      .update(payouts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(payouts.id, id), inArray(payouts.status, from)))
+      .returning();
+    return payout || undefined;
+  }
+}
+
+export const payoutsRepository = new PayoutsRepository();
@@ -0,0 +1,77 @@
+import { db, type DbExecutor } from "../db";
+import { refunds } from "@shared/schema";
+import type { InsertRefund, Refund } from "@shared/schema";
+import { eq, and, desc, inArray, ne } from "drizzle-orm";
+
+export class RefundsRepository {
+  async create(data: InsertRefund, executor: DbExecutor = db): Promise<Refund> {
+    const [refund] = await executor.insert(refunds).values(data).returning();
+    return refund;
+  }
+
+  async getById(id: string, executor: DbExecutor = db): Promise<Refund | undefined> {
+    const [refund] = await executor.select().from(refunds).where(eq(refunds.id, id));
+    return refund || undefined;
+  }
+
+  async getByIdempotencyKey(key: string): Promise<Refund | undefined> {
+    const [refund] = await db.select().from(refunds).where(eq(refunds.idempotencyKey, key));
+    return refund || undefined;
+  }
+
+  async getByGatewayRefundId(gateway: Refund['gateway'], gatewayRefundId: string): Promise<Refund | undefined> {
+    const [refund] = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.gateway, gateway), eq(refunds.gatewayRefundId, gatewayRefundId)));
+    return refund || undefined;
+  }
+
+  // Refunds of a payment that still count against what it captured
+  async listActiveForPayment(gateway: Refund['gateway'], paymentId: string, executor: DbExecutor = db): Promise<Refund[]> {
+    return await executor
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.gateway, gateway), eq(refunds.paymentId, paymentId), ne(refunds.status, 'failed')));
+  }
+
+  async listByPartner(
+    partnerId: string,
+    filters: { walletId?: string; status?: Refund['status'] } = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<Refund[]> {
+    const conditions = [eq(refunds.partnerId, partnerId)];
+    if (filters.walletId) {
+      conditions.push(eq(refunds.walletId, filters.walletId));
+    }
+    if (filters.status) {
+      conditions.push(eq(refunds.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(refunds)
+      .where(and(...conditions))
+      .orderBy(desc(refunds.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Updates the refund only while it is still in one of the given states. Returns undefined
+  // when a concurrent change moved it on, so callers can abort.
+  async transition(
+    id: string,
+    from: Refund['status'][],
+    data: Partial<Omit<Refund, 'id' | 'partnerId' | 'createdAt' | 'updatedAt'>>,
+    executor: DbExecutor = db
+  ): Promise<Refund | undefined> {
+    const [refund] = await executor
+      .update(refunds)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(refunds.id, id), inArray(refunds.status, from)))
+      .returning();
+    return refund || undefined;
+  }
+}
+
+export const refundsRepository = new RefundsRepository();
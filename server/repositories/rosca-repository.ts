@@ -0,0 +1,164 @@
+import { db, type DbExecutor } from "../db";
+import { roscaGroups, roscaMembers, roscaRounds, roscaContributions, roscaPenalties } from "@shared/schema";
+import type { RoscaGroup, RoscaMember, RoscaRound, RoscaContribution, RoscaPenalty } from "@shared/schema";
+import { eq, and, desc, asc, sql } from "drizzle-orm";
+
+// A ROSCA group with its members, rounds and contributions is read and written as one unit
+export class RoscaRepository {
+  async createGroup(data: typeof roscaGroups.$inferInsert, executor: DbExecutor = db): Promise<RoscaGroup> {
+    const [group] = await executor.insert(roscaGroups).values(data).returning();
+    return group;
+  }
+
+  async getGroup(id: string, executor: DbExecutor = db): Promise<RoscaGroup | undefined> {
+    const [group] = await executor.select().from(roscaGroups).where(eq(roscaGroups.id, id));
+    return group || undefined;
+  }
+
+  async getGroupByIdempotencyKey(key: string): Promise<RoscaGroup | undefined> {
+    const [group] = await db.select().from(roscaGroups).where(eq(roscaGroups.idempotencyKey, key));
+    return group || undefined;
+  }
+
+  async listGroupsByPartner(partnerId: string, limit: number = 50, offset: number = 0): Promise<RoscaGroup[]> {
+    return await db
+      .select()
+      .from(roscaGroups)
+      .where(eq(roscaGroups.partnerId, partnerId))
+      .orderBy(desc(roscaGroups.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Locks the group row so payouts and other group-wide changes run one at a time
+  async lockGroup(id: string, executor: DbExecutor): Promise<RoscaGroup | undefined> {
+    const [group] = await executor.select().from(roscaGroups).where(eq(roscaGroups.id, id)).for('update');
+    return group || undefined;
+  }
+
+  async updateGroup(
+    id: string,
+    data: Partial<Pick<RoscaGroup, 'status' | 'currentRound' | 'gracePeriodDays' | 'lateFeeAmount' | 'missedPaymentRule'>>,
+    executor: DbExecutor = db
+  ): Promise<RoscaGroup> {
+    const [group] = await executor
+      .update(roscaGroups)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(roscaGroups.id, id))
+      .returning();
+    return group;
+  }
+
+  async createMembers(data: Array<typeof roscaMembers.$inferInsert>, executor: DbExecutor = db): Promise<RoscaMember[]> {
+    return await executor.insert(roscaMembers).values(data).returning();
+  }
+
+  async listMembers(groupId: string, executor: DbExecutor = db): Promise<RoscaMember[]> {
+    return await executor.select().from(roscaMembers).where(eq(roscaMembers.groupId, groupId)).orderBy(asc(roscaMembers.position));
+  }
+
+  async createRounds(data: Array<typeof roscaRounds.$inferInsert>, executor: DbExecutor = db): Promise<RoscaRound[]> {
+    return await executor.insert(roscaRounds).values(data).returning();
+  }
+
+  async listRounds(groupId: string, executor: DbExecutor = db): Promise<RoscaRound[]> {
+    return await executor.select().from(roscaRounds).where(eq(roscaRounds.groupId, groupId)).orderBy(asc(roscaRounds.roundNumber));
+  }
+
+  async getRound(groupId: string, roundNumber: number, executor: DbExecutor = db): Promise<RoscaRound | undefined> {
+    const [round] = await executor
+      .select()
+      .from(roscaRounds)
+      .where(and(eq(roscaRounds.groupId, groupId), eq(roscaRounds.roundNumber, roundNumber)));
+    return round || undefined;
+  }
+
+  async updateRound(
+    id: string,
+    data: Partial<Pick<RoscaRound, 'status' | 'recipientMemberId' | 'receivedAmount' | 'payoutTransactionId' | 'paidOutAt'>>,
+    executor: DbExecutor = db
+  ): Promise<RoscaRound> {
+    const [round] = await executor
+      .update(roscaRounds)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(roscaRounds.id, id))
+      .returning();
+    return round;
+  }
+
+  // Open rounds of active groups whose due date plus the group's grace period has passed
+  async listOverdueRounds(now: Date, groupId?: string): Promise<RoscaRound[]> {
+    const rows = await db
+      .select({ round: roscaRounds })
+      .from(roscaRounds)
+      .innerJoin(roscaGroups, eq(roscaRounds.groupId, roscaGroups.id))
+      .where(and(
+        eq(roscaRounds.status, 'open'),
+        eq(roscaGroups.status, 'active'),
+        sql`${roscaRounds.dueDate} + make_interval(days => ${roscaGroups.gracePeriodDays}) < ${now}`,
+        groupId ? eq(roscaRounds.groupId, groupId) : undefined
+      ))
+      .orderBy(asc(roscaRounds.dueDate));
+    return rows.map((row: { round: RoscaRound }) => row.round);
+  }
+
+  async createContribution(data: typeof roscaContributions.$inferInsert, executor: DbExecutor = db): Promise<RoscaContribution> {
+    const [contribution] = await executor.insert(roscaContributions).values(data).returning();
+    return contribution;
+  }
+
+  async listContributions(roundId: string, executor: DbExecutor = db): Promise<RoscaContribution[]> {
+    return await executor
+      .select()
+      .from(roscaContributions)
+      .where(eq(roscaContributions.roundId, roundId))
+      .orderBy(asc(roscaContributions.createdAt));
+  }
+
+  async listGroupContributions(groupId: string): Promise<RoscaContribution[]> {
+    return await db
+      .select()
+      .from(roscaContributions)
+      .where(eq(roscaContributions.groupId, groupId))
+      .orderBy(asc(roscaContributions.createdAt));
+  }
+
+  // Returns undefined when the member already has a penalty of this type for the round
+  async createPenalty(data: typeof roscaPenalties.$inferInsert, executor: DbExecutor = db): Promise<RoscaPenalty | undefined> {
+    const [penalty] = await executor.insert(roscaPenalties).values(data).onConflictDoNothing().returning();
+    return penalty || undefined;
+  }
+
+  async getPenalty(roundId: string, memberId: string, type: RoscaPenalty['type'], executor: DbExecutor = db): Promise<RoscaPenalty | undefined> {
+    const [penalty] = await executor
+      .select()
+      .from(roscaPenalties)
+      .where(and(eq(roscaPenalties.roundId, roundId), eq(roscaPenalties.memberId, memberId), eq(roscaPenalties.type, type)));
+    return penalty || undefined;
+  }
+
+  async listPenalties(groupId: string, executor: DbExecutor = db): Promise<RoscaPenalty[]> {
+    return await executor
+      .select()
+      .from(roscaPenalties)
+      .where(eq(roscaPenalties.groupId, groupId))
+      .orderBy(asc(roscaPenalties.createdAt));
+  }
+
+  // Conditional on the current status, like escrow transitions; undefined if it already changed
+  async transitionPenalty(
+    id: string,
+    from: RoscaPenalty['status'],
+    data: Partial<Pick<RoscaPenalty, 'status' | 'transactionId' | 'note'>>,
+    executor: DbExecutor = db
+  ): Promise<RoscaPenalty | undefined> {
+    const [penalty] = await executor
+      .update(roscaPenalties)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(roscaPenalties.id, id), eq(roscaPenalties.status, from)))
+      .returning();
+    return penalty || undefined;
+  }
+}
+
+export const roscaRepository = new RoscaRepository();
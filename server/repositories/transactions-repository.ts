@@ -1,16 +1,16 @@
-import { db } from "../db";
-import { transactions } from "@shared/schema";
-import type { Transaction, InsertTransaction } from "@shared/schema";
-import { eq, desc, or } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { transactions, ledgerEntries } from "@shared/schema";
+import type { Transaction, InsertTransaction, FeeBreakdown, TransactionSettlement } from "@shared/schema";
+import { eq, desc, or, and, gte, isNull, inArray, sql } from "drizzle-orm";
 
 export class TransactionsRepository {
-  async create(data: InsertTransaction): Promise<Transaction> {
-    const [tx] = await db.insert(transactions).values(data).returning();
+  async create(data: InsertTransaction & { status?: Transaction['status']; reversedTransactionId?: string; fee?: FeeBreakdown; settlement?: TransactionSettlement }, executor: DbExecutor = db): Promise<Transaction> {
+    const [tx] = await executor.insert(transactions).values(data).returning();
     return tx;
   }
 
-  async getById(id: string): Promise<Transaction | undefined> {
-    const [tx] = await db.select().from(transactions).where(eq(transactions.id, id));
+  async getById(id: string, executor: DbExecutor = db): Promise<Transaction | undefined> {
+    const [tx] = await executor.select().from(transactions).where(eq(transactions.id, id));
     return tx || undefined;
   }
 
@@ -18,7 +18,18 @@ export class TransactionsRepository {
     return await db
       .select()
       .from(transactions)
-      .where(or(eq(transactions.fromWalletId, walletId), eq(transactions.toWalletId, walletId)))
+      .where(or(
+        eq(transactions.fromWalletId, walletId),
+        eq(transactions.toWalletId, walletId),
+        // Split transactions may only reference the wallet through a ledger leg
+        and(
+          eq(transactions.type, 'split'),
+          inArray(
+            transactions.id,
+            db.select({ id: ledgerEntries.transactionId }).from(ledgerEntries).where(eq(ledgerEntries.walletId, walletId))
+          )
+        )
+      ))
       .orderBy(desc(transactions.createdAt))
       .limit(limit)
       .offset(offset);
@@ -33,8 +44,52 @@ export class TransactionsRepository {
     return tx;
   }
 
-  async getByIdempotencyKey(key: string): Promise<Transaction | undefined> {
-    const [tx] = await db.select().from(transactions).where(eq(transactions.idempotencyKey, key));
+  async update(id: string, data: Partial<Pick<Transaction, 'status' | 'settlement' | 'gatewayTransactionId'>>, executor: DbExecutor = db): Promise<Transaction> {
+    const [tx] = await executor
+      .update(transactions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(transactions.id, id))
+      .returning();
+    return tx;
+  }
+
+  async listReversals(transactionId: string, executor: DbExecutor = db): Promise<Transaction[]> {
+    return await executor
+      .select()
+      .from(transactions)
+      .where(eq(transactions.reversedTransactionId, transactionId))
+      .orderBy(transactions.createdAt);
+  }
+
+  async listWithoutLedgerEntries(status: Transaction['status']): Promise<Transaction[]> {
+    const rows = await db
+      .select({ transaction: transactions })
+      .from(transactions)
+      .leftJoin(ledgerEntries, eq(ledgerEntries.transactionId, transactions.id))
+      .where(and(eq(transactions.status, status), isNull(ledgerEntries.id)))
+      .orderBy(transactions.createdAt);
+    return rows.map((row: { transaction: Transaction }) => row.transaction);
+  }
+
+  // Total a wallet's pending transactions created since a point in time will debit (fee included)
+  // or credit once settled (limit usage)
+  async sumPendingByWalletSince(walletId: string, type: 'debit' | 'credit', since: Date, executor: DbExecutor = db): Promise<string> {
+    const amount = type === 'debit'
+      ? sql`${transactions.amount} + CASE WHEN ${transactions.fee}->>'chargedWalletId' = ${walletId} THEN (${transactions.fee}->>'amount')::numeric ELSE 0 END`
+      : sql`${transactions.amount}`;
+    const [result] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${amount}), 0)` })
+      .from(transactions)
+      .where(and(
+        eq(type === 'debit' ? transactions.fromWalletId : transactions.toWalletId, walletId),
+        eq(transactions.status, 'pending'),
+        gte(transactions.createdAt, since)
+      ));
+    return result?.total || '0';
+  }
+
+  async getByIdempotencyKey(key: string, executor: DbExecutor = db): Promise<Transaction | undefined> {
+    const [tx] = await executor.select().from(transactions).where(eq(transactions.idempotencyKey, key));
     return tx || undefined;
   }
 }
@@ -0,0 +1,89 @@
+import { db, type DbExecutor } from "../db";
+import { walletApprovalPolicies, walletApprovalRequests } from "@shared/schema";
+import type { WalletApprovalPolicy, WalletApprovalRequest } from "@shared/schema";
+import { eq, and, desc, lte } from "drizzle-orm";
+
+// Approval policies of group wallets and the requests waiting on them
+export class WalletApprovalsRepository {
+  async getPolicy(walletId: string, executor: DbExecutor = db): Promise<WalletApprovalPolicy | undefined> {
+    const [policy] = await executor.select().from(walletApprovalPolicies).where(eq(walletApprovalPolicies.walletId, walletId));
+    return policy || undefined;
+  }
+
+  async upsertPolicy(data: typeof walletApprovalPolicies.$inferInsert): Promise<WalletApprovalPolicy> {
+    const [policy] = await db
+      .insert(walletApprovalPolicies)
+      .values(data)
+      .onConflictDoUpdate({
+        target: walletApprovalPolicies.walletId,
+        set: {
+          approverIds: data.approverIds,
+          requiredApprovals: data.requiredApprovals,
+          thresholdAmount: data.thresholdAmount,
+          expiresAfterMinutes: data.expiresAfterMinutes,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return policy;
+  }
+
+  async deletePolicy(walletId: string): Promise<boolean> {
+    const deleted = await db.delete(walletApprovalPolicies).where(eq(walletApprovalPolicies.walletId, walletId)).returning();
+    return deleted.length > 0;
+  }
+
+  async createRequest(data: typeof walletApprovalRequests.$inferInsert, executor: DbExecutor = db): Promise<WalletApprovalRequest> {
+    const [request] = await executor.insert(walletApprovalRequests).values(data).returning();
+    return request;
+  }
+
+  async getRequest(id: string, executor: DbExecutor = db): Promise<WalletApprovalRequest | undefined> {
+    const [request] = await executor.select().from(walletApprovalRequests).where(eq(walletApprovalRequests.id, id));
+    return request || undefined;
+  }
+
+  // Locks the request so approvals and rejections are counted one at a time
+  async lockRequest(id: string, executor: DbExecutor): Promise<WalletApprovalRequest | undefined> {
+    const [request] = await executor.select().from(walletApprovalRequests).where(eq(walletApprovalRequests.id, id)).for('update');
+    return request || undefined;
+  }
+
+  async listByWallet(walletId: string, status?: WalletApprovalRequest['status'], limit: number = 50, offset: number = 0): Promise<WalletApprovalRequest[]> {
+    const conditions = [eq(walletApprovalRequests.walletId, walletId)];
+    if (status) {
+      conditions.push(eq(walletApprovalRequests.status, status));
+    }
+    return await db
+      .select()
+      .from(walletApprovalRequests)
+      .where(and(...conditions))
+      .orderBy(desc(walletApprovalRequests.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async listExpired(now: Date, limit: number = 100): Promise<WalletApprovalRequest[]> {
+    return await db
+      .select()
+      .from(walletApprovalRequests)
+      .where(and(eq(walletApprovalRequests.status, 'pending'), lte(walletApprovalRequests.expiresAt, now)))
+      .orderBy(walletApprovalRequests.expiresAt)
+      .limit(limit);
+  }
+
+  async update(
+    id: string,
+    data: Partial<Pick<WalletApprovalRequest, 'status' | 'approvals' | 'rejections' | 'decidedAt'>>,
+    executor: DbExecutor = db
+  ): Promise<WalletApprovalRequest> {
+    const [request] = await executor
+      .update(walletApprovalRequests)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(walletApprovalRequests.id, id))
+      .returning();
+    return request;
+  }
+}
+
+export const walletApprovalsRepository = new WalletApprovalsRepository();
@@ -0,0 +1,74 @@
+import { db, type DbExecutor } from "../db";
+import { walletLimits } from "@shared/schema";
+import type { UpsertWalletLimit, WalletLimit } from "@shared/schema";
+import { eq, and, or } from "drizzle-orm";
+
+export class WalletLimitsRepository {
+  // Partner-wide, tier and wallet-specific limits that apply to one wallet
+  async listApplicable(wallet: { id: string; partnerId: string; currency: string; limitTier: string | null }, executor: DbExecutor = db): Promise<WalletLimit[]> {
+    const scopes = [
+      and(eq(walletLimits.scope, 'partner'), eq(walletLimits.partnerId, wallet.partnerId), eq(walletLimits.currency, wallet.currency)),
+      and(eq(walletLimits.scope, 'wallet'), eq(walletLimits.walletId, wallet.id)),
+    ];
+    if (wallet.limitTier) {
+      scopes.push(and(
+        eq(walletLimits.scope, 'tier'),
+        eq(walletLimits.partnerId, wallet.partnerId),
+        eq(walletLimits.tier, wallet.limitTier),
+        eq(walletLimits.currency, wallet.currency)
+      ));
+    }
+    return await executor.select().from(walletLimits).where(or(...scopes));
+  }
+
+  async listByPartner(partnerId: string): Promise<WalletLimit[]> {
+    return await db
+      .select()
+      .from(walletLimits)
+      .where(eq(walletLimits.partnerId, partnerId))
+      .orderBy(walletLimits.scope, walletLimits.currency);
+  }
+
+  async upsert(partnerId: string, data: UpsertWalletLimit): Promise<WalletLimit> {
+    const key = data.scope === 'wallet'
+      ? and(eq(walletLimits.scope, 'wallet'), eq(walletLimits.walletId, data.walletId!))
+      : data.scope === 'tier'
+        ? and(eq(walletLimits.scope, 'tier'), eq(walletLimits.partnerId, partnerId), eq(walletLimits.tier, data.tier!), eq(walletLimits.currency, data.currency))
+        : and(eq(walletLimits.scope, 'partner'), eq(walletLimits.partnerId, partnerId), eq(walletLimits.currency, data.currency));
+
+    // Fields left out of the request keep their current value; null clears them
+    const values = {
+      maxBalance: data.maxBalance,
+      maxTransactionAmount: data.maxTransactionAmount,
+      dailyDebitLimit: data.dailyDebitLimit,
+      dailyCreditLimit: data.dailyCreditLimit,
+      monthlyDebitLimit: data.monthlyDebitLimit,
+      monthlyCreditLimit: data.monthlyCreditLimit,
+    };
+
+    const [existing] = await db.select().from(walletLimits).where(key);
+    if (existing) {
+      const [limit] = await db
+        .update(walletLimits)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(walletLimits.id, existing.id))
+        .returning();
+      return limit;
+    }
+
+    const [limit] = await db
+      .insert(walletLimits)
+      .values({
+        partnerId,
+        scope: data.scope,
+        tier: data.scope === 'tier' ? data.tier : null,
+        walletId: data.scope === 'wallet' ? data.walletId : null,
+        currency: data.currency,
+        ...values,
+      })
+      .returning();
+    return limit;
+  }
+}
+
+export const walletLimitsRepository = new WalletLimitsRepository();
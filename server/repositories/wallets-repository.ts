@@ -1,7 +1,8 @@
-import { db } from "../db";
+import { db, type DbExecutor } from "../db";
 import { wallets, ledgerEntries } from "@shared/schema";
-import type { Wallet, InsertWallet } from "@shared/schema";
-import { eq, desc, and, count, isNull, isNotNull } from "drizzle-orm";
+import type { Wallet, InsertWallet, SystemAccountType } from "@shared/schema";
+import { type Money, parseMoney } from "@shared/money";
+import { eq, desc, and, count, isNull, isNotNull, inArray, asc } from "drizzle-orm";
 
 export class WalletsRepository {
   async getById(id: string): Promise<Wallet | undefined> {
@@ -9,6 +10,19 @@ export class WalletsRepository {
     return wallet || undefined;
   }
 
+  async getByIds(ids: string[], executor: DbExecutor = db): Promise<Wallet[]> {
+    if (ids.length === 0) return [];
+    return await executor.select().from(wallets).where(inArray(wallets.id, ids));
+  }
+
+  async listChildren(parentWalletId: string, executor: DbExecutor = db): Promise<Wallet[]> {
+    return await executor
+      .select()
+      .from(wallets)
+      .where(eq(wallets.parentWalletId, parentWalletId))
+      .orderBy(asc(wallets.createdAt));
+  }
+
   async listByPartnerId(partnerId: string): Promise<Wallet[]> {
     return await db.select().from(wallets).where(eq(wallets.partnerId, partnerId));
   }
@@ -25,19 +39,75 @@ export class WalletsRepository {
     return wallet || undefined;
   }
 
-  async create(insertWallet: InsertWallet): Promise<Wallet> {
-    const [wallet] = await db.insert(wallets).values(insertWallet).returning();
+  async create(insertWallet: InsertWallet, executor: DbExecutor = db): Promise<Wallet> {
+    const [wallet] = await executor.insert(wallets).values(insertWallet).returning();
+    return wallet;
+  }
+
+  async getSystemAccount(partnerId: string, type: SystemAccountType, currency: string): Promise<Wallet | undefined> {
+    const [wallet] = await db
+      .select()
+      .from(wallets)
+      .where(and(
+        eq(wallets.partnerId, partnerId),
+        eq(wallets.systemAccountType, type),
+        eq(wallets.currency, currency)
+      ));
+    return wallet || undefined;
+  }
+
+  async listSystemAccounts(partnerId: string): Promise<Wallet[]> {
+    return await db
+      .select()
+      .from(wallets)
+      .where(and(eq(wallets.partnerId, partnerId), isNotNull(wallets.systemAccountType)))
+      .orderBy(asc(wallets.systemAccountType), asc(wallets.currency));
+  }
+
+  async createSystemAccount(data: typeof wallets.$inferInsert & { systemAccountType: SystemAccountType }): Promise<Wallet> {
+    const [wallet] = await db.insert(wallets).values(data).returning();
+    return wallet;
+  }
+
+  async setSystemAccountType(id: string, type: SystemAccountType): Promise<Wallet> {
+    const [wallet] = await db
+      .update(wallets)
+      .set({ systemAccountType: type, updatedAt: new Date() })
+      .where(eq(wallets.id, id))
+      .returning();
     return wallet;
   }
 
-  async getBalance(walletId: string): Promise<string> {
-    const [result] = await db
+  async update(id: string, data: Partial<Pick<Wallet, 'name' | 'metadata' | 'status' | 'statusReason' | 'subWalletRules'>>, executor: DbExecutor = db): Promise<Wallet> {
+    const [wallet] = await executor
+      .update(wallets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(wallets.id, id))
+      .returning();
+    return wallet;
+  }
+
+  // Takes row locks on the given wallets for the rest of the transaction. Locks are
+  // acquired in id order so concurrent postings touching the same wallets cannot deadlock.
+  async lockForUpdate(walletIds: string[], executor: DbExecutor): Promise<Wallet[]> {
+    const ids = Array.from(new Set(walletIds)).sort();
+    if (ids.length === 0) return [];
+    return await executor
+      .select()
+      .from(wallets)
+      .where(inArray(wallets.id, ids))
+      .orderBy(asc(wallets.id))
+      .for('update');
+  }
+
+  async getBalance(walletId: string, currency: string, executor: DbExecutor = db): Promise<Money> {
+    const [result] = await executor
       .select({ balance: ledgerEntries.balance })
       .from(ledgerEntries)
       .where(eq(ledgerEntries.walletId, walletId))
-      .orderBy(desc(ledgerEntries.createdAt))
+      .orderBy(desc(ledgerEntries.sequence))
       .limit(1);
-    return result?.balance || '0.00';
+    return parseMoney(result?.balance || '0', currency);
   }
 
   async getStatsByPartnerId(partnerId: string): Promise<{
@@ -14,9 +14,24 @@ import { walletService } from "./services/wallet";
 import { transactionService } from "./services/transaction";
 import { paymentGatewayService } from "./services/payment-gateway";
 // storage removed in favor of repositories
-import { partnersRepository, apiKeysRepository, fundingSessionsRepository } from "./repositories";
+import { partnersRepository, apiKeysRepository, fxRatesRepository } from "./repositories";
 import { walletsRepository } from "./repositories";
 import { fundingService } from "./services/funding";
+import { fxService } from "./services/fx";
+import { holdService } from "./services/hold";
+import { systemAccountService } from "./services/system-accounts";
+import { ledgerIntegrityService } from "./services/ledger-integrity";
+import { statementService } from "./services/statement";
+import { feeService } from "./services/fee";
+import { walletLimitService } from "./services/wallet-limits";
+import { escrowService } from "./services/escrow";
+import { roscaService } from "./services/rosca";
+import { roscaPenaltyService } from "./services/rosca-penalties";
+import { walletApprovalService } from "./services/wallet-approval";
+import { subWalletService } from "./services/sub-wallets";
+import { payoutService } from "./services/payout";
+import { refundService } from "./services/refund";
+import { gatewayEventService } from "./services/gateway-events";
 import { 
   insertPartnerSchema,
   insertWalletSchema, 
@@ -24,8 +39,47 @@ import {
   debitWalletSchema, 
   transferSchema, 
   payoutSchema,
-  createFundingSessionSchema
+  createFundingSessionSchema,
+  createFxQuoteSchema,
+  fxTransferSchema,
+  upsertFxRateSchema,
+  createHoldSchema,
+  captureHoldSchema,
+  reverseTransactionSchema,
+  voidTransactionSchema,
+  multiLegTransactionSchema,
+  upsertFeeScheduleSchema,
+  upsertWalletLimitSchema,
+  updateWalletSchema,
+  walletStatusChangeSchema,
+  closeWalletSchema,
+  balanceAsOfQuerySchema,
+  statementQuerySchema,
+  createEscrowSchema,
+  confirmEscrowSchema,
+  disputeEscrowSchema,
+  resolveEscrowSchema,
+  escrowStatusEnum,
+  createRoscaGroupSchema,
+  recordRoscaContributionSchema,
+  executeRoscaPayoutSchema,
+  updateRoscaRulesSchema,
+  setApprovalPolicySchema,
+  approvalDecisionSchema,
+  approvalRequestStatusEnum,
+  subWalletRulesSchema,
+  payoutStatusEnum,
+  createRefundSchema,
+  refundStatusEnum,
+  gatewayEventStatusEnum,
+  paymentGatewayEnum,
+  type Escrow,
+  type WalletApprovalRequest,
+  type PayoutRecord,
+  type Refund,
+  type GatewayEvent
 } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
@@ -113,7 +167,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if session is expired
       if (new Date() > new Date(session.expiresAt)) {
-        await fundingSessionsRepository.updateStatus(sessionId, 'expired');
+        // Paid or authorized sessions keep their status
+        await fundingService.expireSession(sessionId);
         return res.status(410).json({ error: 'Funding session has expired' });
       }
 
@@ -161,7 +216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           partnerId: req.partner.id
         });
         
-        const wallet = await walletsRepository.create(walletData);
+        const wallet = await walletService.createWallet(req.partner.id, walletData);
         res.status(201).json(wallet);
       } catch (error) {
         next(error);
@@ -209,6 +264,291 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  app.patch("/api/v1/wallets/:id", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const data = updateWalletSchema.parse(req.body);
+        const wallet = await walletService.updateWallet(req.partner.id, req.params.id, data);
+        res.json(wallet);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Wallet lifecycle: active <-> suspended, then closed (final). Only active wallets move money.
+  app.post("/api/v1/wallets/:id/suspend", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const { reason } = walletStatusChangeSchema.parse(req.body || {});
+        const wallet = await walletService.suspendWallet(req.partner.id, req.params.id, reason);
+        res.json(wallet);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/wallets/:id/reactivate", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const { reason } = walletStatusChangeSchema.parse(req.body || {});
+        const wallet = await walletService.reactivateWallet(req.partner.id, req.params.id, reason);
+        res.json(wallet);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/wallets/:id/close", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const data = closeWalletSchema.parse(req.body || {});
+        const result = await walletService.closeWallet(req.partner.id, req.params.id, data);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Sub-wallets: the tree under a parent wallet with its consolidated balance
+  app.get("/api/v1/wallets/:id/sub-wallets", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const children = await subWalletService.listChildren(req.partner.id, req.params.id);
+        res.json(children);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/wallets/:id/tree", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const tree = await subWalletService.getTree(req.partner.id, req.params.id);
+        res.json(tree);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.put("/api/v1/wallets/:id/sub-wallet-rules", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const rules = subWalletRulesSchema.parse(req.body);
+        const wallet = await subWalletService.setRules(req.partner.id, req.params.id, rules);
+        res.json(wallet);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/wallets/:id/sub-wallets/transfers", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const data = transferSchema.parse(req.body);
+        const transaction = await subWalletService.transfer(req.partner.id, req.params.id, data);
+        res.status(201).json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Multi-signature approval policy for a group wallet
+  app.put("/api/v1/wallets/:id/approval-policy", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const data = setApprovalPolicySchema.parse(req.body);
+        const policy = await walletApprovalService.setPolicy(req.partner.id, req.params.id, data);
+        res.json(policy);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/wallets/:id/approval-policy", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const policy = await walletApprovalService.getPolicy(req.partner.id, req.params.id);
+        res.json(policy);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.delete("/api/v1/wallets/:id/approval-policy", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        await walletApprovalService.removePolicy(req.partner.id, req.params.id);
+        res.json({ message: 'Approval policy removed' });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/wallets/:id/approval-requests", 
+    requireApiKey, 
+    requirePermission('transactions:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const { status, limit = 50, offset = 0 } = req.query;
+        const requests = await walletApprovalService.listRequests(
+          req.partner.id,
+          req.params.id,
+          approvalRequestStatusEnum.enumValues.includes(status as WalletApprovalRequest['status']) ? status as WalletApprovalRequest['status'] : undefined,
+          parseInt(limit as string),
+          parseInt(offset as string)
+        );
+        res.json(requests);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/approval-requests/:id", 
+    requireApiKey, 
+    requirePermission('transactions:read'), 
+    async (req: any, res, next) => {
+      try {
+        const request = await walletApprovalService.getRequest(req.partner.id, req.params.id);
+        res.json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/approval-requests/:id/approve", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = approvalDecisionSchema.parse(req.body);
+        const request = await walletApprovalService.approve(req.partner.id, req.params.id, data);
+        res.json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/approval-requests/:id/reject", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = approvalDecisionSchema.parse(req.body);
+        const request = await walletApprovalService.reject(req.partner.id, req.params.id, data);
+        res.json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Effective limits (partner, tier and wallet level) with current usage
+  app.get("/api/v1/wallets/:id/limits", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const limits = await walletLimitService.getWalletLimits(req.partner.id, req.params.id);
+        res.json(limits);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Ledger balance at a past instant; a date-only asOf means the end of that UTC day
+  app.get("/api/v1/wallets/:id/balance/as-of", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const { asOf } = balanceAsOfQuerySchema.parse(req.query);
+        const result = await walletService.getBalanceAsOf(req.partner.id, req.params.id, asOf);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Statement for a date range as JSON (default), CSV or PDF
+  app.get("/api/v1/wallets/:id/statement", 
+    requireApiKey, 
+    requirePermission('transactions:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const { from, to, format } = statementQuerySchema.parse(req.query);
+        const statement = await statementService.getStatement(req.partner.id, req.params.id, from, to);
+        const filename = `statement-${statement.walletId}-${statement.from.slice(0, 10)}-${statement.to.slice(0, 10)}`;
+
+        if (format === 'csv') {
+          res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+          return res.send(statementService.toCsv(statement));
+        }
+        if (format === 'pdf') {
+          res.setHeader('Content-Type', 'application/pdf');
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+          return res.send(statementService.toPdf(statement));
+        }
+        res.json(statement);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   app.get("/api/v1/wallets/:id/transactions", 
     requireApiKey, 
     requirePermission('transactions:read'), 
@@ -268,44 +608,449 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  app.post("/api/v1/wallets/:id/debit", 
+  app.post("/api/v1/wallets/:id/debit", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const data = debitWalletSchema.parse({ 
+          ...req.body, 
+          walletId: req.params.id 
+        });
+        const transaction = await walletService.debitWallet(req.partner.id, data);
+        res.status(201).json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/transfers", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = transferSchema.parse(req.body);
+        
+        // Verify both wallets belong to the partner
+        const fromWallet = await walletsRepository.getById(data.fromWalletId);
+        const toWallet = await walletsRepository.getById(data.toWalletId);
+        
+        if (!fromWallet || fromWallet.partnerId !== req.partner.id) {
+          return res.status(404).json({ error: 'Source wallet not found or not accessible' });
+        }
+        
+        if (!toWallet || toWallet.partnerId !== req.partner.id) {
+          return res.status(404).json({ error: 'Destination wallet not found or not accessible' });
+        }
+
+        const transaction = await walletService.transferBetweenWallets(req.partner.id, data);
+        res.status(201).json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // The partner's own fee schedules
+  app.get("/api/v1/fees", 
+    requireApiKey, 
+    requirePermission('transactions:read'), 
+    async (req: any, res, next) => {
+      try {
+        const schedules = await feeService.listSchedules(req.partner.id);
+        res.json(schedules);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Split payment: several source and destination wallets posted atomically under one idempotency key
+  app.post("/api/v1/transactions/multi", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = multiLegTransactionSchema.parse(req.body);
+        const transaction = await transactionService.createMultiLegTransaction(req.partner.id, data);
+        res.status(201).json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/transactions/:id/reverse", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = reverseTransactionSchema.parse(req.body);
+        const reversal = await transactionService.reverseTransaction(req.partner.id, req.params.id, data);
+        res.status(201).json(reversal);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Two-phase transactions: finalize or cancel one created with pending: true
+  app.post("/api/v1/transactions/:id/settle", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const transaction = await transactionService.settleTransaction(req.partner.id, req.params.id);
+        res.json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/transactions/:id/void", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = voidTransactionSchema.parse(req.body || {});
+        const transaction = await transactionService.voidTransaction(req.partner.id, req.params.id, data);
+        res.json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Escrow routes (API Key auth)
+  app.post("/api/v1/escrows", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = createEscrowSchema.parse(req.body);
+        const escrow = await escrowService.createEscrow(req.partner.id, data);
+        res.status(201).json(escrow);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/escrows", 
+    requireApiKey, 
+    requirePermission('transactions:read'), 
+    async (req: any, res, next) => {
+      try {
+        const { status, limit = 50, offset = 0 } = req.query;
+        const escrows = await escrowService.listEscrows(
+          req.partner.id,
+          escrowStatusEnum.enumValues.includes(status as Escrow['status']) ? status as Escrow['status'] : undefined,
+          parseInt(limit as string),
+          parseInt(offset as string)
+        );
+        res.json(escrows);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/escrows/:id", 
+    requireApiKey, 
+    requirePermission('transactions:read'), 
+    async (req: any, res, next) => {
+      try {
+        const escrow = await escrowService.getEscrow(req.partner.id, req.params.id);
+        res.json(escrow);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/escrows/:id/confirm", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = confirmEscrowSchema.parse(req.body);
+        const escrow = await escrowService.confirmEscrow(req.partner.id, req.params.id, data);
+        res.json(escrow);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/escrows/:id/dispute", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = disputeEscrowSchema.parse(req.body);
+        const escrow = await escrowService.disputeEscrow(req.partner.id, req.params.id, data);
+        res.json(escrow);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/escrows/:id/resolve", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = resolveEscrowSchema.parse(req.body);
+        const escrow = await escrowService.resolveEscrow(req.partner.id, req.params.id, data);
+        res.json(escrow);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // ROSCA group routes (API Key auth)
+  app.post("/api/v1/rosca-groups", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = createRoscaGroupSchema.parse(req.body);
+        const group = await roscaService.createGroup(req.partner.id, data);
+        res.status(201).json(group);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/rosca-groups", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    async (req: any, res, next) => {
+      try {
+        const { limit = 50, offset = 0 } = req.query;
+        const groups = await roscaService.listGroups(req.partner.id, parseInt(limit as string), parseInt(offset as string));
+        res.json(groups);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/rosca-groups/:id", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    async (req: any, res, next) => {
+      try {
+        const group = await roscaService.getGroupDetails(req.partner.id, req.params.id);
+        res.json(group);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/rosca-groups/:id/rounds/:roundNumber", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    async (req: any, res, next) => {
+      try {
+        const round = await roscaService.getRoundDetails(req.partner.id, req.params.id, parseInt(req.params.roundNumber));
+        res.json(round);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/rosca-groups/:id/contributions", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = recordRoscaContributionSchema.parse(req.body);
+        const contribution = await roscaService.recordContribution(req.partner.id, req.params.id, data);
+        res.status(201).json(contribution);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/rosca-groups/:id/payout", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = executeRoscaPayoutSchema.parse(req.body);
+        const payout = await roscaService.executePayout(req.partner.id, req.params.id, data);
+        res.status(201).json(payout);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.patch("/api/v1/rosca-groups/:id/rules", 
+    requireApiKey, 
+    requirePermission('wallets:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = updateRoscaRulesSchema.parse(req.body);
+        const group = await roscaPenaltyService.updateRules(req.partner.id, req.params.id, data);
+        res.json(group);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Assess the group's overdue rounds now rather than waiting for the scheduled job
+  app.post("/api/v1/rosca-groups/:id/assess-penalties", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const result = await roscaPenaltyService.assessGroup(req.partner.id, req.params.id);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/rosca-groups/:id/standing", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    async (req: any, res, next) => {
+      try {
+        const standing = await roscaPenaltyService.getStanding(req.partner.id, req.params.id);
+        res.json(standing);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Hold routes (API Key auth)
+  app.post("/api/v1/wallets/:id/holds", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const data = createHoldSchema.parse({ 
+          ...req.body, 
+          walletId: req.params.id 
+        });
+        const hold = await holdService.createHold(req.partner.id, data);
+        res.status(201).json(hold);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/wallets/:id/holds", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    validateWalletOwnership,
+    async (req: any, res, next) => {
+      try {
+        const { limit = 50, offset = 0 } = req.query;
+        const holds = await holdService.listWalletHolds(
+          req.partner.id,
+          req.params.id,
+          parseInt(limit as string),
+          parseInt(offset as string)
+        );
+        res.json(holds);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/holds/:holdId", 
+    requireApiKey, 
+    requirePermission('wallets:read'), 
+    async (req: any, res, next) => {
+      try {
+        const hold = await holdService.getHold(req.partner.id, req.params.holdId);
+        res.json(hold);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/holds/:holdId/capture", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = captureHoldSchema.parse(req.body);
+        const transaction = await holdService.captureHold(req.partner.id, req.params.holdId, data);
+        res.status(201).json(transaction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/holds/:holdId/release", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const hold = await holdService.releaseHold(req.partner.id, req.params.holdId);
+        res.json(hold);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // FX routes (API Key auth)
+  app.post("/api/v1/fx/quotes", 
+    requireApiKey, 
+    requirePermission('transactions:write'), 
+    async (req: any, res, next) => {
+      try {
+        const data = createFxQuoteSchema.parse(req.body);
+        const quote = await fxService.createQuote(req.partner.id, data);
+        res.status(201).json(quote);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/fx/quotes/:id", 
     requireApiKey, 
-    requirePermission('transactions:write'), 
-    validateWalletOwnership,
+    requirePermission('transactions:read'), 
     async (req: any, res, next) => {
       try {
-        const data = debitWalletSchema.parse({ 
-          ...req.body, 
-          walletId: req.params.id 
-        });
-        const transaction = await walletService.debitWallet(req.partner.id, data);
-        res.status(201).json(transaction);
+        const quote = await fxService.getQuote(req.partner.id, req.params.id);
+        res.json(quote);
       } catch (error) {
         next(error);
       }
     }
   );
 
-  app.post("/api/v1/transfers", 
+  app.post("/api/v1/fx/transfers", 
     requireApiKey, 
     requirePermission('transactions:write'), 
     async (req: any, res, next) => {
       try {
-        const data = transferSchema.parse(req.body);
-        
-        // Verify both wallets belong to the partner
-        const fromWallet = await walletsRepository.getById(data.fromWalletId);
-        const toWallet = await walletsRepository.getById(data.toWalletId);
-        
-        if (!fromWallet || fromWallet.partnerId !== req.partner.id) {
-          return res.status(404).json({ error: 'Source wallet not found or not accessible' });
-        }
-        
-        if (!toWallet || toWallet.partnerId !== req.partner.id) {
-          return res.status(404).json({ error: 'Destination wallet not found or not accessible' });
-        }
-
-        const transaction = await walletService.transferBetweenWallets(req.partner.id, data);
+        const data = fxTransferSchema.parse(req.body);
+        const transaction = await fxService.transfer(req.partner.id, data);
         res.status(201).json(transaction);
       } catch (error) {
         next(error);
@@ -328,7 +1073,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ error: 'Wallet not found or not accessible' });
         }
 
-        const payout = await paymentGatewayService.createPayout(gateway, data);
+        const payout = await payoutService.createPayout(req.partner.id, gateway, data);
         res.status(201).json(payout);
       } catch (error) {
         next(error);
@@ -336,6 +1081,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  app.get("/api/v1/payouts", 
+    requireApiKey, 
+    requirePermission('payouts:read'), 
+    async (req: any, res, next) => {
+      try {
+        const { walletId, status, limit = 50, offset = 0 } = req.query;
+        const payouts = await payoutService.listPayouts(
+          req.partner.id,
+          {
+            walletId: walletId as string | undefined,
+            status: payoutStatusEnum.enumValues.includes(status as PayoutRecord['status']) ? status as PayoutRecord['status'] : undefined,
+          },
+          parseInt(limit as string),
+          parseInt(offset as string)
+        );
+        res.json(payouts);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/payouts/:id", 
+    requireApiKey, 
+    requirePermission('payouts:read'), 
+    async (req: any, res, next) => {
+      try {
+        const payout = await payoutService.getPayout(req.partner.id, req.params.id);
+        res.json(payout);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Wallet funding routes (API Key auth)
   app.post("/api/v1/wallets/:walletId/fund",
     requireApiKey,
@@ -356,10 +1136,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: session.id,
           url: fundingService.getPaymentUrl(session.id),
           status: session.status,
+          captureMode: session.captureMode,
           amount: parseFloat(session.amount),
           currency: session.currency,
           walletId: session.walletId,
           expiresAt: session.expiresAt.toISOString(),
+          authorizationExpiresAt: session.authorizationExpiresAt?.toISOString() ?? null,
           metadata: session.metadata
         });
       } catch (error) {
@@ -390,10 +1172,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: session.id,
           url: fundingService.getPaymentUrl(session.id),
           status: session.status,
+          captureMode: session.captureMode,
           amount: parseFloat(session.amount),
           currency: session.currency,
           walletId: session.walletId,
           expiresAt: session.expiresAt.toISOString(),
+          authorizationExpiresAt: session.authorizationExpiresAt?.toISOString() ?? null,
+          metadata: session.metadata
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Manual-capture funding: capture or void an authorized card payment
+  app.post("/api/v1/funding/sessions/:sessionId/capture",
+    requireApiKey,
+    requirePermission('wallets:write'),
+    async (req: any, res, next) => {
+      try {
+        const session = await fundingService.captureFundingSession(req.partner.id, req.params.sessionId);
+        res.json({
+          id: session.id,
+          status: session.status,
+          captureMode: session.captureMode,
+          amount: parseFloat(session.amount),
+          currency: session.currency,
+          walletId: session.walletId,
+          capturedAt: session.capturedAt?.toISOString() ?? null,
+          metadata: session.metadata
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/funding/sessions/:sessionId/void",
+    requireApiKey,
+    requirePermission('wallets:write'),
+    async (req: any, res, next) => {
+      try {
+        const data = voidTransactionSchema.parse(req.body || {});
+        const session = await fundingService.voidFundingSession(req.partner.id, req.params.sessionId, data);
+        res.json({
+          id: session.id,
+          status: session.status,
+          captureMode: session.captureMode,
+          amount: parseFloat(session.amount),
+          currency: session.currency,
+          walletId: session.walletId,
           metadata: session.metadata
         });
       } catch (error) {
@@ -402,6 +1231,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Refund routes (API Key auth)
+  app.post("/api/v1/funding/sessions/:sessionId/refunds",
+    requireApiKey,
+    requirePermission('transactions:write'),
+    async (req: any, res, next) => {
+      try {
+        const data = createRefundSchema.parse(req.body);
+        const refund = await refundService.refundFundingSession(req.partner.id, req.params.sessionId, data);
+        res.status(201).json(refund);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/v1/gateway-transactions/:paymentId/refunds",
+    requireApiKey,
+    requirePermission('transactions:write'),
+    async (req: any, res, next) => {
+      try {
+        const data = createRefundSchema.parse(req.body);
+        const refund = await refundService.refundGatewayPayment(req.partner.id, req.params.paymentId, data);
+        res.status(201).json(refund);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/refunds",
+    requireApiKey,
+    requirePermission('transactions:read'),
+    async (req: any, res, next) => {
+      try {
+        const { walletId, status, limit = 50, offset = 0 } = req.query;
+        const refunds = await refundService.listRefunds(
+          req.partner.id,
+          {
+            walletId: walletId as string | undefined,
+            status: refundStatusEnum.enumValues.includes(status as Refund['status']) ? status as Refund['status'] : undefined,
+          },
+          parseInt(limit as string),
+          parseInt(offset as string)
+        );
+        res.json(refunds);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.get("/api/v1/refunds/:id",
+    requireApiKey,
+    requirePermission('transactions:read'),
+    async (req: any, res, next) => {
+      try {
+        const refund = await refundService.getRefund(req.partner.id, req.params.id);
+        res.json(refund);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // =====================================
   // Webhook Endpoints
   // =====================================
@@ -420,18 +1313,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/v1/webhooks/mock", async (req, res, next) => {
-    try {
-      const result = await paymentGatewayService.handleWebhook(
-        'mock', 
-        JSON.stringify(req.body), 
-        'mock-signature'
-      );
-      res.json(result);
-    } catch (error) {
-      next(error);
-    }
-  });
+  // The mock gateway takes any payload unsigned, so it is only reachable in development and tests
+  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
+    app.post("/api/v1/webhooks/mock", async (req, res, next) => {
+      try {
+        const result = await paymentGatewayService.handleWebhook(
+          'mock', 
+          JSON.stringify(req.body), 
+          'mock-signature'
+        );
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
 
   // =====================================
   // Admin Routes (Web App Authentication)
@@ -514,6 +1410,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // System ledger accounts (clearing, gateway receivable, fees, FX position, ...) per currency
+  app.get("/api/admin/partners/:partnerId/system-accounts", requireAuth, async (req, res, next) => {
+    try {
+      const { partnerId } = req.params;
+      const accounts = await systemAccountService.listAccounts(partnerId);
+      res.json(accounts);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Fee schedules charged on a partner's credits, debits, transfers, payouts and funding
+  app.get("/api/admin/partners/:partnerId/fees", requireAuth, async (req, res, next) => {
+    try {
+      const schedules = await feeService.listSchedules(req.params.partnerId);
+      res.json(schedules);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/admin/partners/:partnerId/fees", requireAuth, async (req, res, next) => {
+    try {
+      const data = upsertFeeScheduleSchema.parse(req.body);
+      const schedule = await feeService.upsertSchedule(req.params.partnerId, data);
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Wallet limits for all of a partner's wallets, a tier, or a single wallet
+  app.get("/api/admin/partners/:partnerId/limits", requireAuth, async (req, res, next) => {
+    try {
+      const limits = await walletLimitService.listPartnerLimits(req.params.partnerId);
+      res.json(limits);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/admin/partners/:partnerId/limits", requireAuth, async (req, res, next) => {
+    try {
+      const data = upsertWalletLimitSchema.parse(req.body);
+      const limit = await walletLimitService.upsertLimit(req.params.partnerId, data);
+      res.json(limit);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.delete("/api/admin/api-keys/:keyId", requireAuth, async (req, res, next) => {
     try {
       const { keyId } = req.params;
@@ -524,6 +1471,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Expire lapsed wallet holds (for PayFlow admin interface or a scheduled job)
+  app.post("/api/admin/holds/expire", requireAuth, async (req, res, next) => {
+    try {
+      const expired = await holdService.expireHolds();
+      res.json({ expired });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Expire unpaid funding sessions past their deadline (for PayFlow admin interface or a scheduled job)
+  app.post("/api/admin/funding/expire-sessions", requireAuth, async (req, res, next) => {
+    try {
+      const expired = await fundingService.markExpiredSessions();
+      res.json({ expired });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Release card authorizations past their capture deadline (for PayFlow admin interface or a scheduled job)
+  app.post("/api/admin/funding/expire-authorizations", requireAuth, async (req, res, next) => {
+    try {
+      const result = await fundingService.expireAuthorizations();
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Release funded escrows past their deadline (for PayFlow admin interface or a scheduled job)
+  app.post("/api/admin/escrows/release-due", requireAuth, async (req, res, next) => {
+    try {
+      const result = await escrowService.releaseDueEscrows();
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/approval-requests/expire-due", requireAuth, async (req, res, next) => {
+    try {
+      const result = await walletApprovalService.expireDueRequests();
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/rosca/assess-penalties", requireAuth, async (req, res, next) => {
+    try {
+      const result = await roscaPenaltyService.assessOverdueRounds();
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Inbound gateway events: list them and re-process failed ones from the stored payload
+  app.get("/api/admin/gateway-events", requireAuth, async (req, res, next) => {
+    try {
+      const { gateway, status, type, limit = 50, offset = 0 } = req.query;
+      const events = await gatewayEventService.listEvents(
+        {
+          gateway: paymentGatewayEnum.enumValues.includes(gateway as GatewayEvent['gateway']) ? gateway as GatewayEvent['gateway'] : undefined,
+          status: gatewayEventStatusEnum.enumValues.includes(status as GatewayEvent['status']) ? status as GatewayEvent['status'] : undefined,
+          type: typeof type === 'string' ? type : undefined,
+        },
+        parseInt(limit as string),
+        parseInt(offset as string)
+      );
+      res.json(events);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/gateway-events/:id", requireAuth, async (req, res, next) => {
+    try {
+      const event = await gatewayEventService.getEvent(req.params.id);
+      res.json(event);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/gateway-events/:id/reprocess", requireAuth, async (req, res, next) => {
+    try {
+      const event = await gatewayEventService.reprocess(req.params.id);
+      res.json(event);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Ledger integrity report: replays running balances and checks every transaction nets to zero
+  app.get("/api/admin/ledger/verify", requireAuth, async (req, res, next) => {
+    try {
+      const partnerId = typeof req.query.partnerId === 'string' ? req.query.partnerId : undefined;
+      const report = await ledgerIntegrityService.verify({ partnerId });
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Hash chain audit: reports ledger rows whose contents or links no longer match their hashes
+  app.get("/api/admin/ledger/verify-chain", requireAuth, async (req, res, next) => {
+    try {
+      const partnerId = typeof req.query.partnerId === 'string' ? req.query.partnerId : undefined;
+      const report = await ledgerIntegrityService.verifyHashChains({ partnerId });
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // FX rate management (for PayFlow admin interface)
+  app.get("/api/admin/fx/rates", requireAuth, async (req, res, next) => {
+    try {
+      const rates = await fxRatesRepository.list();
+      res.json(rates);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/admin/fx/rates", requireAuth, async (req, res, next) => {
+    try {
+      const data = upsertFxRateSchema.parse(req.body);
+      const rate = await fxRatesRepository.upsert(data);
+      res.json(rate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Wallet Management (for PayFlow admin interface)
   app.get("/api/admin/wallets", requireAuth, async (req, res, next) => {
     try {
@@ -595,10 +1679,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const walletsWithBalance = await Promise.all(
         paginatedWallets.map(async (wallet) => {
           try {
-            const balance = await walletsRepository.getBalance(wallet.id);
+            const balance = await walletsRepository.getBalance(wallet.id, wallet.currency);
             return {
               ...wallet,
-              balance
+              balance: formatMoney(balance)
             };
           } catch (error) {
             console.warn(`Failed to get balance for wallet ${wallet.id}:`, error);
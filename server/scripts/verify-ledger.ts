@@ -0,0 +1,22 @@
+// Prints the ledger integrity report as JSON and exits non-zero when anything is off.
+// Usage: npm run ledger:verify [-- --partner <partnerId>]
+
+import { pool } from "../db";
+import { ledgerIntegrityService } from "../services/ledger-integrity";
+
+async function main() {
+  const partnerFlag = process.argv.indexOf('--partner');
+  const partnerId = partnerFlag >= 0 ? process.argv[partnerFlag + 1] : undefined;
+
+  const report = await ledgerIntegrityService.verify({ partnerId });
+  console.log(JSON.stringify(report, null, 2));
+  return report.ok ? 0 : 1;
+}
+
+main()
+  .then((code) => { process.exitCode = code; })
+  .catch((error) => {
+    console.error('Ledger verification failed:', error);
+    process.exitCode = 2;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,139 @@
+import { fundingSessionsRepository, gatewayTransactionsRepository, transactionsRepository, walletsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { FUNDING_GATEWAY } from "./funding";
+import { systemAccountService } from "./system-accounts";
+import { webhookService } from "./webhook";
+import type { FundingSession, Transaction, Wallet } from "@shared/schema";
+import { type Money, money, parseMoney, formatMoney, fromMinorUnits } from "@shared/money";
+
+// The fields of a gateway dispute this service reads (Stripe-shaped)
+export interface GatewayDispute {
+  id: string;
+  payment_intent?: string | null;
+  amount: number; // Minor units
+  currency: string;
+  reason?: string;
+  status?: string;
+}
+
+// The card payment a dispute is about, and the wallet it funded
+interface DisputedPayment {
+  wallet: Wallet;
+  session?: FundingSession;
+  transaction?: Transaction;
+}
+
+/**
+ * Card disputes (chargebacks) on payments that funded a wallet. When the gateway withdraws the
+ * disputed amount it is moved from the wallet to the partner's suspense account; if the dispute
+ * is won and the gateway reinstates the funds they go back. The gateway has already taken the
+ * money, so the wallet is debited whatever its balance or status. Every dispute event is also
+ * passed on to the partner (payment.dispute_created, payment.dispute_funds_withdrawn, ...).
+ */
+export class DisputeService {
+  async handleGatewayDispute(gateway: string, dispute: GatewayDispute, eventType: string): Promise<void> {
+    const payment = await this.findPayment(gateway, dispute);
+    if (!payment) {
+      console.warn(`No wallet found for ${gateway} dispute ${dispute.id} on payment ${dispute.payment_intent}`);
+      return;
+    }
+
+    let adjustment: Transaction | undefined;
+    if (eventType === 'charge.dispute.funds_withdrawn') {
+      adjustment = await this.withdrawFunds(payment.wallet, dispute);
+    } else if (eventType === 'charge.dispute.funds_reinstated') {
+      adjustment = await this.reinstateFunds(payment.wallet, dispute);
+    }
+
+    await webhookService.handlePartnerWebhook(payment.wallet.partnerId, `payment.${eventType.replace('charge.', '').replace(/\./g, '_')}`, {
+      disputeId: dispute.id,
+      paymentId: dispute.payment_intent,
+      fundingSessionId: payment.session?.id,
+      transactionId: payment.transaction?.id,
+      adjustmentTransactionId: adjustment?.id,
+      walletId: payment.wallet.id,
+      externalWalletId: payment.wallet.externalWalletId,
+      amount: fromMinorUnits(dispute.amount, dispute.currency),
+      currency: dispute.currency.toUpperCase(),
+      reason: dispute.reason,
+      status: dispute.status,
+    });
+  }
+
+  // Funding sessions first, then other completed gateway payments that credited a wallet. Only
+  // payments made through the gateway reporting the dispute are considered.
+  private async findPayment(gateway: string, dispute: GatewayDispute): Promise<DisputedPayment | undefined> {
+    if (!dispute.payment_intent) return undefined;
+
+    const session = gateway === FUNDING_GATEWAY ? await fundingSessionsRepository.getByPaymentIntentId(dispute.payment_intent) : undefined;
+    if (session) {
+      const wallet = await walletsRepository.getById(session.walletId);
+      return wallet ? { wallet, session } : undefined;
+    }
+
+    const payment = await gatewayTransactionsRepository.getCompletedPayment(dispute.payment_intent);
+    if (payment?.gateway !== gateway) return undefined;
+    const transaction = payment?.transactionId ? await transactionsRepository.getById(payment.transactionId) : undefined;
+    const wallet = transaction?.toWalletId ? await walletsRepository.getById(transaction.toWalletId) : undefined;
+    return wallet ? { wallet, transaction } : undefined;
+  }
+
+  private async withdrawFunds(wallet: Wallet, dispute: GatewayDispute): Promise<Transaction> {
+    const amount = this.disputedAmount(wallet, dispute);
+    const suspense = await systemAccountService.getAccountForOperation(wallet.partnerId, 'unmatched', amount.currency);
+    const description = `Dispute ${dispute.id}: funds withdrawn`;
+    return await transactionService.postTransaction({
+      type: 'debit',
+      amount: formatMoney(amount),
+      currency: amount.currency,
+      description,
+      fromWalletId: wallet.id,
+      idempotencyKey: this.withdrawalKey(dispute),
+      metadata: { dispute: { id: dispute.id, paymentId: dispute.payment_intent } },
+    }, [
+      { walletId: wallet.id, type: 'debit', amount, description },
+      { walletId: suspense.id, type: 'credit', amount, description },
+    ], {
+      allowInactiveWalletIds: [wallet.id],
+    });
+  }
+
+  // Puts back exactly what was withdrawn; nothing is reinstated for a withdrawal never recorded
+  private async reinstateFunds(wallet: Wallet, dispute: GatewayDispute): Promise<Transaction | undefined> {
+    const withdrawal = await transactionsRepository.getByIdempotencyKey(this.withdrawalKey(dispute));
+    if (!withdrawal) {
+      console.warn(`Dispute ${dispute.id} funds reinstated without a recorded withdrawal`);
+      return undefined;
+    }
+
+    const amount = parseMoney(withdrawal.amount, withdrawal.currency);
+    const suspense = await systemAccountService.getAccountForOperation(wallet.partnerId, 'unmatched', amount.currency);
+    const description = `Dispute ${dispute.id}: funds reinstated`;
+    return await transactionService.postTransaction({
+      type: 'credit',
+      amount: withdrawal.amount,
+      currency: withdrawal.currency,
+      description,
+      toWalletId: wallet.id,
+      idempotencyKey: `dispute-reinstatement:${dispute.id}`,
+      metadata: { dispute: { id: dispute.id, paymentId: dispute.payment_intent, withdrawalTransactionId: withdrawal.id } },
+    }, [
+      { walletId: suspense.id, type: 'debit', amount, description },
+      { walletId: wallet.id, type: 'credit', amount, description },
+    ], {
+      allowInactiveWalletIds: [wallet.id],
+    });
+  }
+
+  private disputedAmount(wallet: Wallet, dispute: GatewayDispute): Money {
+    const currency = dispute.currency.toUpperCase();
+    transactionService.assertWalletCurrency(wallet, currency);
+    return money(dispute.amount, currency); // Stripe sends minor units
+  }
+
+  private withdrawalKey(dispute: GatewayDispute): string {
+    return `dispute-withdrawal:${dispute.id}`;
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -0,0 +1,232 @@
+import { escrowsRepository, walletsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { webhookService } from "./webhook";
+import { walletApprovalService } from "./wallet-approval";
+import { ApiError } from "../errors";
+import type { ConfirmEscrow, CreateEscrow, DisputeEscrow, Escrow, ResolveEscrow, Wallet } from "@shared/schema";
+import { parseMoney, formatMoney } from "@shared/money";
+
+type EscrowOutcome = 'release' | 'refund';
+
+/**
+ * Escrow for marketplace deals. Creating an escrow moves the buyer's money into the partner's
+ * escrow system account; it leaves again either to the seller (release) or back to the buyer
+ * (refund). State changes are conditional on the current status, so a release, refund and
+ * dispute racing each other cannot all win.
+ *
+ *   funded --both parties confirm / deadline--> released
+ *   funded --dispute--> disputed --resolve--> released | refunded
+ */
+export class EscrowService {
+  async createEscrow(partnerId: string, data: CreateEscrow): Promise<Escrow> {
+    const existing = await escrowsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+
+    const wallets: Wallet[] = [];
+    for (const walletId of [data.buyerWalletId, data.sellerWalletId]) {
+      const wallet = await walletsRepository.getById(walletId);
+      if (!wallet || wallet.partnerId !== partnerId || wallet.systemAccountType) {
+        throw new Error(`Wallet ${walletId} not found or access denied`);
+      }
+      wallets.push(wallet);
+    }
+    // Without a currency the escrow is held in the buyer wallet's currency
+    const amount = parseMoney(data.amount, data.currency || wallets[0].currency);
+    for (const wallet of wallets) {
+      transactionService.assertWalletCurrency(wallet, amount.currency);
+    }
+    await walletApprovalService.assertNotRequired(data.buyerWalletId, amount);
+
+    let escrow: Escrow | undefined;
+    await transactionService.createTransaction(partnerId, {
+      type: 'debit',
+      amount: formatMoney(amount),
+      currency: amount.currency,
+      description: data.description || `Escrow for deal ${data.dealReference}`,
+      fromWalletId: data.buyerWalletId,
+      idempotencyKey: data.idempotencyKey,
+      metadata: { escrow: { dealReference: data.dealReference } },
+    }, {
+      operation: 'escrow',
+      enforceLimits: true,
+      afterPost: async (transaction, tx) => {
+        escrow = await escrowsRepository.create({
+          partnerId,
+          dealReference: data.dealReference,
+          buyerWalletId: data.buyerWalletId,
+          sellerWalletId: data.sellerWalletId,
+          amount: formatMoney(amount),
+          currency: amount.currency,
+          description: data.description,
+          releaseAfter: data.releaseAfter,
+          fundingTransactionId: transaction.id,
+          idempotencyKey: data.idempotencyKey,
+          metadata: data.metadata || {},
+        }, tx);
+      },
+    });
+
+    if (!escrow) {
+      // A concurrent request with the same key funded it first
+      escrow = await escrowsRepository.getByIdempotencyKey(data.idempotencyKey);
+      if (!escrow) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      return escrow;
+    }
+
+    await this.notify('escrow.funded', escrow);
+    return escrow;
+  }
+
+  async getEscrow(partnerId: string, escrowId: string): Promise<Escrow> {
+    const escrow = await escrowsRepository.getById(escrowId);
+    if (!escrow || escrow.partnerId !== partnerId) {
+      throw new Error('Escrow not found');
+    }
+    return escrow;
+  }
+
+  async listEscrows(partnerId: string, status?: Escrow['status'], limit = 50, offset = 0): Promise<Escrow[]> {
+    return await escrowsRepository.listByPartner(partnerId, status, limit, offset);
+  }
+
+  // Record one party's confirmation; the second confirmation releases the funds to the seller
+  async confirmEscrow(partnerId: string, escrowId: string, data: ConfirmEscrow): Promise<Escrow> {
+    const escrow = await this.getEscrow(partnerId, escrowId);
+    this.assertStatus(escrow, ['funded'], `confirmed by the ${data.party}`);
+
+    const alreadyConfirmed = data.party === 'buyer' ? escrow.buyerConfirmedAt : escrow.sellerConfirmedAt;
+    let confirmed = escrow;
+    if (!alreadyConfirmed) {
+      const updated = await escrowsRepository.transition(escrow.id, ['funded'],
+        data.party === 'buyer' ? { buyerConfirmedAt: new Date() } : { sellerConfirmedAt: new Date() });
+      if (!updated) {
+        return this.conflict(escrow.id, `confirmed by the ${data.party}`);
+      }
+      confirmed = updated;
+      await this.notify('escrow.confirmed', confirmed, { party: data.party });
+    }
+
+    if (confirmed.buyerConfirmedAt && confirmed.sellerConfirmedAt) {
+      return await this.settle(confirmed, 'release', ['funded'], 'Confirmed by buyer and seller');
+    }
+    return confirmed;
+  }
+
+  // Either party can dispute a funded escrow; it then stays put until resolved
+  async disputeEscrow(partnerId: string, escrowId: string, data: DisputeEscrow): Promise<Escrow> {
+    const escrow = await this.getEscrow(partnerId, escrowId);
+    this.assertStatus(escrow, ['funded'], 'disputed');
+
+    const disputed = await escrowsRepository.transition(escrow.id, ['funded'], {
+      status: 'disputed',
+      disputedAt: new Date(),
+      disputeReason: data.reason,
+    });
+    if (!disputed) {
+      return this.conflict(escrow.id, 'disputed');
+    }
+
+    await this.notify('escrow.disputed', disputed, { reason: data.reason });
+    return disputed;
+  }
+
+  async resolveEscrow(partnerId: string, escrowId: string, data: ResolveEscrow): Promise<Escrow> {
+    const escrow = await this.getEscrow(partnerId, escrowId);
+    this.assertStatus(escrow, ['disputed'], 'resolved');
+    return await this.settle(escrow, data.outcome, ['disputed'], data.note || null);
+  }
+
+  // Release every funded escrow past its deadline (for a scheduled job). One failure, such as a
+  // suspended seller wallet, does not stop the rest.
+  async releaseDueEscrows(): Promise<{ released: number; failed: number }> {
+    const due = await escrowsRepository.listDueForRelease(new Date());
+    let released = 0;
+    let failed = 0;
+    for (const escrow of due) {
+      try {
+        await this.settle(escrow, 'release', ['funded'], 'Release deadline passed');
+        released++;
+      } catch (error) {
+        console.error(`Auto-release failed for escrow ${escrow.id}:`, error);
+        failed++;
+      }
+    }
+    return { released, failed };
+  }
+
+  // Pay the escrowed amount out of the escrow account and close the escrow in the same posting
+  private async settle(escrow: Escrow, outcome: EscrowOutcome, from: Escrow['status'][], note: string | null): Promise<Escrow> {
+    const status = outcome === 'release' ? 'released' : 'refunded';
+    let settled: Escrow | undefined;
+    await transactionService.createTransaction(escrow.partnerId, {
+      type: 'credit',
+      amount: escrow.amount,
+      currency: escrow.currency,
+      description: outcome === 'release'
+        ? `Escrow release for deal ${escrow.dealReference}`
+        : `Escrow refund for deal ${escrow.dealReference}`,
+      toWalletId: outcome === 'release' ? escrow.sellerWalletId : escrow.buyerWalletId,
+      // One payout per escrow and outcome, however often it is retried
+      idempotencyKey: `escrow-${outcome}:${escrow.id}`,
+      metadata: { escrow: { escrowId: escrow.id, dealReference: escrow.dealReference, outcome } },
+    }, {
+      operation: 'escrow',
+      afterPost: async (transaction, tx) => {
+        settled = await escrowsRepository.transition(escrow.id, from, {
+          status,
+          resolutionNote: note,
+          settlementTransactionId: transaction.id,
+        }, tx);
+        if (!settled) {
+          // Rolls the payout back with it
+          await this.conflict(escrow.id, outcome === 'release' ? 'released' : 'refunded');
+        }
+      },
+    });
+
+    if (!settled) {
+      // Already paid out by an earlier attempt with the same key
+      return (await escrowsRepository.getById(escrow.id))!;
+    }
+
+    await this.notify(outcome === 'release' ? 'escrow.released' : 'escrow.refunded', settled, { note });
+    return settled;
+  }
+
+  private assertStatus(escrow: Escrow, allowed: Escrow['status'][], action: string) {
+    if (!allowed.includes(escrow.status)) {
+      throw new ApiError(`Escrow is ${escrow.status} and cannot be ${action}`, 409, 'INVALID_ESCROW_STATUS', {
+        escrowId: escrow.id,
+        status: escrow.status,
+      });
+    }
+  }
+
+  private async conflict(escrowId: string, action: string): Promise<never> {
+    const current = await escrowsRepository.getById(escrowId);
+    throw new ApiError(`Escrow is ${current?.status} and cannot be ${action}`, 409, 'INVALID_ESCROW_STATUS', {
+      escrowId,
+      status: current?.status,
+    });
+  }
+
+  private async notify(event: string, escrow: Escrow, extra: Record<string, unknown> = {}) {
+    await webhookService.handlePartnerWebhook(escrow.partnerId, event, {
+      escrowId: escrow.id,
+      dealReference: escrow.dealReference,
+      status: escrow.status,
+      amount: escrow.amount,
+      currency: escrow.currency,
+      buyerWalletId: escrow.buyerWalletId,
+      sellerWalletId: escrow.sellerWalletId,
+      transactionId: escrow.settlementTransactionId || escrow.fundingTransactionId,
+      ...extra,
+    });
+  }
+}
+
+export const escrowService = new EscrowService();
@@ -0,0 +1,101 @@
+import { feeSchedulesRepository, partnersRepository } from "../repositories";
+import type { FeeBreakdown, FeeOperation, FeeSchedule, UpsertFeeSchedule } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, addMoney, compareMoney, convertMoney, zeroMoney } from "@shared/money";
+
+export interface AppliedFee {
+  amount: Money;
+  breakdown: FeeBreakdown;
+}
+
+// Operations where the fee comes out of incoming money rather than on top of outgoing money
+const INBOUND_OPERATIONS: FeeOperation[] = ['credit', 'funding'];
+
+// "1.5" (percent) -> "0.015", the rate form convertMoney expects
+function percentToRate(percentage: string): string {
+  const [whole, fraction = ''] = percentage.split('.');
+  const digits = (whole + fraction).padStart(fraction.length + 3, '0');
+  const point = digits.length - fraction.length - 2;
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Per-partner fees by operation and currency. A fee is a fixed part plus a percentage of the
+ * transaction amount (both taken from the matching tier when the schedule is tiered), then
+ * clamped to the schedule's minimum and maximum. The percentage part is rounded half-up once.
+ */
+export class FeeService {
+  async listSchedules(partnerId: string): Promise<FeeSchedule[]> {
+    return await feeSchedulesRepository.listByPartner(partnerId);
+  }
+
+  async upsertSchedule(partnerId: string, data: UpsertFeeSchedule): Promise<FeeSchedule> {
+    const partner = await partnersRepository.getById(partnerId);
+    if (!partner) {
+      throw new Error('Partner not found');
+    }
+    return await feeSchedulesRepository.upsert(partnerId, data);
+  }
+
+  async calculateFee(partnerId: string, operation: FeeOperation, amount: Money, chargedWalletId: string): Promise<AppliedFee | undefined> {
+    const schedule = await feeSchedulesRepository.getActive(partnerId, operation, amount.currency);
+    return schedule ? this.computeFee(schedule, amount, chargedWalletId) : undefined;
+  }
+
+  computeFee(schedule: FeeSchedule, amount: Money, chargedWalletId: string): AppliedFee | undefined {
+    const currency = amount.currency;
+    const tier = this.findTier(schedule, amount);
+
+    const fixed = parseMoney(tier ? tier.fixedAmount || '0' : schedule.fixedAmount, currency);
+    const percentage = tier ? tier.percentage || '0' : schedule.percentage;
+    const percentageAmount = convertMoney(amount, percentToRate(percentage), currency);
+
+    let fee = addMoney(fixed, percentageAmount);
+    let minimumApplied = false;
+    let maximumApplied = false;
+    if (schedule.minimumFee && compareMoney(fee, parseMoney(schedule.minimumFee, currency)) < 0) {
+      fee = parseMoney(schedule.minimumFee, currency);
+      minimumApplied = true;
+    }
+    if (schedule.maximumFee && compareMoney(fee, parseMoney(schedule.maximumFee, currency)) > 0) {
+      fee = parseMoney(schedule.maximumFee, currency);
+      maximumApplied = true;
+    }
+
+    // An inbound fee can take at most the whole amount, never push the wallet below where it started
+    if (INBOUND_OPERATIONS.includes(schedule.operation) && compareMoney(fee, amount) > 0) {
+      fee = amount;
+      maximumApplied = true;
+    }
+
+    if (compareMoney(fee, zeroMoney(currency)) <= 0) {
+      return undefined;
+    }
+
+    return {
+      amount: fee,
+      breakdown: {
+        scheduleId: schedule.id,
+        operation: schedule.operation,
+        amount: formatMoney(fee),
+        currency,
+        fixedAmount: formatMoney(fixed),
+        percentage,
+        percentageAmount: formatMoney(percentageAmount),
+        ...(tier ? { tierUpTo: tier.upTo } : {}),
+        minimumApplied,
+        maximumApplied,
+        chargedWalletId,
+      },
+    };
+  }
+
+  // First tier whose bound covers the amount; amounts above every bound use the last tier
+  private findTier(schedule: FeeSchedule, amount: Money) {
+    const tiers = schedule.tiers || [];
+    if (tiers.length === 0) return undefined;
+    return tiers.find(tier => tier.upTo === null || compareMoney(amount, parseMoney(tier.upTo, amount.currency)) <= 0)
+      || tiers[tiers.length - 1];
+  }
+}
+
+export const feeService = new FeeService();
@@ -1,14 +1,40 @@
-import { fundingSessionsRepository, walletsRepository } from "../repositories";
+import { fundingSessionsRepository, walletsRepository, transactionsRepository } from "../repositories";
 import { stripeAdapter } from "../adapters/stripe-adapter";
-import { walletService } from "./wallet";
-import type { CreateFundingSession, FundingSession } from "@shared/schema";
+import { webhookService } from "./webhook";
+import { transactionService } from "./transaction";
+import { ApiError, WalletNotActiveError } from "../errors";
+import type { CreateFundingSession, FundingSession, Transaction, VoidTransaction } from "@shared/schema";
+import { parseMoney, formatMoney } from "@shared/money";
 import crypto from 'crypto';
 
+// Funding sessions are always paid through Stripe; events from other gateways never touch them
+export const FUNDING_GATEWAY = 'stripe';
+
+// How long a card authorization can be captured for; Stripe releases uncaptured card
+// authorizations after seven days
+const AUTHORIZATION_VALIDITY_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Wallet funding through card payments. In automatic capture mode the card is charged when the
+ * customer pays. In manual mode the payment only authorizes the card; the partner captures it
+ * later (e.g. when a ROSCA round closes) or voids it, and the wallet is credited only on capture.
+ *
+ *   created --paid--> completed                                     automatic
+ *   created --authorized--> authorized --capture--> completed       manual
+ *   authorized --void--> voided,  authorized --lapses--> expired
+ *   created --payment fails--> failed --customer retries--> completed | authorized
+ *   created | failed --deadline passes--> expired                   the credit is voided
+ */
 export class FundingService {
   private generateSessionId(): string {
     return `session_${crypto.randomBytes(16).toString('hex')}`;
   }
 
+  // Idempotency key of the pending credit recorded for a funding session
+  private fundingTransactionKey(sessionId: string): string {
+    return `funding:${sessionId}`;
+  }
+
   async createFundingSession(
     partnerId: string, 
     walletId: string, 
@@ -19,21 +45,48 @@ export class FundingService {
     if (!wallet || wallet.partnerId !== partnerId) {
       throw new Error('Wallet not found or access denied');
     }
+    if (wallet.status !== 'active') {
+      throw new WalletNotActiveError(wallet.id, wallet.status);
+    }
 
-    // Create Stripe Payment Intent
-    const paymentIntent = await stripeAdapter.createPaymentIntentFromNumber(
-      data.amount,
-      data.currency || 'USD',
-      {
-        wallet_id: walletId,
-        partner_id: partnerId,
-        session_type: 'funding',
-        ...data.metadata
-      }
-    );
+    // Without a currency the session is paid in the wallet's; parsing rejects anything finer
+    // than the currency allows
+    const amount = parseMoney(data.amount, data.currency || wallet.currency);
+    if (amount.currency !== wallet.currency) {
+      throw new Error(`Currency mismatch: wallet holds ${wallet.currency}, funding is ${amount.currency}`);
+    }
 
-    // Generate session ID and expiration time
+    // Record the credit as pending before the customer pays, which also refuses it up front if
+    // it would break a wallet limit. It is settled when the payment succeeds.
     const sessionId = this.generateSessionId();
+    const pending = await transactionService.createTransaction(partnerId, {
+      type: 'credit',
+      amount: formatMoney(amount),
+      currency: amount.currency,
+      description: 'Wallet funding via payment gateway',
+      toWalletId: walletId,
+      idempotencyKey: this.fundingTransactionKey(sessionId),
+    }, { operation: 'funding', fee: 'funding', enforceLimits: true, pending: true, owner: 'funding' });
+
+    // Create Stripe Payment Intent
+    let paymentIntent;
+    try {
+      paymentIntent = await stripeAdapter.createPaymentIntent(
+        amount,
+        {
+          wallet_id: walletId,
+          partner_id: partnerId,
+          session_type: 'funding',
+          ...data.metadata
+        },
+        data.captureMode
+      );
+    } catch (error) {
+      await transactionService.voidTransaction(partnerId, pending.id, { reason: 'Payment intent could not be created' }, { owner: 'funding' });
+      throw error;
+    }
+
+    // Expiration time
     const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes from now
 
     // Store funding session in database
@@ -41,9 +94,10 @@ export class FundingService {
       id: sessionId,
       walletId,
       paymentIntentId: paymentIntent.id,
-      amount: data.amount.toString(),
-      currency: data.currency || 'USD',
+      amount: formatMoney(amount),
+      currency: amount.currency,
       status: 'created',
+      captureMode: data.captureMode,
       successUrl: data.successUrl || null,
       cancelUrl: data.cancelUrl || null,
       expiresAt,
@@ -57,6 +111,16 @@ export class FundingService {
     return await fundingSessionsRepository.getById(sessionId);
   }
 
+  // The completed credit a session paid into its wallet: the pending credit it was created with,
+  // or the one recorded if that had been voided before the payment arrived
+  async getCompletedCredit(session: FundingSession): Promise<Transaction | undefined> {
+    for (const key of [this.fundingTransactionKey(session.id), session.paymentIntentId]) {
+      const transaction = await transactionsRepository.getByIdempotencyKey(key);
+      if (transaction?.status === 'completed') return transaction;
+    }
+    return undefined;
+  }
+
   async processFundingSuccess(paymentIntentId: string): Promise<void> {
     // Find the funding session by payment intent ID
     const session = await fundingSessionsRepository.getByPaymentIntentId(paymentIntentId);
@@ -64,6 +128,10 @@ export class FundingService {
       console.warn(`No funding session found for payment intent ${paymentIntentId}`);
       return;
     }
+    // Captured through the API already, or a redelivered webhook
+    if (session.status === 'completed') {
+      return;
+    }
 
     // Get wallet to determine partner
     const wallet = await walletsRepository.getById(session.walletId);
@@ -72,33 +140,229 @@ export class FundingService {
       return;
     }
 
-    try {
-      // Credit the wallet
-      await walletService.creditWallet(wallet.partnerId, {
-        walletId: session.walletId,
+    // Settle the pending credit; a funding fee, if the partner has one, is deducted in the same
+    // posting. Sessions created before credits were recorded as pending, and sessions whose
+    // credit was voided when they expired but were paid after all, are credited directly.
+    // The card has been charged, so the wallet is credited even if it was suspended or closed
+    // since checkout. If posting fails the session keeps its status and the gateway event is
+    // retried; it is never marked failed.
+    const pending = await transactionsRepository.getByIdempotencyKey(this.fundingTransactionKey(session.id));
+    const transaction = pending && pending.status !== 'cancelled'
+      ? await transactionService.settleTransaction(wallet.partnerId, pending.id, { owner: 'funding', allowInactiveWalletIds: [wallet.id] })
+      : await transactionService.createTransaction(wallet.partnerId, {
+        type: 'credit',
         amount: session.amount,
         currency: session.currency,
         description: 'Wallet funding via payment gateway',
+        toWalletId: session.walletId,
         idempotencyKey: paymentIntentId // Use payment intent ID as idempotency key
-      });
+      }, { operation: 'funding', fee: 'funding', allowInactiveWalletIds: [wallet.id] });
 
-      // Update session status to completed
-      await fundingSessionsRepository.updateStatus(session.id, 'completed');
+    // Update session status to completed
+    await fundingSessionsRepository.transition(session.id, [session.status], { status: 'completed', capturedAt: new Date() });
 
-      console.log(`Successfully processed funding for wallet ${session.walletId}, amount: ${session.amount} ${session.currency}`);
-    } catch (error) {
-      console.error(`Failed to process funding for session ${session.id}:`, error);
-      
-      // Update session status to failed
-      await fundingSessionsRepository.updateStatus(session.id, 'failed');
-      throw error;
+    await webhookService.handlePartnerWebhook(wallet.partnerId, 'transaction.completed', {
+      transactionId: transaction.id,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      fee: transaction.fee,
+      walletId: wallet.id,
+      externalWalletId: wallet.externalWalletId
+    });
+
+    console.log(`Successfully processed funding for wallet ${session.walletId}, amount: ${session.amount} ${session.currency}`);
+  }
+
+  // An unpaid session past its deadline expires. Its payment intent is cancelled so the customer
+  // can no longer pay it, and the credit recorded for it is voided. A payment that gets through
+  // anyway is still credited (see processFundingSuccess).
+  async expireSession(sessionId: string): Promise<FundingSession | null> {
+    const expired = await fundingSessionsRepository.transition(sessionId, ['created', 'active', 'failed'], { status: 'expired' });
+    if (expired) {
+      await this.releaseExpiredSession(expired);
     }
+    return expired;
+  }
+
+  // Expire every unpaid session past its deadline (for a scheduled job)
+  async markExpiredSessions(): Promise<number> {
+    const expired = await fundingSessionsRepository.markExpiredSessions();
+    for (const session of expired) {
+      await this.releaseExpiredSession(session);
+    }
+    return expired.length;
+  }
+
+  private async releaseExpiredSession(session: FundingSession) {
+    await this.cancelPaymentIntent(session);
+    await this.voidPendingCredit(session.id, 'Funding session expired');
   }
 
+  // A payment attempt failed. The customer can still retry with another card until the session
+  // expires, so the pending credit stays in place; it is voided on expiry or cancellation.
   async markSessionFailed(sessionId: string): Promise<void> {
     await fundingSessionsRepository.updateStatus(sessionId, 'failed');
   }
 
+  // The card of a manual-capture session was authorized; it can be captured until the
+  // authorization lapses
+  async processAuthorization(paymentIntentId: string): Promise<void> {
+    const session = await fundingSessionsRepository.getByPaymentIntentId(paymentIntentId);
+    if (!session || session.captureMode !== 'manual') {
+      return;
+    }
+
+    const authorizedAt = new Date();
+    const authorized = await fundingSessionsRepository.transition(session.id, ['created', 'active', 'failed'], {
+      status: 'authorized',
+      authorizedAt,
+      authorizationExpiresAt: new Date(authorizedAt.getTime() + AUTHORIZATION_VALIDITY_MS),
+    });
+    if (authorized) {
+      await this.notify('funding.authorized', authorized);
+    }
+  }
+
+  // Capture an authorized manual-capture session and credit the wallet
+  async captureFundingSession(partnerId: string, sessionId: string): Promise<FundingSession> {
+    const session = await this.getPartnerSession(partnerId, sessionId);
+    this.assertManualCapture(session);
+    if (session.status === 'completed') {
+      return session;
+    }
+    this.assertStatus(session, ['authorized'], 'captured');
+    if (session.authorizationExpiresAt && session.authorizationExpiresAt <= new Date()) {
+      await this.cancelPaymentIntent(session);
+      await this.releaseAuthorization(session, 'expired', 'Card authorization expired');
+      throw new ApiError('Card authorization has expired', 409, 'AUTHORIZATION_EXPIRED', {
+        sessionId: session.id,
+        authorizationExpiresAt: session.authorizationExpiresAt,
+      });
+    }
+
+    await stripeAdapter.capturePayment(session.paymentIntentId);
+    await this.processFundingSuccess(session.paymentIntentId);
+    return (await fundingSessionsRepository.getById(session.id))!;
+  }
+
+  // Release an authorized manual-capture session without charging the card
+  async voidFundingSession(partnerId: string, sessionId: string, data: VoidTransaction = {}): Promise<FundingSession> {
+    const session = await this.getPartnerSession(partnerId, sessionId);
+    this.assertManualCapture(session);
+    if (session.status === 'voided') {
+      return session;
+    }
+    this.assertStatus(session, ['authorized'], 'voided');
+
+    await stripeAdapter.cancelPayment(session.paymentIntentId);
+    return await this.releaseAuthorization(session, 'voided', data.reason || 'Authorization voided');
+  }
+
+  // The gateway cancelled the payment intent: before payment the session fails; an uncaptured
+  // authorization is released, e.g. when it lapsed
+  async processCancellation(paymentIntentId: string, cancellationReason?: string): Promise<void> {
+    const session = await fundingSessionsRepository.getByPaymentIntentId(paymentIntentId);
+    if (session?.status === 'created' || session?.status === 'active' || session?.status === 'failed') {
+      await this.markSessionFailed(session.id);
+      await this.voidPendingCredit(session.id, 'Payment cancelled');
+      return;
+    }
+    if (!session || session.status !== 'authorized') {
+      return;
+    }
+    const lapsed = cancellationReason === 'automatic';
+    await this.releaseAuthorization(session, lapsed ? 'expired' : 'voided', lapsed ? 'Card authorization expired' : 'Authorization cancelled');
+  }
+
+  // Expire every authorization past its capture deadline (for a scheduled job). One failure does
+  // not stop the rest.
+  async expireAuthorizations(): Promise<{ expired: number; failed: number }> {
+    const due = await fundingSessionsRepository.listExpiredAuthorizations(new Date());
+    let expired = 0;
+    let failed = 0;
+    for (const session of due) {
+      try {
+        await this.cancelPaymentIntent(session);
+        await this.releaseAuthorization(session, 'expired', 'Card authorization expired');
+        expired++;
+      } catch (error) {
+        console.error(`Expiring authorization of funding session ${session.id} failed:`, error);
+        failed++;
+      }
+    }
+    return { expired, failed };
+  }
+
+  // Cancel an expired session's payment intent or a lapsed authorization at the gateway, so it
+  // cannot be paid later and the card is not left on hold there
+  private async cancelPaymentIntent(session: FundingSession) {
+    try {
+      await stripeAdapter.cancelPayment(session.paymentIntentId);
+    } catch (error) {
+      // The gateway may have released it already, or the customer paid in the meantime
+      console.warn(`Cancelling payment intent ${session.paymentIntentId} failed:`, error);
+    }
+  }
+
+  private async releaseAuthorization(session: FundingSession, status: 'voided' | 'expired', reason: string): Promise<FundingSession> {
+    const released = await fundingSessionsRepository.transition(session.id, ['authorized'], { status });
+    if (!released) {
+      return (await fundingSessionsRepository.getById(session.id))!;
+    }
+    await this.voidPendingCredit(session.id, reason);
+    await this.notify(status === 'voided' ? 'funding.voided' : 'funding.authorization_expired', released, { reason });
+    return released;
+  }
+
+  private async voidPendingCredit(sessionId: string, reason: string) {
+    const pending = await transactionsRepository.getByIdempotencyKey(this.fundingTransactionKey(sessionId));
+    const wallet = pending?.status === 'pending' && pending.toWalletId
+      ? await walletsRepository.getById(pending.toWalletId)
+      : undefined;
+    if (pending && wallet) {
+      await transactionService.voidTransaction(wallet.partnerId, pending.id, { reason }, { owner: 'funding' });
+    }
+  }
+
+  private async getPartnerSession(partnerId: string, sessionId: string): Promise<FundingSession> {
+    const session = await fundingSessionsRepository.getById(sessionId);
+    const wallet = session ? await walletsRepository.getById(session.walletId) : undefined;
+    if (!session || !wallet || wallet.partnerId !== partnerId) {
+      throw new Error('Funding session not found');
+    }
+    return session;
+  }
+
+  private assertManualCapture(session: FundingSession) {
+    if (session.captureMode !== 'manual') {
+      throw new ApiError('Funding session is captured automatically', 409, 'NOT_MANUAL_CAPTURE', { sessionId: session.id });
+    }
+  }
+
+  private assertStatus(session: FundingSession, allowed: FundingSession['status'][], action: string) {
+    if (!allowed.includes(session.status)) {
+      throw new ApiError(`Funding session is ${session.status} and cannot be ${action}`, 409, 'INVALID_FUNDING_SESSION_STATUS', {
+        sessionId: session.id,
+        status: session.status,
+      });
+    }
+  }
+
+  private async notify(event: string, session: FundingSession, extra: Record<string, unknown> = {}) {
+    const wallet = await walletsRepository.getById(session.walletId);
+    if (!wallet) return;
+    await webhookService.handlePartnerWebhook(wallet.partnerId, event, {
+      sessionId: session.id,
+      walletId: wallet.id,
+      externalWalletId: wallet.externalWalletId,
+      status: session.status,
+      amount: session.amount,
+      currency: session.currency,
+      authorizationExpiresAt: session.authorizationExpiresAt,
+      ...extra,
+    });
+  }
+
   // Helper method to get payment URL for frontend
   getPaymentUrl(sessionId: string): string {
     const baseUrl = process.env.PAYFLOW_FRONTEND_URL || 'http://localhost:5173';
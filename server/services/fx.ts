@@ -0,0 +1,145 @@
+import { tableFxRateProvider } from "../adapters/table-fx-provider";
+import { fxQuotesRepository, walletsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { systemAccountService } from "./system-accounts";
+import { walletApprovalService } from "./wallet-approval";
+import { feeService } from "./fee";
+import type { LedgerEntryInput } from "./ledger";
+import type { CreateFxQuote, FxQuote, FxTransfer } from "@shared/schema";
+import { parseMoney, formatMoney, convertMoney } from "@shared/money";
+
+interface FxRateProvider {
+  getRate(baseCurrency: string, quoteCurrency: string): Promise<string | undefined>;
+}
+
+export class FxService {
+  private providers: Map<string, FxRateProvider> = new Map();
+
+  constructor() {
+    this.providers.set('table', tableFxRateProvider);
+  }
+
+  registerProvider(name: string, provider: FxRateProvider) {
+    this.providers.set(name, provider);
+  }
+
+  getProvider(): FxRateProvider {
+    const name = process.env.FX_RATE_PROVIDER || 'table';
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown FX rate provider: ${name}`);
+    }
+    return provider;
+  }
+
+  private getQuoteTtlMs(): number {
+    return parseInt(process.env.FX_QUOTE_TTL_SECONDS || '30', 10) * 1000;
+  }
+
+  async createQuote(partnerId: string, data: CreateFxQuote): Promise<FxQuote> {
+    if (data.fromCurrency === data.toCurrency) {
+      throw new Error('FX quotes require two different currencies');
+    }
+
+    const rate = await this.getProvider().getRate(data.fromCurrency, data.toCurrency);
+    if (!rate) {
+      throw new Error(`No FX rate available for ${data.fromCurrency}/${data.toCurrency}`);
+    }
+
+    const fromAmount = parseMoney(data.amount, data.fromCurrency);
+    const toAmount = convertMoney(fromAmount, rate, data.toCurrency);
+    if (toAmount.amount <= 0) {
+      throw new Error('Amount is too small to convert');
+    }
+
+    // Lock the rate for a short window; the transfer must use the quote before it expires
+    return await fxQuotesRepository.create({
+      partnerId,
+      fromCurrency: fromAmount.currency,
+      toCurrency: toAmount.currency,
+      rate,
+      fromAmount: formatMoney(fromAmount),
+      toAmount: formatMoney(toAmount),
+      expiresAt: new Date(Date.now() + this.getQuoteTtlMs()),
+    });
+  }
+
+  async getQuote(partnerId: string, quoteId: string): Promise<FxQuote> {
+    const quote = await fxQuotesRepository.getById(quoteId);
+    if (!quote || quote.partnerId !== partnerId) {
+      throw new Error('FX quote not found');
+    }
+    return quote;
+  }
+
+  async transfer(partnerId: string, data: FxTransfer) {
+    const quote = await this.getQuote(partnerId, data.quoteId);
+
+    const fromWallet = await walletsRepository.getById(data.fromWalletId);
+    if (!fromWallet || fromWallet.partnerId !== partnerId) {
+      throw new Error('From wallet not found or access denied');
+    }
+    const toWallet = await walletsRepository.getById(data.toWalletId);
+    if (!toWallet || toWallet.partnerId !== partnerId) {
+      throw new Error('To wallet not found or access denied');
+    }
+    if (fromWallet.currency !== quote.fromCurrency || toWallet.currency !== quote.toCurrency) {
+      throw new Error(`Currency mismatch: quote converts ${quote.fromCurrency} to ${quote.toCurrency}`);
+    }
+
+    const fromAmount = parseMoney(quote.fromAmount, quote.fromCurrency);
+    const toAmount = parseMoney(quote.toAmount, quote.toCurrency);
+    await walletApprovalService.assertNotRequired(fromWallet.id, fromAmount);
+    const fromPosition = await systemAccountService.getAccountForOperation(partnerId, 'fx', fromAmount.currency);
+    const toPosition = await systemAccountService.getAccountForOperation(partnerId, 'fx', toAmount.currency);
+    const description = data.description || `FX ${fromAmount.currency} to ${toAmount.currency}`;
+
+    // Each currency balances on its own: the source currency moves into its FX position
+    // wallet and the target currency moves out of the other position wallet.
+    const legs: LedgerEntryInput[] = [
+      { walletId: fromWallet.id, type: 'debit', amount: fromAmount, description },
+      { walletId: fromPosition.id, type: 'credit', amount: fromAmount, description: 'FX position in' },
+      { walletId: toPosition.id, type: 'debit', amount: toAmount, description: 'FX position out' },
+      { walletId: toWallet.id, type: 'credit', amount: toAmount, description },
+    ];
+    const requireFunds = [{ walletId: fromWallet.id, amount: fromAmount }];
+    const limits = await transactionService.limitsForLegs(legs);
+
+    // The FX fee is charged on the source amount, on top of it, in the source currency
+    const fee = await feeService.calculateFee(partnerId, 'fx', fromAmount, fromWallet.id);
+    if (fee) {
+      legs.push(...await transactionService.buildFeeLegs(partnerId, { type: 'transfer', description }, fee));
+      transactionService.addFee(requireFunds, limits, fee);
+    }
+
+    return await transactionService.postTransaction({
+      type: 'transfer',
+      amount: formatMoney(fromAmount),
+      currency: fromAmount.currency,
+      description,
+      fee: fee?.breakdown,
+      fromWalletId: fromWallet.id,
+      toWalletId: toWallet.id,
+      idempotencyKey: data.idempotencyKey,
+      metadata: {
+        fx: {
+          quoteId: quote.id,
+          rate: quote.rate,
+          toAmount: formatMoney(toAmount),
+          toCurrency: toAmount.currency,
+        }
+      },
+    }, legs, {
+      requireFunds,
+      limits,
+      afterPost: async (transaction, tx) => {
+        const usedQuote = await fxQuotesRepository.markUsed(quote.id, transaction.id, tx);
+        if (!usedQuote) {
+          throw new Error('FX quote has expired or was already used');
+        }
+      },
+    });
+  }
+}
+
+export const fxService = new FxService();
@@ -0,0 +1,168 @@
+import { fundingSessionsRepository, gatewayTransactionsRepository, transactionsRepository, walletsRepository } from "../repositories";
+import { fundingService, FUNDING_GATEWAY } from "./funding";
+import { transactionService } from "./transaction";
+import { payoutService } from "./payout";
+import { refundService } from "./refund";
+import { disputeService } from "./dispute";
+import { paymentGatewayService } from "./payment-gateway";
+import { webhookService } from "./webhook";
+import type { GatewayEvent, Transaction, Wallet } from "@shared/schema";
+import { fromMinorUnits } from "@shared/money";
+
+// Acts on one gateway event; object is the event's data.object
+export type GatewayEventHandler = (gateway: string, object: any, event: GatewayEvent) => Promise<void>;
+
+async function paymentIntentSucceeded(gateway: string, paymentIntent: any, event: GatewayEvent) {
+  const metadata = paymentIntent.metadata || {};
+
+  // Funding sessions settle their pending credit
+  if (metadata.session_type === 'funding') {
+    if (isFundingGateway(gateway, paymentIntent)) {
+      await fundingService.processFundingSuccess(paymentIntent.id);
+    }
+    return;
+  }
+
+  const transaction = await gatewayTransaction(gateway, metadata.transactionId);
+  await gatewayTransactionsRepository.create({
+    gatewayTransactionId: paymentIntent.id,
+    gateway,
+    status: 'completed',
+    amount: fromMinorUnits(paymentIntent.amount_received, paymentIntent.currency), // Stripe sends minor units
+    currency: paymentIntent.currency.toUpperCase(),
+    webhookData: event.payload,
+    transactionId: transaction?.id
+  });
+  const owner = transaction ? await transactionOwner(transaction.toWalletId || transaction.fromWalletId) : undefined;
+  if (!transaction || !owner) {
+    return;
+  }
+
+  // Pending credits paid through this gateway are settled, which posts their ledger legs
+  await transactionsRepository.update(transaction.id, { gatewayTransactionId: paymentIntent.id });
+  const completed = await transactionService.settleTransaction(owner.partnerId, transaction.id);
+  await webhookService.handlePartnerWebhook(owner.partnerId, 'transaction.completed', {
+    transactionId: completed.id,
+    amount: completed.amount,
+    currency: completed.currency,
+    fee: completed.fee,
+    walletId: owner.id,
+    externalWalletId: owner.externalWalletId
+  });
+}
+
+// The payment will not arrive: fail the funding session, or void the transaction waiting on it
+async function paymentIntentFailed(gateway: string, paymentIntent: any, event: GatewayEvent) {
+  const metadata = paymentIntent.metadata || {};
+  if (metadata.session_type === 'funding') {
+    const session = isFundingGateway(gateway, paymentIntent)
+      ? await fundingSessionsRepository.getByPaymentIntentId(paymentIntent.id)
+      : undefined;
+    if (session && session.status !== 'completed') {
+      await fundingService.markSessionFailed(session.id);
+    }
+    return;
+  }
+  await voidPendingTransaction(gateway, metadata.transactionId, paymentIntent.last_payment_error?.message || 'Payment failed');
+}
+
+async function paymentIntentCanceled(gateway: string, paymentIntent: any, event: GatewayEvent) {
+  const metadata = paymentIntent.metadata || {};
+  if (metadata.session_type === 'funding') {
+    if (isFundingGateway(gateway, paymentIntent)) {
+      await fundingService.processCancellation(paymentIntent.id, paymentIntent.cancellation_reason);
+    }
+    return;
+  }
+  await voidPendingTransaction(gateway, metadata.transactionId, 'Payment cancelled');
+}
+
+// A manual-capture funding session's card was authorized
+async function paymentIntentAuthorized(gateway: string, paymentIntent: any, event: GatewayEvent) {
+  if (paymentIntent.metadata?.session_type === 'funding' && isFundingGateway(gateway, paymentIntent)) {
+    await fundingService.processAuthorization(paymentIntent.id);
+  }
+}
+
+// The charge no longer lists its refunds (Stripe stopped expanding charge.refunds), so they are
+// fetched for the payment and each one made through the refund API is brought up to date
+async function chargeRefunded(gateway: string, charge: any, event: GatewayEvent) {
+  if (!charge.payment_intent) return;
+  const refunds = await paymentGatewayService.getAdapter(gateway).listRefunds(charge.payment_intent);
+  for (const refund of refunds) {
+    await refundService.handleGatewayRefund(gateway, refund);
+  }
+}
+
+async function refundUpdated(gateway: string, refund: any, event: GatewayEvent) {
+  await refundService.handleGatewayRefund(gateway, refund);
+}
+
+async function payoutPaid(gateway: string, payout: any, event: GatewayEvent) {
+  await payoutService.handleGatewayPaid(gateway, payout);
+}
+
+async function payoutFailed(gateway: string, payout: any, event: GatewayEvent) {
+  await payoutService.handleGatewayFailure(gateway, payout, event.type);
+}
+
+async function transferReversed(gateway: string, transfer: any, event: GatewayEvent) {
+  await payoutService.handleTransferReversal(gateway, transfer);
+}
+
+// Withdrawn and reinstated dispute funds move between the wallet and suspense; every dispute
+// event is passed on to the partner
+async function disputeUpdated(gateway: string, dispute: any, event: GatewayEvent) {
+  await disputeService.handleGatewayDispute(gateway, dispute, event.type);
+}
+
+async function voidPendingTransaction(gateway: string, transactionId: string | undefined, reason: string) {
+  const pending = await gatewayTransaction(gateway, transactionId);
+  const owner = pending?.status === 'pending' ? await transactionOwner(pending.toWalletId || pending.fromWalletId) : undefined;
+  if (pending && owner) {
+    await transactionService.voidTransaction(owner.partnerId, pending.id, { reason });
+  }
+}
+
+// Funding sessions only take payment events from the gateway they were paid through
+function isFundingGateway(gateway: string, paymentIntent: any): boolean {
+  if (gateway !== FUNDING_GATEWAY) {
+    console.warn(`Ignoring ${gateway} event for funding payment ${paymentIntent.id}; funding sessions are paid through ${FUNDING_GATEWAY}`);
+    return false;
+  }
+  return true;
+}
+
+// The transaction a payment names in its metadata, if it is a pending credit created to be paid
+// through this gateway. Any other transaction, including the system's own reservations, is left alone.
+async function gatewayTransaction(gateway: string, transactionId: string | undefined): Promise<Transaction | undefined> {
+  const transaction = transactionId ? await transactionsRepository.getById(transactionId) : undefined;
+  return transaction?.gateway === gateway ? transaction : undefined;
+}
+
+async function transactionOwner(walletId: string | null | undefined): Promise<Wallet | undefined> {
+  return walletId ? await walletsRepository.getById(walletId) : undefined;
+}
+
+// Stripe events by type
+export const stripeEventHandlers: Record<string, GatewayEventHandler> = {
+  'payment_intent.succeeded': paymentIntentSucceeded,
+  'payment_intent.payment_failed': paymentIntentFailed,
+  'payment_intent.canceled': paymentIntentCanceled,
+  'payment_intent.amount_capturable_updated': paymentIntentAuthorized,
+  'charge.refunded': chargeRefunded,
+  'charge.refund.updated': refundUpdated,
+  'refund.created': refundUpdated,
+  'refund.updated': refundUpdated,
+  'refund.failed': refundUpdated,
+  'payout.paid': payoutPaid,
+  'payout.failed': payoutFailed,
+  'payout.canceled': payoutFailed,
+  // Transfers are paid when created; a full reversal sends the money back
+  'transfer.reversed': transferReversed,
+  'charge.dispute.created': disputeUpdated,
+  'charge.dispute.updated': disputeUpdated,
+  'charge.dispute.closed': disputeUpdated,
+  'charge.dispute.funds_withdrawn': disputeUpdated,
+  'charge.dispute.funds_reinstated': disputeUpdated,
+};
@@ -0,0 +1,126 @@
+import { gatewayEventsRepository } from "../repositories";
+import { stripeEventHandlers, type GatewayEventHandler } from "./gateway-event-handlers";
+import { ApiError } from "../errors";
+import type { GatewayEvent } from "@shared/schema";
+
+/**
+ * Inbound gateway events. Every verified event is stored under its gateway event id before it is
+ * processed, so a redelivery of a processed event is acknowledged without acting on it twice. A
+ * worker claims an event by moving it to processing, so concurrent deliveries of the same event
+ * do not both process it. Failed events are retried on the gateway's next delivery or
+ * re-processed by an admin from the stored payload.
+ *
+ * An attempt still processing after PROCESSING_TIMEOUT_MS is taken to have died with its worker,
+ * and the event can be claimed again.
+ *
+ *   received --> processing --> processed
+ *                           --> failed --redelivery / reprocess--> processing
+ *                processing --timed out, redelivery / reprocess--> processing
+ */
+// How long an attempt may run before the event can be claimed again
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class GatewayEventService {
+  async receive(gateway: string, event: { id: string; type: string }): Promise<GatewayEvent> {
+    const { event: stored } = await gatewayEventsRepository.record({
+      gateway: gateway as GatewayEvent['gateway'],
+      eventId: event.id,
+      type: event.type,
+      payload: event,
+    });
+    return await this.process(stored);
+  }
+
+  async getEvent(id: string): Promise<GatewayEvent> {
+    const event = await gatewayEventsRepository.getById(id);
+    if (!event) {
+      throw new Error('Gateway event not found');
+    }
+    return event;
+  }
+
+  async listEvents(filters: { gateway?: GatewayEvent['gateway']; status?: GatewayEvent['status']; type?: string }, limit = 50, offset = 0) {
+    return await gatewayEventsRepository.list(filters, limit, offset);
+  }
+
+  // Run a failed, unprocessed or stuck event again from its stored payload
+  async reprocess(id: string): Promise<GatewayEvent> {
+    const event = await this.getEvent(id);
+    if (event.status === 'processed' || (event.status === 'processing' && !this.isStale(event))) {
+      throw new ApiError(`Gateway event is ${event.status} and cannot be re-processed`, 409, 'INVALID_GATEWAY_EVENT_STATUS', {
+        gatewayEventId: event.id,
+        status: event.status,
+        processingStartedAt: event.processingStartedAt,
+      });
+    }
+    return await this.process(event);
+  }
+
+  // Processes the event unless it was processed already or another delivery is working on it
+  private async process(event: GatewayEvent): Promise<GatewayEvent> {
+    const claimed = await gatewayEventsRepository.claim(event.id, this.staleBefore());
+    if (!claimed) {
+      return (await gatewayEventsRepository.getById(event.id))!;
+    }
+
+    let finished: GatewayEvent | undefined;
+    try {
+      await this.dispatch(claimed);
+    } catch (error) {
+      console.error(`Processing ${claimed.gateway} event ${claimed.eventId} failed:`, error);
+      finished = await gatewayEventsRepository.transition(claimed.id, ['processing'], {
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      return finished || await this.lostClaim(claimed);
+    }
+
+    finished = await gatewayEventsRepository.transition(claimed.id, ['processing'], {
+      status: 'processed',
+      processedAt: new Date(),
+      lastError: null,
+    });
+    return finished || await this.lostClaim(claimed);
+  }
+
+  // Another worker took this attempt for stale and finished the event first; its outcome stands
+  private async lostClaim(event: GatewayEvent): Promise<GatewayEvent> {
+    console.warn(`${event.gateway} event ${event.eventId} was finished by another attempt`);
+    return (await gatewayEventsRepository.getById(event.id)) || event;
+  }
+
+  private staleBefore(): Date {
+    return new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+  }
+
+  private isStale(event: GatewayEvent): boolean {
+    return !event.processingStartedAt || event.processingStartedAt < this.staleBefore();
+  }
+
+  // Hand the event to its gateway's handler for the event type; other events are acknowledged
+  private async dispatch(event: GatewayEvent) {
+    const handler = this.handlersFor(event.gateway)?.[event.type];
+    if (!handler) {
+      console.log(`Unhandled ${event.gateway} event:`, event.type);
+      return;
+    }
+    const payload = event.payload as { data?: { object?: unknown } };
+    await handler(event.gateway, payload.data?.object, event);
+  }
+
+  // Looked up per event rather than at construction, as the handlers import services that
+  // import this one
+  private handlersFor(gateway: string): Record<string, GatewayEventHandler> | undefined {
+    switch (gateway) {
+      case 'stripe':
+      // The mock gateway sends Stripe-shaped events. The handlers check that the session, payout,
+      // refund or transaction an event names belongs to the gateway that sent it.
+      case 'mock':
+        return stripeEventHandlers;
+      default:
+        return undefined;
+    }
+  }
+}
+
+export const gatewayEventService = new GatewayEventService();
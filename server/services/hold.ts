@@ -0,0 +1,181 @@
+import { holdsRepository, walletsRepository, transactionsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { walletService } from "./wallet";
+import { walletApprovalService } from "./wallet-approval";
+import { subWalletService } from "./sub-wallets";
+import { withTransaction } from "../db";
+import { IdempotencyKeyReusedError, WalletNotActiveError } from "../errors";
+import type { CaptureHold, CreateHold, Wallet, WalletHold } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, addMoney, subtractMoney, compareMoney } from "@shared/money";
+
+export class HoldService {
+  remainingAmount(hold: WalletHold): Money {
+    return subtractMoney(
+      parseMoney(hold.amount, hold.currency),
+      parseMoney(hold.capturedAmount, hold.currency)
+    );
+  }
+
+  async createHold(partnerId: string, data: CreateHold): Promise<WalletHold> {
+    const wallet = await walletService.getPartnerWallet({ partnerId, walletId: data.walletId });
+    if (!wallet) {
+      throw new Error('Wallet not found or access denied');
+    }
+
+    const amount = parseMoney(data.amount, data.currency || wallet.currency);
+    if (wallet.currency !== amount.currency) {
+      throw new Error(`Currency mismatch: wallet holds ${wallet.currency}, hold is ${amount.currency}`);
+    }
+
+    // Keys are unique across partners, so a retry only gets back the hold it placed itself
+    const existing = await holdsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existing) {
+      if (existing.walletId !== wallet.id || compareMoney(parseMoney(existing.amount, existing.currency), amount) !== 0) {
+        throw new IdempotencyKeyReusedError({ idempotencyKey: data.idempotencyKey });
+      }
+      return existing;
+    }
+    // A captured hold debits the wallet, so it falls under the wallet's approval policy
+    await walletApprovalService.assertNotRequired(wallet.id, amount);
+
+    // The wallet lock serializes this check with debits, transfers and other holds. A hold may
+    // only reserve what the wallet could spend, so a sub-wallet is checked against its tree.
+    return await withTransaction(async (tx) => {
+      const lockedWallets = await walletsRepository.lockForUpdate(await subWalletService.withParents([wallet.id], tx), tx);
+      const locked = lockedWallets.find((w: Wallet) => w.id === wallet.id)!;
+      if (locked.status !== 'active') {
+        throw new WalletNotActiveError(locked.id, locked.status);
+      }
+
+      if (!await subWalletService.hasFunds(locked, amount, tx)) {
+        throw new Error('Insufficient balance');
+      }
+
+      return await holdsRepository.create({
+        walletId: wallet.id,
+        amount: formatMoney(amount),
+        currency: amount.currency,
+        description: data.description,
+        idempotencyKey: data.idempotencyKey,
+        expiresAt: data.expiresAt,
+        metadata: data.metadata || {},
+      }, tx);
+    });
+  }
+
+  async getHold(partnerId: string, holdId: string): Promise<WalletHold> {
+    const hold = await holdsRepository.getById(holdId);
+    if (!hold) {
+      throw new Error('Hold not found');
+    }
+
+    const wallet = await walletsRepository.getById(hold.walletId);
+    if (!wallet || wallet.partnerId !== partnerId) {
+      throw new Error('Hold not found');
+    }
+    return hold;
+  }
+
+  async listWalletHolds(partnerId: string, walletId: string, limit = 50, offset = 0) {
+    await walletService.getPartnerWallet({ partnerId, walletId });
+    return await holdsRepository.listByWallet(walletId, limit, offset);
+  }
+
+  /**
+   * Capture all or part of a hold. The captured amount leaves the wallet as a debit to
+   * clearing, or as a transfer when toWalletId is given. Any remainder stays reserved
+   * until it is captured, released or expires.
+   */
+  async captureHold(partnerId: string, holdId: string, data: CaptureHold) {
+    const hold = await this.getHold(partnerId, holdId);
+
+    // A retried request returns its capture; a key already used for anything else is refused
+    const existingTx = await transactionsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existingTx) {
+      if ((existingTx.metadata as Record<string, unknown> | null)?.holdId !== hold.id) {
+        throw new IdempotencyKeyReusedError({ idempotencyKey: data.idempotencyKey });
+      }
+      return existingTx;
+    }
+
+    this.assertCapturable(hold);
+
+    const remaining = this.remainingAmount(hold);
+    const amount = data.amount ? parseMoney(data.amount, hold.currency) : remaining;
+    if (amount.amount <= 0 || compareMoney(amount, remaining) > 0) {
+      throw new Error(`Capture amount must be between 0 and the remaining ${formatMoney(remaining)} ${hold.currency}`);
+    }
+
+    const description = data.description || hold.description || 'Hold capture';
+    return await transactionService.createTransaction(partnerId, {
+      type: data.toWalletId ? 'transfer' : 'debit',
+      amount: formatMoney(amount),
+      currency: hold.currency,
+      description,
+      fromWalletId: hold.walletId,
+      toWalletId: data.toWalletId,
+      idempotencyKey: data.idempotencyKey,
+      metadata: { holdId: hold.id },
+    }, {
+      excludeHoldId: hold.id,
+      fee: 'hold_capture',
+      enforceLimits: true,
+      afterPost: async (_transaction, tx) => {
+        // Re-read under the wallet lock in case the hold changed since the checks above
+        const current = await holdsRepository.getById(hold.id, tx);
+        if (!current) {
+          throw new Error('Hold not found');
+        }
+        this.assertCapturable(current);
+        if (compareMoney(amount, this.remainingAmount(current)) > 0) {
+          throw new Error('Capture amount exceeds the remaining hold');
+        }
+
+        const captured = addMoney(parseMoney(current.capturedAmount, current.currency), amount);
+        const fullyCaptured = compareMoney(captured, parseMoney(current.amount, current.currency)) === 0;
+        await holdsRepository.update(current.id, {
+          capturedAmount: formatMoney(captured),
+          status: fullyCaptured ? 'captured' : 'active',
+        }, tx);
+      },
+    });
+  }
+
+  async releaseHold(partnerId: string, holdId: string): Promise<WalletHold> {
+    const hold = await this.getHold(partnerId, holdId);
+    this.assertNotPendingTransaction(hold);
+
+    return await withTransaction(async (tx) => {
+      await walletsRepository.lockForUpdate([hold.walletId], tx);
+      const current = await holdsRepository.getById(hold.id, tx);
+      if (!current || current.status !== 'active') {
+        throw new Error(`Hold is ${current?.status || 'missing'} and cannot be released`);
+      }
+      return await holdsRepository.update(current.id, { status: 'released' }, tx);
+    });
+  }
+
+  async expireHolds(): Promise<number> {
+    return await holdsRepository.markExpiredHolds();
+  }
+
+  // Holds reserving a pending transaction's funds follow the transaction's settle or void
+  private assertNotPendingTransaction(hold: WalletHold) {
+    const transactionId = (hold.metadata as Record<string, unknown> | null)?.pendingTransactionId;
+    if (transactionId) {
+      throw new Error(`Hold belongs to pending transaction ${transactionId}; settle or void the transaction instead`);
+    }
+  }
+
+  private assertCapturable(hold: WalletHold) {
+    this.assertNotPendingTransaction(hold);
+    if (hold.status !== 'active') {
+      throw new Error(`Hold is ${hold.status} and cannot be captured`);
+    }
+    if (hold.expiresAt && hold.expiresAt <= new Date()) {
+      throw new Error('Hold has expired');
+    }
+  }
+}
+
+export const holdService = new HoldService();
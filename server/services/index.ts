@@ -5,4 +5,11 @@ export { walletService, WalletService } from './wallet';
 export { ledgerService, LedgerService } from './ledger';
 export { paymentGatewayService, PaymentGatewayService } from './payment-gateway';
 export { transactionService, TransactionService } from './transaction';
-export { webhookService, WebhookService } from './webhook';
\ No newline at end of file
+export { webhookService, WebhookService } from './webhook';
+export { fxService, FxService } from './fx';
+export { holdService, HoldService } from './hold';
+export { systemAccountService, SystemAccountService } from './system-accounts';
+export { ledgerIntegrityService, LedgerIntegrityService } from './ledger-integrity';
+export { statementService, StatementService } from './statement';
+export { feeService, FeeService } from './fee';
+export { walletLimitService, WalletLimitService } from './wallet-limits';
\ No newline at end of file
@@ -0,0 +1,279 @@
+import { walletsRepository, ledgerRepository, transactionsRepository } from "../repositories";
+import { computeLedgerEntryHash } from "../repositories/ledger-repository";
+import type { LedgerEntry, Wallet } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, addMoney, subtractMoney, compareMoney, zeroMoney } from "@shared/money";
+
+export type LedgerDiscrepancy =
+  | {
+      type: 'running_balance_mismatch';
+      walletId: string;
+      currency: string;
+      firstEntryId: string;
+      firstSequence: number;
+      expectedBalance: string;
+      storedBalance: string;
+      mismatchedEntries: number;
+      repair: { action: 'recompute_balances'; fromSequence: number; finalBalance: string };
+    }
+  | {
+      type: 'currency_mismatch';
+      walletId: string;
+      entryId: string;
+      walletCurrency: string;
+      entryCurrency: string;
+      repair: { action: 'manual_review' };
+    }
+  | {
+      type: 'hash_mismatch'; // Row contents no longer match the hash stored with them
+      walletId: string;
+      entryId: string;
+      sequence: number;
+      storedHash: string | null;
+      computedHash: string;
+      repair: { action: 'manual_review' };
+    }
+  | {
+      type: 'chain_break'; // prevHash does not point at the wallet's previous entry
+      walletId: string;
+      entryId: string;
+      sequence: number;
+      expectedPrevHash: string | null;
+      storedPrevHash: string | null;
+      repair: { action: 'manual_review' };
+    }
+  | {
+      type: 'unbalanced_transaction';
+      transactionId: string;
+      currency: string;
+      net: string; // Debits minus credits
+      repair: { action: 'post_adjustment' | 'manual_review' };
+    }
+  | {
+      type: 'orphaned_transaction';
+      transactionId: string;
+      status: string;
+      amount: string;
+      currency: string;
+      repair: { action: 'manual_review' };
+    };
+
+export interface LedgerIntegrityReport {
+  generatedAt: string;
+  ok: boolean;
+  summary: {
+    walletsChecked: number;
+    entriesChecked: number;
+    walletsWithBalanceMismatches: number;
+    hashChainBreaks: number;
+    unbalancedTransactions: number;
+    orphanedTransactions: number;
+    discrepancies: number;
+  };
+  discrepancies: LedgerDiscrepancy[];
+}
+
+export interface HashChainReport {
+  generatedAt: string;
+  ok: boolean;
+  walletsChecked: number;
+  entriesChecked: number;
+  breaks: Array<Extract<LedgerDiscrepancy, { type: 'hash_mismatch' | 'chain_break' }>>;
+}
+
+const PAGE_SIZE = 1000;
+
+const isChainDiscrepancy = (d: LedgerDiscrepancy): d is HashChainReport['breaks'][number] =>
+  d.type === 'hash_mismatch' || d.type === 'chain_break';
+
+/**
+ * Recomputes the ledger from scratch and reports anything that disagrees with what is stored:
+ * running balances, hash chains, per-currency transaction totals and legless transactions.
+ * It never writes; each discrepancy carries the repair an operator would apply.
+ */
+export class LedgerIntegrityService {
+  async verify(options: { partnerId?: string } = {}): Promise<LedgerIntegrityReport> {
+    const discrepancies: LedgerDiscrepancy[] = [];
+    const wallets = await this.listWallets(options.partnerId);
+
+    let entriesChecked = 0;
+    let walletsWithBalanceMismatches = 0;
+    for (const wallet of wallets) {
+      const result = await this.walkWallet(wallet);
+      entriesChecked += result.entriesChecked;
+      discrepancies.push(...result.discrepancies);
+      if (result.discrepancies.some(d => d.type === 'running_balance_mismatch')) {
+        walletsWithBalanceMismatches++;
+      }
+    }
+
+    const walletIds = new Set(wallets.map(w => w.id));
+    const unbalanced = await ledgerRepository.findUnbalancedTransactions();
+    for (const row of unbalanced) {
+      if (options.partnerId && !(await this.transactionTouchesWallets(row.transactionId, walletIds))) {
+        continue;
+      }
+      discrepancies.push({
+        type: 'unbalanced_transaction',
+        transactionId: row.transactionId,
+        currency: row.currency,
+        net: formatMoney(parseMoney(row.net, row.currency)),
+        // A single missing leg can be offset; anything else needs a person to look at it
+        repair: { action: (await ledgerRepository.listByTransaction(row.transactionId)).length === 1 ? 'post_adjustment' : 'manual_review' },
+      });
+    }
+
+    const orphans = await transactionsRepository.listWithoutLedgerEntries('completed');
+    for (const transaction of orphans) {
+      if (options.partnerId && !walletIds.has(transaction.fromWalletId || '') && !walletIds.has(transaction.toWalletId || '')) {
+        continue;
+      }
+      discrepancies.push({
+        type: 'orphaned_transaction',
+        transactionId: transaction.id,
+        status: transaction.status,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        repair: { action: 'manual_review' },
+      });
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      ok: discrepancies.length === 0,
+      summary: {
+        walletsChecked: wallets.length,
+        entriesChecked,
+        walletsWithBalanceMismatches,
+        hashChainBreaks: discrepancies.filter(isChainDiscrepancy).length,
+        unbalancedTransactions: discrepancies.filter(d => d.type === 'unbalanced_transaction').length,
+        orphanedTransactions: discrepancies.filter(d => d.type === 'orphaned_transaction').length,
+        discrepancies: discrepancies.length,
+      },
+      discrepancies,
+    };
+  }
+
+  /** Walks only the hash chains, for auditors who need proof that history was not edited. */
+  async verifyHashChains(options: { partnerId?: string } = {}): Promise<HashChainReport> {
+    const wallets = await this.listWallets(options.partnerId);
+    const breaks: HashChainReport['breaks'] = [];
+    let entriesChecked = 0;
+    for (const wallet of wallets) {
+      const result = await this.walkWallet(wallet);
+      entriesChecked += result.entriesChecked;
+      breaks.push(...result.discrepancies.filter(isChainDiscrepancy));
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      ok: breaks.length === 0,
+      walletsChecked: wallets.length,
+      entriesChecked,
+      breaks,
+    };
+  }
+
+  private async listWallets(partnerId?: string): Promise<Wallet[]> {
+    return partnerId
+      ? await walletsRepository.listByPartnerId(partnerId)
+      : await walletsRepository.listAll();
+  }
+
+  // Replays a wallet's entries in sequence order, checking each stored running balance and
+  // each link of the hash chain
+  private async walkWallet(wallet: Wallet) {
+    const { id: walletId, currency } = wallet;
+    const discrepancies: LedgerDiscrepancy[] = [];
+    let previousHash: string | null = null;
+    let expected: Money = zeroMoney(currency);
+    let lastSequence = 0;
+    let entriesChecked = 0;
+    let mismatch: Extract<LedgerDiscrepancy, { type: 'running_balance_mismatch' }> | undefined;
+
+    while (true) {
+      const page = await ledgerRepository.listByWalletAfterSequence(walletId, lastSequence, PAGE_SIZE);
+      for (const entry of page) {
+        entriesChecked++;
+        lastSequence = entry.sequence;
+        discrepancies.push(...this.checkChainLink(entry, previousHash));
+        previousHash = entry.hash;
+
+        if (entry.currency !== currency) {
+          discrepancies.push({
+            type: 'currency_mismatch',
+            walletId,
+            entryId: entry.id,
+            walletCurrency: currency,
+            entryCurrency: entry.currency,
+            repair: { action: 'manual_review' },
+          });
+          continue;
+        }
+
+        const amount = parseMoney(entry.amount, currency);
+        expected = entry.type === 'credit' ? addMoney(expected, amount) : subtractMoney(expected, amount);
+        const stored = parseMoney(entry.balance, currency);
+        if (compareMoney(stored, expected) === 0) continue;
+
+        if (!mismatch) {
+          mismatch = {
+            type: 'running_balance_mismatch',
+            walletId,
+            currency,
+            firstEntryId: entry.id,
+            firstSequence: entry.sequence,
+            expectedBalance: formatMoney(expected),
+            storedBalance: formatMoney(stored),
+            mismatchedEntries: 0,
+            repair: { action: 'recompute_balances', fromSequence: entry.sequence, finalBalance: '' },
+          };
+        }
+        mismatch.mismatchedEntries++;
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    if (mismatch) {
+      mismatch.repair.finalBalance = formatMoney(expected);
+      discrepancies.push(mismatch);
+    }
+    return { entriesChecked, discrepancies };
+  }
+
+  private checkChainLink(entry: LedgerEntry, expectedPrevHash: string | null): LedgerDiscrepancy[] {
+    const found: LedgerDiscrepancy[] = [];
+    if (entry.prevHash !== expectedPrevHash) {
+      found.push({
+        type: 'chain_break',
+        walletId: entry.walletId,
+        entryId: entry.id,
+        sequence: entry.sequence,
+        expectedPrevHash,
+        storedPrevHash: entry.prevHash,
+        repair: { action: 'manual_review' },
+      });
+    }
+
+    // Hash what is stored, so an edited prevHash also shows up as a mismatch
+    const computedHash = computeLedgerEntryHash(entry, entry.prevHash);
+    if (entry.hash !== computedHash) {
+      found.push({
+        type: 'hash_mismatch',
+        walletId: entry.walletId,
+        entryId: entry.id,
+        sequence: entry.sequence,
+        storedHash: entry.hash,
+        computedHash,
+        repair: { action: 'manual_review' },
+      });
+    }
+    return found;
+  }
+
+  private async transactionTouchesWallets(transactionId: string, walletIds: Set<string>): Promise<boolean> {
+    const entries = await ledgerRepository.listByTransaction(transactionId);
+    return entries.some(entry => walletIds.has(entry.walletId));
+  }
+}
+
+export const ledgerIntegrityService = new LedgerIntegrityService();
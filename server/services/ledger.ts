@@ -1,39 +1,41 @@
-import { ledgerRepository, walletsRepository } from "../repositories";
+import { ledgerRepository } from "../repositories";
+import type { DbExecutor } from "../db";
+import type { Money } from "@shared/money";
 
-interface LedgerEntryInput {
+export interface LedgerEntryInput {
   walletId: string;
   type: 'debit' | 'credit';
-  amount: string;
-  currency: string;
+  amount: Money;
   description?: string;
 }
 
 export class LedgerService {
+  // Must run inside the posting transaction with every leg's wallet already locked
+  // (see TransactionService.createTransaction); the executor is that transaction.
   async createDoubleEntry(
     transactionId: string, 
-    entries: LedgerEntryInput[]
+    entries: LedgerEntryInput[],
+    executor: DbExecutor
   ) {
-    // Validate double-entry (debits should equal credits)
-    const debits = entries
-      .filter((e: LedgerEntryInput) => e.type === 'debit')
-      .reduce((sum: number, e: LedgerEntryInput) => sum + parseFloat(e.amount), 0);
-    const credits = entries
-      .filter((e: LedgerEntryInput) => e.type === 'credit')
-      .reduce((sum: number, e: LedgerEntryInput) => sum + parseFloat(e.amount), 0);
+    // Validate double-entry (debits must equal credits exactly, per currency)
+    const netByCurrency = new Map<string, number>();
+    for (const entry of entries) {
+      const signed = entry.type === 'debit' ? entry.amount.amount : -entry.amount.amount;
+      netByCurrency.set(entry.amount.currency, (netByCurrency.get(entry.amount.currency) || 0) + signed);
+    }
 
-    if (Math.abs(debits - credits) > 0.01) { // Allow for minor rounding differences
+    if (Array.from(netByCurrency.values()).some(net => net !== 0)) {
       throw new Error('Double-entry validation failed: debits must equal credits');
     }
 
     // Create ledger entries via repository and update balances
     const ledgerEntries = [];
     for (const entry of entries) {
-      // Calculate running balance based on current balance from repository
-      // Note: balance is recalculated in storage today; repository approach keeps that encapsulated.
+      // Running balance is derived from the wallet's latest entry inside the repository
       const ledgerEntry = await ledgerRepository.create({
         transactionId,
         ...entry
-      });
+      }, executor);
       ledgerEntries.push(ledgerEntry);
     }
 
@@ -1,13 +1,17 @@
 import { stripeAdapter } from "../adapters/stripe-adapter";
 import { mockAdapter } from "../adapters/mock-adapter";
-import { walletsRepository, transactionsRepository, gatewayTransactionsRepository } from "../repositories";
-import type { Payout } from "@shared/schema";
+import { gatewayEventService } from "./gateway-events";
+import { type Money } from "@shared/money";
 
 interface PaymentGatewayAdapter {
-  createPaymentIntent(amount: string, currency: string, metadata?: any): Promise<any>;
+  // Payouts are final once the gateway accepts them and no paid event follows
+  payoutsPaidOnCreation: boolean;
+  createPaymentIntent(amount: Money, metadata?: any, captureMethod?: 'automatic' | 'manual'): Promise<any>;
   capturePayment(paymentIntentId: string): Promise<any>;
-  refundPayment(paymentIntentId: string, amount?: string): Promise<any>;
-  createPayout(destination: any, amount: string, currency: string): Promise<any>;
+  cancelPayment(paymentIntentId: string): Promise<any>;
+  refundPayment(paymentIntentId: string, amount?: Money): Promise<any>;
+  listRefunds(paymentIntentId: string): Promise<any[]>;
+  createPayout(destination: any, amount: Money): Promise<any>;
   verifyWebhook(payload: string, signature: string, secret: string): Promise<any>;
 }
 
@@ -27,50 +31,6 @@ export class PaymentGatewayService {
     return adapter;
   }
 
-  async createPayout(gateway: string, data: Payout) {
-    const adapter = this.getAdapter(gateway);
-    
-    // Validate wallet has sufficient balance
-    const balance = await walletsRepository.getBalance(data.walletId);
-    if (parseFloat(balance) < parseFloat(data.amount)) {
-      throw new Error('Insufficient balance for payout');
-    }
-
-    // Create payout with gateway
-    const gatewayPayout = await adapter.createPayout(
-      data.destination,
-      data.amount,
-      data.currency
-    );
-
-    // Create transaction record
-    const transaction = await transactionsRepository.create({
-      type: 'debit',
-      amount: data.amount,
-      currency: data.currency,
-      description: 'Payout to external account',
-      fromWalletId: data.walletId,
-      idempotencyKey: data.idempotencyKey
-    });
-
-    // Create gateway transaction record
-    await gatewayTransactionsRepository.create({
-      gatewayTransactionId: gatewayPayout.id,
-      gateway,
-      status: gatewayPayout.status,
-      amount: data.amount,
-      currency: data.currency,
-      metadata: gatewayPayout,
-      transactionId: transaction.id
-    });
-
-    return {
-      transactionId: transaction.id,
-      gatewayPayoutId: gatewayPayout.id,
-      status: gatewayPayout.status
-    };
-  }
-
   async handleWebhook(gateway: string, payload: string, signature: string) {
     const adapter = this.getAdapter(gateway);
     
@@ -80,11 +40,14 @@ export class PaymentGatewayService {
       process.env[`${gateway.toUpperCase()}_WEBHOOK_SECRET`] || ''
     );
 
-    // Process webhook event and update transaction status
-    // This is a simplified implementation
-    console.log(`Webhook received from ${gateway}:`, event.type);
+    // Stored before processing, so a retried delivery of a processed event is only acknowledged
+    const stored = await gatewayEventService.receive(gateway, event);
+    if (stored.status === 'failed') {
+      // An error response makes the gateway deliver it again
+      throw new Error(`Processing ${gateway} event ${event.id} failed: ${stored.lastError}`);
+    }
     
-    return { processed: true, eventType: event.type };
+    return { processed: stored.status === 'processed', eventType: event.type, eventId: event.id };
   }
 }
 
@@ -0,0 +1,319 @@
+import { payoutsRepository, walletsRepository, transactionsRepository, gatewayTransactionsRepository } from "../repositories";
+import { paymentGatewayService } from "./payment-gateway";
+import { transactionService } from "./transaction";
+import { systemAccountService } from "./system-accounts";
+import { walletApprovalService } from "./wallet-approval";
+import { webhookService } from "./webhook";
+import { ApiError } from "../errors";
+import type { Payout, PayoutRecord } from "@shared/schema";
+import { money, parseMoney, formatMoney, compareMoney } from "@shared/money";
+
+/**
+ * Payouts to external bank accounts and cards. State changes are conditional on the current
+ * status, so a gateway webhook and a retry racing each other cannot both post.
+ *
+ *   requested --funds reserved--> funds_reserved --gateway accepts--> submitted --paid--> paid
+ *   requested | funds_reserved --refused--> failed     nothing posted / reservation voided
+ *   submitted --gateway failure--> failed              the debit is reversed, fee included
+ *   paid --returned by the bank--> returned            the amount comes back from the gateway
+ *
+ * A payout through a gateway that pays out when it accepts (Stripe transfers) goes straight on to paid.
+ *
+ * Accepted payouts sit in the partner's payouts-in-transit account until the gateway reports
+ * them paid, when they clear to the gateway receivable account.
+ */
+export class PayoutService {
+  async createPayout(partnerId: string, gateway: string, data: Payout): Promise<PayoutRecord> {
+    const adapter = paymentGatewayService.getAdapter(gateway);
+
+    // A retried request returns the payout already made for this key
+    const existing = await payoutsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existing) {
+      if (existing.partnerId !== partnerId) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      return existing;
+    }
+
+    const wallet = await walletsRepository.getById(data.walletId);
+    if (!wallet || wallet.partnerId !== partnerId || wallet.systemAccountType) {
+      throw new Error('Wallet not found or access denied');
+    }
+    // Payouts are paid in the wallet's own currency
+    const amount = parseMoney(data.amount, data.currency || wallet.currency);
+    transactionService.assertWalletCurrency(wallet, amount.currency);
+    await walletApprovalService.assertNotRequired(wallet.id, amount);
+
+    const requested = await payoutsRepository.create({
+      partnerId,
+      walletId: wallet.id,
+      gateway: gateway as PayoutRecord['gateway'],
+      amount: formatMoney(amount),
+      currency: amount.currency,
+      destination: data.destination,
+      idempotencyKey: data.idempotencyKey,
+    });
+    if (!requested) {
+      return (await payoutsRepository.getByIdempotencyKey(data.idempotencyKey))!;
+    }
+
+    // Reserve the funds (plus any payout fee) as a pending debit before calling the gateway;
+    // the available balance is checked under the wallet lock
+    let reserved: PayoutRecord | undefined;
+    try {
+      await transactionService.createTransaction(partnerId, {
+        type: 'debit',
+        amount: requested.amount,
+        currency: requested.currency,
+        description: 'Payout to external account',
+        fromWalletId: wallet.id,
+        idempotencyKey: data.idempotencyKey,
+        metadata: { payoutId: requested.id },
+      }, {
+        operation: 'payout',
+        fee: 'payout',
+        enforceLimits: true,
+        pending: true,
+        owner: 'payout',
+        afterPost: async (transaction, tx) => {
+          reserved = await payoutsRepository.transition(requested.id, ['requested'], {
+            status: 'funds_reserved',
+            transactionId: transaction.id,
+          }, tx);
+        },
+      });
+      if (!reserved) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+    } catch (error) {
+      await this.refuse(requested, ['requested'], error);
+      throw error;
+    }
+
+    // Create the payout with the gateway; release the reserved funds if it is rejected
+    let gatewayPayout;
+    try {
+      gatewayPayout = await adapter.createPayout(data.destination, amount);
+    } catch (error) {
+      await transactionService.voidTransaction(partnerId, reserved.transactionId!, { reason: 'Gateway rejected payout' }, { owner: 'payout' });
+      await this.refuse(reserved, ['funds_reserved'], error);
+      throw error;
+    }
+
+    // Accepted by the gateway: settle, moving the funds to payouts in transit. The gateway id is
+    // stored first so status webhooks can find the payout. The money has left, so the debit is
+    // posted even if the wallet was suspended or closed in the meantime.
+    await payoutsRepository.transition(reserved.id, ['funds_reserved'], { gatewayPayoutId: gatewayPayout.id });
+    await transactionsRepository.update(reserved.transactionId!, { gatewayTransactionId: gatewayPayout.id });
+    const transaction = await transactionService.settleTransaction(partnerId, reserved.transactionId!, {
+      owner: 'payout',
+      allowInactiveWalletIds: [wallet.id],
+    });
+
+    await gatewayTransactionsRepository.create({
+      gatewayTransactionId: gatewayPayout.id,
+      gateway,
+      status: adapter.payoutsPaidOnCreation ? 'paid' : gatewayPayout.status,
+      amount: requested.amount,
+      currency: requested.currency,
+      metadata: gatewayPayout,
+      transactionId: transaction.id
+    });
+
+    const submitted = await payoutsRepository.transition(reserved.id, ['funds_reserved'], {
+      status: 'submitted',
+      submittedAt: new Date(),
+    });
+    if (!submitted) {
+      return (await payoutsRepository.getById(reserved.id))!;
+    }
+    await this.notify('payout.submitted', submitted, { fee: transaction.fee });
+
+    // Gateways that pay out synchronously (Stripe transfers) send no later paid event
+    if (adapter.payoutsPaidOnCreation) {
+      return await this.markPaid(submitted);
+    }
+    return submitted;
+  }
+
+  async getPayout(partnerId: string, payoutId: string): Promise<PayoutRecord> {
+    const payout = await payoutsRepository.getById(payoutId);
+    if (!payout || payout.partnerId !== partnerId) {
+      throw new Error('Payout not found');
+    }
+    return payout;
+  }
+
+  async listPayouts(partnerId: string, filters: { walletId?: string; status?: PayoutRecord['status'] }, limit = 50, offset = 0) {
+    return await payoutsRepository.listByPartner(partnerId, filters, limit, offset);
+  }
+
+  // The gateway reports the payout paid. Unknown payouts and duplicate or out-of-order
+  // deliveries are ignored.
+  async handleGatewayPaid(gateway: string, object: { id: string }): Promise<PayoutRecord | undefined> {
+    const payout = await payoutsRepository.getByGatewayPayoutId(gateway as PayoutRecord['gateway'], object.id);
+    return payout ? await this.markPaid(payout) : undefined;
+  }
+
+  // The gateway reports the payout failed, cancelled or reversed. A failure reported after the
+  // payout was paid means the receiving bank sent the money back, so it becomes a return.
+  async handleGatewayFailure(gateway: string, object: { id: string; failure_message?: string; failure_code?: string }, eventType: string): Promise<PayoutRecord | undefined> {
+    const payout = await payoutsRepository.getByGatewayPayoutId(gateway as PayoutRecord['gateway'], object.id);
+    return payout ? await this.markFailed(payout, object.failure_message || object.failure_code || eventType) : undefined;
+  }
+
+  // The gateway reversed a transfer. Only a full reversal returns the payout, as a return credits
+  // the wallet the whole amount; a partial one is reported to the partner and left paid, to be
+  // reconciled by hand.
+  async handleTransferReversal(gateway: string, object: { id: string; amount_reversed: number }): Promise<PayoutRecord | undefined> {
+    const payout = await payoutsRepository.getByGatewayPayoutId(gateway as PayoutRecord['gateway'], object.id);
+    if (!payout) return undefined;
+
+    const reversed = money(object.amount_reversed, payout.currency); // Stripe sends minor units
+    if (compareMoney(reversed, parseMoney(payout.amount, payout.currency)) < 0) {
+      console.warn(`Payout ${payout.id} transfer ${object.id} partially reversed (${formatMoney(reversed)} ${payout.currency}); not returned`);
+      await this.notify('payout.partially_reversed', payout, { amountReversed: formatMoney(reversed) });
+      return payout;
+    }
+    return await this.markFailed(payout, 'transfer.reversed');
+  }
+
+  // Clear the payout from payouts in transit to the gateway receivable account
+  private async markPaid(payout: PayoutRecord): Promise<PayoutRecord> {
+    if (payout.status !== 'submitted') return payout;
+
+    const amount = parseMoney(payout.amount, payout.currency);
+    const inTransit = await systemAccountService.getAccountForOperation(payout.partnerId, 'payout', payout.currency);
+    const receivable = await systemAccountService.getAccountForOperation(payout.partnerId, 'funding', payout.currency);
+    const description = `Payout ${payout.id} paid by ${payout.gateway}`;
+
+    let paid: PayoutRecord | undefined;
+    await transactionService.postTransaction({
+      type: 'transfer',
+      amount: payout.amount,
+      currency: payout.currency,
+      description,
+      fromWalletId: inTransit.id,
+      toWalletId: receivable.id,
+      idempotencyKey: `payout-paid:${payout.id}`,
+      metadata: { payoutId: payout.id },
+    }, [
+      { walletId: inTransit.id, type: 'debit', amount, description },
+      { walletId: receivable.id, type: 'credit', amount, description },
+    ], {
+      afterPost: async (transaction, tx) => {
+        paid = await payoutsRepository.transition(payout.id, ['submitted'], {
+          status: 'paid',
+          paidAt: new Date(),
+          clearingTransactionId: transaction.id,
+        }, tx);
+        if (!paid) {
+          // Rolls the clearing posting back with it
+          await this.conflict(payout.id, 'marked paid');
+        }
+      },
+    });
+
+    if (!paid) {
+      return (await payoutsRepository.getById(payout.id))!;
+    }
+    await this.notify('payout.paid', paid);
+    return paid;
+  }
+
+  // A submitted payout fails; a paid one is returned. Either way the money goes back to the
+  // wallet. A payout already failed or returned whose refund did not go through is retried.
+  private async markFailed(payout: PayoutRecord, reason: string): Promise<PayoutRecord> {
+    let moved: PayoutRecord | undefined;
+    if (payout.status === 'submitted') {
+      moved = await payoutsRepository.transition(payout.id, ['submitted'], {
+        status: 'failed',
+        failedAt: new Date(),
+        failureReason: reason,
+      });
+    } else if (payout.status === 'paid') {
+      moved = await payoutsRepository.transition(payout.id, ['paid'], {
+        status: 'returned',
+        returnedAt: new Date(),
+        failureReason: reason,
+      });
+    }
+
+    const current = moved || (await payoutsRepository.getById(payout.id))!;
+    if (moved) {
+      await this.notify(moved.status === 'returned' ? 'payout.returned' : 'payout.failed', moved, { reason });
+    }
+    return await this.refund(current);
+  }
+
+  // Put the money of a failed or returned payout back in the wallet. A failed payout is reversed
+  // in full, fee included, since it never left; a returned one is credited back from the gateway
+  // receivable account as the bank sends it.
+  private async refund(payout: PayoutRecord): Promise<PayoutRecord> {
+    const submittedFailure = payout.status === 'failed' && payout.submittedAt;
+    if (payout.reversalTransactionId || (!submittedFailure && payout.status !== 'returned')) {
+      return payout;
+    }
+
+    // The money is owed to the wallet whatever its status
+    const reversal = payout.status === 'failed'
+      ? await transactionService.reverseTransaction(payout.partnerId, payout.transactionId!, {
+        reason: `Payout failed: ${payout.failureReason}`,
+        idempotencyKey: `payout-reversal:${payout.id}`,
+      }, {
+        allowInactiveWalletIds: [payout.walletId],
+      })
+      : await transactionService.createTransaction(payout.partnerId, {
+        type: 'credit',
+        amount: payout.amount,
+        currency: payout.currency,
+        description: `Returned payout: ${payout.failureReason}`,
+        toWalletId: payout.walletId,
+        idempotencyKey: `payout-return:${payout.id}`,
+        metadata: { payoutId: payout.id },
+      }, {
+        operation: 'funding',
+        allowInactiveWalletIds: [payout.walletId],
+      });
+
+    const refunded = await payoutsRepository.transition(payout.id, [payout.status], { reversalTransactionId: reversal.id });
+    return refunded || (await payoutsRepository.getById(payout.id))!;
+  }
+
+  // The payout never reached the gateway or was refused by it
+  private async refuse(payout: PayoutRecord, from: PayoutRecord['status'][], error: unknown) {
+    const failed = await payoutsRepository.transition(payout.id, from, {
+      status: 'failed',
+      failedAt: new Date(),
+      failureReason: error instanceof Error ? error.message : String(error),
+    });
+    if (failed) {
+      await this.notify('payout.failed', failed, { reason: failed.failureReason });
+    }
+  }
+
+  private async conflict(payoutId: string, action: string): Promise<never> {
+    const current = await payoutsRepository.getById(payoutId);
+    throw new ApiError(`Payout is ${current?.status} and cannot be ${action}`, 409, 'INVALID_PAYOUT_STATUS', {
+      payoutId,
+      status: current?.status,
+    });
+  }
+
+  private async notify(event: string, payout: PayoutRecord, extra: Record<string, unknown> = {}) {
+    await webhookService.handlePartnerWebhook(payout.partnerId, event, {
+      payoutId: payout.id,
+      walletId: payout.walletId,
+      status: payout.status,
+      amount: payout.amount,
+      currency: payout.currency,
+      gateway: payout.gateway,
+      gatewayPayoutId: payout.gatewayPayoutId,
+      transactionId: payout.transactionId,
+      reversalTransactionId: payout.reversalTransactionId,
+      ...extra,
+    });
+  }
+}
+
+export const payoutService = new PayoutService();
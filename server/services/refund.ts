@@ -0,0 +1,287 @@
+import { refundsRepository, fundingSessionsRepository, gatewayTransactionsRepository, transactionsRepository, walletsRepository } from "../repositories";
+import { paymentGatewayService } from "./payment-gateway";
+import { transactionService } from "./transaction";
+import { fundingService, FUNDING_GATEWAY } from "./funding";
+import { walletApprovalService } from "./wallet-approval";
+import { webhookService } from "./webhook";
+import { ApiError } from "../errors";
+import type { CreateRefund, Refund, Transaction, Wallet } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, subtractMoney, sumMoney, compareMoney } from "@shared/money";
+import type { DbExecutor } from "../db";
+
+// A captured gateway payment that credited a wallet, and so can be refunded
+interface RefundablePayment {
+  source: Refund['source'];
+  fundingSessionId?: string;
+  gateway: Refund['gateway'];
+  paymentId: string;
+  wallet: Wallet;
+  captured: Money; // What the payment put in the wallet, after any fee taken out of it
+}
+
+// A credit's amount less a fee taken out of it: refunding more would take money from the wallet
+// it never received from this payment
+function creditedAmount(transaction: Transaction): Money {
+  const amount = parseMoney(transaction.amount, transaction.currency);
+  return transaction.fee && transaction.fee.chargedWalletId === transaction.toWalletId
+    ? subtractMoney(amount, parseMoney(transaction.fee.amount, transaction.fee.currency))
+    : amount;
+}
+
+/**
+ * Full and partial refunds of card payments back to the card they came from. The refund is
+ * reserved as a pending debit of the wallet while the gateway is asked, and settled to the
+ * gateway receivable account once the gateway accepts it. A refund the gateway fails later is
+ * reversed, putting the money back in the wallet.
+ *
+ *   pending --gateway confirms--> succeeded
+ *   pending | succeeded --gateway fails--> failed
+ */
+export class RefundService {
+  async refundFundingSession(partnerId: string, sessionId: string, data: CreateRefund): Promise<Refund> {
+    const session = await fundingSessionsRepository.getById(sessionId);
+    const wallet = session ? await walletsRepository.getById(session.walletId) : undefined;
+    if (!session || !wallet || wallet.partnerId !== partnerId) {
+      throw new Error('Funding session not found');
+    }
+    if (session.status !== 'completed') {
+      throw new ApiError(`Funding session is ${session.status} and cannot be refunded`, 409, 'INVALID_FUNDING_SESSION_STATUS', {
+        sessionId: session.id,
+        status: session.status,
+      });
+    }
+
+    const credit = await fundingService.getCompletedCredit(session);
+    return await this.createRefund(partnerId, {
+      source: 'funding_session',
+      fundingSessionId: session.id,
+      gateway: FUNDING_GATEWAY,
+      paymentId: session.paymentIntentId,
+      wallet,
+      captured: credit ? creditedAmount(credit) : parseMoney(session.amount, session.currency),
+    }, data);
+  }
+
+  async refundGatewayPayment(partnerId: string, paymentId: string, data: CreateRefund): Promise<Refund> {
+    const payment = await gatewayTransactionsRepository.getCompletedPayment(paymentId);
+    const transaction = payment ? await transactionsRepository.getById(payment.transactionId!) : undefined;
+    const wallet = transaction?.toWalletId ? await walletsRepository.getById(transaction.toWalletId) : undefined;
+    if (!payment || !wallet || wallet.partnerId !== partnerId) {
+      throw new Error('Gateway transaction not found');
+    }
+
+    const paid = parseMoney(payment.amount, payment.currency);
+    const credited = creditedAmount(transaction!);
+    return await this.createRefund(partnerId, {
+      source: 'gateway_transaction',
+      gateway: payment.gateway,
+      paymentId: payment.gatewayTransactionId,
+      wallet,
+      captured: compareMoney(credited, paid) < 0 ? credited : paid,
+    }, data);
+  }
+
+  async getRefund(partnerId: string, refundId: string): Promise<Refund> {
+    const refund = await refundsRepository.getById(refundId);
+    if (!refund || refund.partnerId !== partnerId) {
+      throw new Error('Refund not found');
+    }
+    return refund;
+  }
+
+  async listRefunds(partnerId: string, filters: { walletId?: string; status?: Refund['status'] }, limit = 50, offset = 0) {
+    return await refundsRepository.listByPartner(partnerId, filters, limit, offset);
+  }
+
+  // Apply the current status of a gateway refund. Refunds not made through this service (e.g.
+  // from the gateway's dashboard) are ignored.
+  async handleGatewayRefund(gateway: string, object: { id: string; status: string; failure_reason?: string }): Promise<Refund | undefined> {
+    const refund = await refundsRepository.getByGatewayRefundId(gateway as Refund['gateway'], object.id);
+    if (!refund) return undefined;
+    return await this.applyGatewayStatus(refund, object.status, object.failure_reason);
+  }
+
+  private async createRefund(partnerId: string, payment: RefundablePayment, data: CreateRefund): Promise<Refund> {
+    // A retried request returns the refund already made for this key
+    const existing = await refundsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existing) {
+      if (existing.partnerId !== partnerId) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      return existing;
+    }
+
+    const adapter = paymentGatewayService.getAdapter(payment.gateway);
+    const refundable = await this.refundable(payment);
+    const amount = data.amount ? parseMoney(data.amount, payment.captured.currency) : refundable;
+    if (data.amount && amount.amount <= 0) {
+      throw new Error('Refund amount must be greater than 0');
+    }
+    if (refundable.amount <= 0 || compareMoney(amount, refundable) > 0) {
+      throw this.exceedsCaptured(payment, amount, refundable);
+    }
+    await walletApprovalService.assertNotRequired(payment.wallet.id, amount);
+
+    // Reserve the refund as a pending debit. Every refund of the payment debits this wallet, so
+    // its lock serializes them and the captured amount is checked against all of them.
+    let refund: Refund | undefined;
+    await transactionService.createTransaction(partnerId, {
+      type: 'debit',
+      amount: formatMoney(amount),
+      currency: amount.currency,
+      description: data.reason ? `Refund: ${data.reason}` : `Refund of payment ${payment.paymentId}`,
+      fromWalletId: payment.wallet.id,
+      idempotencyKey: data.idempotencyKey,
+      metadata: { refund: { source: payment.source, paymentId: payment.paymentId } },
+    }, {
+      operation: 'funding',
+      pending: true,
+      owner: 'refund',
+      afterPost: async (transaction, tx) => {
+        const remaining = await this.refundable(payment, tx);
+        if (compareMoney(amount, remaining) > 0) {
+          throw this.exceedsCaptured(payment, amount, remaining);
+        }
+        refund = await refundsRepository.create({
+          partnerId,
+          walletId: payment.wallet.id,
+          source: payment.source,
+          fundingSessionId: payment.fundingSessionId,
+          gateway: payment.gateway,
+          paymentId: payment.paymentId,
+          amount: formatMoney(amount),
+          currency: amount.currency,
+          reason: data.reason,
+          transactionId: transaction.id,
+          idempotencyKey: data.idempotencyKey,
+        }, tx);
+      },
+    });
+
+    if (!refund) {
+      // A concurrent request with the same key reserved it first
+      refund = await refundsRepository.getByIdempotencyKey(data.idempotencyKey);
+      if (!refund) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      return refund;
+    }
+
+    // Ask the gateway; release the reserved funds if it refuses
+    let gatewayRefund;
+    try {
+      gatewayRefund = await adapter.refundPayment(payment.paymentId, amount);
+    } catch (error) {
+      await this.fail(refund, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    // Accepted: settle the debit. The gateway id is stored first so status webhooks can find it,
+    // and settle it again if this fails.
+    const submitted = (await refundsRepository.transition(refund.id, ['pending'], { gatewayRefundId: gatewayRefund.id })) || refund;
+    await transactionsRepository.update(refund.transactionId!, { gatewayTransactionId: gatewayRefund.id });
+    await this.settle(submitted);
+    await this.notify('refund.created', submitted);
+
+    return await this.applyGatewayStatus(submitted, gatewayRefund.status, gatewayRefund.failure_reason);
+  }
+
+  private async applyGatewayStatus(refund: Refund, status: string, failureReason?: string): Promise<Refund> {
+    if (status === 'succeeded') {
+      if (refund.status === 'pending') {
+        await this.settle(refund);
+      }
+      const succeeded = await refundsRepository.transition(refund.id, ['pending'], { status: 'succeeded', succeededAt: new Date() });
+      if (!succeeded) {
+        return (await refundsRepository.getById(refund.id))!;
+      }
+      await this.notify('refund.succeeded', succeeded);
+      return succeeded;
+    }
+    if (status === 'failed' || status === 'canceled') {
+      return await this.fail(refund, failureReason || `Refund ${status} by ${refund.gateway}`);
+    }
+    return refund;
+  }
+
+  // Mark the refund failed and put the money back, whatever the wallet's status: a reservation
+  // not settled yet is voided, a settled debit reversed. A failed refund whose money is not back
+  // yet is retried.
+  private async fail(refund: Refund, reason: string): Promise<Refund> {
+    const failed = await refundsRepository.transition(refund.id, ['pending', 'succeeded'], {
+      status: 'failed',
+      failedAt: new Date(),
+      failureReason: reason,
+    });
+    if (failed) {
+      await this.notify('refund.failed', failed, { reason });
+    }
+
+    const current = failed || (await refundsRepository.getById(refund.id))!;
+    if (current.status !== 'failed' || current.reversalTransactionId || !current.transactionId) {
+      return current;
+    }
+
+    const debit = (await transactionsRepository.getById(current.transactionId))!;
+    if (debit.status === 'pending') {
+      await transactionService.voidTransaction(current.partnerId, debit.id, { reason: `Refund failed: ${current.failureReason}` }, { owner: 'refund' });
+      return current;
+    }
+    if (debit.status !== 'completed') {
+      return current;
+    }
+
+    const reversal = await transactionService.reverseTransaction(current.partnerId, debit.id, {
+      reason: `Refund failed: ${current.failureReason}`,
+      idempotencyKey: `refund-reversal:${current.id}`,
+    }, {
+      allowInactiveWalletIds: [current.walletId],
+    });
+    return (await refundsRepository.transition(current.id, ['failed'], { reversalTransactionId: reversal.id })) || current;
+  }
+
+  // Post the reserved debit once the gateway has accepted the refund. The card is being refunded,
+  // so it is posted even if the wallet was suspended or closed in the meantime. Settling a
+  // settled debit is a no-op.
+  private async settle(refund: Refund) {
+    await transactionService.settleTransaction(refund.partnerId, refund.transactionId!, {
+      owner: 'refund',
+      allowInactiveWalletIds: [refund.walletId],
+    });
+  }
+
+  // What is left to refund of the payment
+  private async refundable(payment: RefundablePayment, executor?: DbExecutor): Promise<Money> {
+    const refunds = await refundsRepository.listActiveForPayment(payment.gateway, payment.paymentId, executor);
+    const refunded = sumMoney(refunds.map(r => parseMoney(r.amount, r.currency)), payment.captured.currency);
+    return subtractMoney(payment.captured, refunded);
+  }
+
+  private exceedsCaptured(payment: RefundablePayment, amount: Money, remaining: Money) {
+    return new ApiError('Refund would exceed the captured amount', 409, 'REFUND_EXCEEDS_CAPTURED', {
+      paymentId: payment.paymentId,
+      amount: formatMoney(amount),
+      captured: formatMoney(payment.captured),
+      refundable: formatMoney(remaining),
+      currency: payment.captured.currency,
+    });
+  }
+
+  private async notify(event: string, refund: Refund, extra: Record<string, unknown> = {}) {
+    await webhookService.handlePartnerWebhook(refund.partnerId, event, {
+      refundId: refund.id,
+      walletId: refund.walletId,
+      source: refund.source,
+      fundingSessionId: refund.fundingSessionId,
+      paymentId: refund.paymentId,
+      status: refund.status,
+      amount: refund.amount,
+      currency: refund.currency,
+      transactionId: refund.transactionId,
+      reversalTransactionId: refund.reversalTransactionId,
+      ...extra,
+    });
+  }
+}
+
+export const refundService = new RefundService();
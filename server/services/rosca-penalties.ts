@@ -0,0 +1,285 @@
+import { roscaRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { systemAccountService } from "./system-accounts";
+import { roscaService } from "./rosca";
+import { withTransaction } from "../db";
+import { ApiError } from "../errors";
+import type { RoscaGroup, RoscaMember, RoscaPenalty, RoscaRound, UpdateRoscaRules } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, sumMoney, zeroMoney, compareMoney, subtractMoney } from "@shared/money";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An outstanding penalty paid out of a member's own payout. walletId is who it is paid to; null
+// when it needs no leg (a contribution missed in the member's own round is simply not in the pot).
+export interface PayoutDeduction {
+  penalty: RoscaPenalty;
+  walletId: string | null;
+  amount: Money;
+}
+
+/**
+ * Late and missed ROSCA contributions. A contribution is late once the round's due date plus the
+ * group's grace period has passed. Late fees are debits from the member to the partner's fees
+ * revenue account; a fee the member cannot pay stays outstanding. Assessing an overdue round
+ * records a missed contribution (the member's arrears) for everyone who has not paid and applies
+ * the group's rule:
+ *
+ *   skip_turn           the member's payout moves to the end of the rotation
+ *   deduct_from_payout  arrears and unpaid late fees are taken out of the member's own payout and
+ *                       paid to the members whose pots were short
+ */
+export class RoscaPenaltyService {
+  graceEndsAt(group: RoscaGroup, round: RoscaRound): Date {
+    return new Date(round.dueDate.getTime() + group.gracePeriodDays * DAY_MS);
+  }
+
+  isLate(group: RoscaGroup, round: RoscaRound, at: Date = new Date()): boolean {
+    return at > this.graceEndsAt(group, round);
+  }
+
+  async updateRules(partnerId: string, groupId: string, data: UpdateRoscaRules): Promise<RoscaGroup> {
+    const group = await roscaService.getGroup(partnerId, groupId);
+    if (group.status !== 'active') {
+      throw new ApiError(`ROSCA group is ${group.status}`, 409, 'INVALID_GROUP_STATUS', { groupId: group.id, status: group.status });
+    }
+
+    return await roscaRepository.updateGroup(group.id, {
+      gracePeriodDays: data.gracePeriodDays,
+      lateFeeAmount: data.lateFeeAmount === undefined
+        ? undefined
+        : data.lateFeeAmount && formatMoney(parseMoney(data.lateFeeAmount, group.currency)),
+      missedPaymentRule: data.missedPaymentRule,
+    });
+  }
+
+  // Charge the group's late fee once per member and round. The penalty is recorded first, so a
+  // member without the funds still owes it.
+  async chargeLateFee(group: RoscaGroup, round: RoscaRound, member: RoscaMember, reason: string): Promise<RoscaPenalty | undefined> {
+    if (!group.lateFeeAmount) return undefined;
+
+    const fee = parseMoney(group.lateFeeAmount, group.currency);
+    const penalty = await roscaRepository.createPenalty({
+      groupId: group.id,
+      roundId: round.id,
+      memberId: member.id,
+      type: 'late_fee',
+      status: 'outstanding',
+      amount: formatMoney(fee),
+      note: reason,
+    });
+    if (!penalty) return undefined;
+
+    let charged: RoscaPenalty | undefined;
+    try {
+      await transactionService.createTransaction(group.partnerId, {
+        type: 'debit',
+        amount: formatMoney(fee),
+        currency: group.currency,
+        description: `ROSCA late fee - ${group.name} round ${round.roundNumber}`,
+        fromWalletId: member.walletId,
+        idempotencyKey: `rosca-late-fee:${penalty.id}`,
+        metadata: { type: 'rosca_late_fee', groupId: group.id, round: round.roundNumber, memberId: member.id, penaltyId: penalty.id },
+      }, {
+        operation: 'fee',
+        afterPost: async (transaction, tx) => {
+          charged = await roscaRepository.transitionPenalty(penalty.id, 'outstanding', {
+            status: 'charged',
+            transactionId: transaction.id,
+          }, tx);
+        },
+      });
+    } catch (error) {
+      console.warn(`Late fee for ROSCA member ${member.id} left outstanding:`, error);
+    }
+    return charged || penalty;
+  }
+
+  // Assess every overdue round (for a scheduled job). One failure does not stop the rest.
+  async assessOverdueRounds(groupId?: string): Promise<{ rounds: number; missed: number; failed: number }> {
+    const overdue = await roscaRepository.listOverdueRounds(new Date(), groupId);
+    let missed = 0;
+    let failed = 0;
+    for (const round of overdue) {
+      try {
+        const group = (await roscaRepository.getGroup(round.groupId))!;
+        missed += (await this.assessRound(group, round)).length;
+      } catch (error) {
+        console.error(`Penalty assessment failed for ROSCA round ${round.id}:`, error);
+        failed++;
+      }
+    }
+    return { rounds: overdue.length, missed, failed };
+  }
+
+  async assessGroup(partnerId: string, groupId: string) {
+    const group = await roscaService.getGroup(partnerId, groupId);
+    const result = await this.assessOverdueRounds(group.id);
+    return { ...result, penalties: await roscaRepository.listPenalties(group.id) };
+  }
+
+  // Record a missed contribution for each member who has not paid into an overdue round, then
+  // charge the late fee and apply the group's rule. Returns the newly recorded misses.
+  async assessRound(group: RoscaGroup, round: RoscaRound): Promise<RoscaPenalty[]> {
+    if (round.status !== 'open' || !this.isLate(group, round)) return [];
+
+    const members = await roscaRepository.listMembers(group.id);
+    const assessed: RoscaPenalty[] = [];
+    for (const member of members) {
+      // Under the group lock, so a contribution being recorded either counts or is marked as
+      // paying off the miss
+      const missed = await withTransaction(async (tx) => {
+        await roscaRepository.lockGroup(group.id, tx);
+        const paid = await roscaRepository.listContributions(round.id, tx);
+        if (paid.some(c => c.memberId === member.id)) return undefined;
+        return await roscaRepository.createPenalty({
+          groupId: group.id,
+          roundId: round.id,
+          memberId: member.id,
+          type: 'missed_contribution',
+          status: 'outstanding',
+          amount: group.contributionAmount,
+          note: `Missed round ${round.roundNumber}`,
+        }, tx);
+      });
+      if (!missed) continue;
+
+      assessed.push(missed);
+      await this.chargeLateFee(group, round, member, `Missed round ${round.roundNumber}`);
+      if (group.missedPaymentRule === 'skip_turn') {
+        await this.skipTurn(group, member, round);
+      }
+    }
+    return assessed;
+  }
+
+  // Move the member's unpaid turn to the last round; everyone after them moves up one round
+  private async skipTurn(group: RoscaGroup, member: RoscaMember, missedRound: RoscaRound) {
+    await withTransaction(async (tx) => {
+      await roscaRepository.lockGroup(group.id, tx);
+      const rounds = await roscaRepository.listRounds(group.id, tx);
+      const own = rounds.find(r => r.recipientMemberId === member.id && r.status === 'open');
+      const remaining = own ? rounds.filter(r => r.status === 'open' && r.roundNumber >= own.roundNumber) : [];
+      // Nothing to skip once they have been paid or already have the last turn
+      if (!own || remaining.length < 2) return;
+
+      const penalty = await roscaRepository.createPenalty({
+        groupId: group.id,
+        roundId: missedRound.id,
+        memberId: member.id,
+        type: 'skip_turn',
+        status: 'applied',
+        note: `Payout moved from round ${own.roundNumber} to round ${remaining[remaining.length - 1].roundNumber}`,
+      }, tx);
+      if (!penalty) return;
+
+      const recipients = [...remaining.map(r => r.recipientMemberId).filter(id => id !== member.id), member.id];
+      for (let i = 0; i < remaining.length; i++) {
+        if (remaining[i].recipientMemberId !== recipients[i]) {
+          await roscaRepository.updateRound(remaining[i].id, { recipientMemberId: recipients[i] }, tx);
+        }
+      }
+    });
+  }
+
+  // What to withhold from a payout under deduct_from_payout, oldest penalty first, as long as
+  // each fits in full in what is left of the pot
+  async collectDeductions(group: RoscaGroup, round: RoscaRound, recipient: RoscaMember, pot: Money): Promise<PayoutDeduction[]> {
+    if (group.missedPaymentRule !== 'deduct_from_payout') return [];
+
+    const [penalties, rounds, members] = await Promise.all([
+      roscaRepository.listPenalties(group.id),
+      roscaRepository.listRounds(group.id),
+      roscaRepository.listMembers(group.id),
+    ]);
+    const deductions: PayoutDeduction[] = [];
+    let left = pot;
+    for (const penalty of penalties) {
+      if (penalty.memberId !== recipient.id || penalty.status !== 'outstanding' || !penalty.amount) continue;
+
+      let walletId: string | null;
+      if (penalty.type === 'late_fee') {
+        walletId = (await systemAccountService.getAccountForOperation(group.partnerId, 'fee', group.currency)).id;
+      } else if (penalty.roundId === round.id) {
+        walletId = null;
+      } else {
+        // Made good to whoever received the round the member missed
+        const missedRound = rounds.find(r => r.id === penalty.roundId);
+        if (missedRound?.status !== 'paid_out') continue;
+        walletId = members.find(m => m.id === missedRound.recipientMemberId)!.walletId;
+      }
+
+      const amount = parseMoney(penalty.amount, group.currency);
+      if (walletId && compareMoney(amount, left) > 0) continue;
+      if (walletId) left = subtractMoney(left, amount);
+      deductions.push({ penalty, walletId, amount });
+    }
+    return deductions;
+  }
+
+  // How each member stands: contributions made, late and missed, what they owe, and their turn
+  async getStanding(partnerId: string, groupId: string) {
+    const group = await roscaService.getGroup(partnerId, groupId);
+    const [members, rounds, contributions, penalties] = await Promise.all([
+      roscaRepository.listMembers(group.id),
+      roscaRepository.listRounds(group.id),
+      roscaRepository.listGroupContributions(group.id),
+      roscaRepository.listPenalties(group.id),
+    ]);
+    const now = new Date();
+    const overdueRounds = rounds.filter(r => this.isLate(group, r, now));
+    const total = (list: RoscaPenalty[]) => formatMoney(
+      sumMoney(list.map(p => parseMoney(p.amount!, group.currency)), group.currency)
+    );
+
+    return {
+      groupId: group.id,
+      asOf: now,
+      rules: {
+        gracePeriodDays: group.gracePeriodDays,
+        lateFeeAmount: group.lateFeeAmount,
+        missedPaymentRule: group.missedPaymentRule,
+      },
+      members: members.map(member => {
+        const paid = contributions.filter(c => c.memberId === member.id);
+        const own = penalties.filter(p => p.memberId === member.id);
+        const missed = own.filter(p => p.type === 'missed_contribution');
+        const lateFees = own.filter(p => p.type === 'late_fee');
+        // Overdue rounds not assessed yet count towards arrears too
+        const unassessed = overdueRounds.filter(r => r.status === 'open'
+          && !paid.some(c => c.roundId === r.id)
+          && !missed.some(p => p.roundId === r.id));
+        const arrears = [
+          ...missed.filter(p => p.status === 'outstanding').map(p => parseMoney(p.amount!, group.currency)),
+          ...unassessed.map(() => parseMoney(group.contributionAmount, group.currency)),
+        ];
+        const payoutRound = rounds.find(r => r.recipientMemberId === member.id)!;
+        const arrearsAmount = sumMoney(arrears, group.currency);
+        const feesOutstanding = lateFees.filter(p => p.status === 'outstanding');
+
+        return {
+          memberId: member.id,
+          walletId: member.walletId,
+          position: member.position,
+          payoutRound: payoutRound.roundNumber,
+          payoutStatus: payoutRound.status,
+          contributionsDue: overdueRounds.length,
+          contributionsPaid: paid.length,
+          lateContributions: paid.filter(c => c.late).length,
+          missedRounds: [
+            ...missed.map(p => rounds.find(r => r.id === p.roundId)!.roundNumber),
+            ...unassessed.map(r => r.roundNumber),
+          ].sort((a, b) => a - b),
+          arrearsAmount: formatMoney(arrearsAmount),
+          lateFeesCharged: total(lateFees.filter(p => p.status !== 'outstanding')),
+          lateFeesOutstanding: total(feesOutstanding),
+          skippedTurns: own.filter(p => p.type === 'skip_turn').length,
+          standing: compareMoney(arrearsAmount, zeroMoney(group.currency)) > 0 || feesOutstanding.length > 0
+            ? 'in_arrears'
+            : paid.some(c => c.late) || missed.length > 0 ? 'late' : 'good',
+        };
+      }),
+    };
+  }
+}
+
+export const roscaPenaltyService = new RoscaPenaltyService();
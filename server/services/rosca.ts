@@ -0,0 +1,375 @@
+import { roscaRepository, walletsRepository, transactionsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { roscaPenaltyService, type PayoutDeduction } from "./rosca-penalties";
+import { walletApprovalService } from "./wallet-approval";
+import type { LedgerEntryInput } from "./ledger";
+import { withTransaction } from "../db";
+import { ApiError, isUniqueViolation } from "../errors";
+import type {
+  CreateRoscaGroup, ExecuteRoscaPayout, RecordRoscaContribution, RoscaContribution, RoscaGroup, RoscaMember, RoscaRound,
+} from "@shared/schema";
+import { parseMoney, formatMoney, addMoney, sumMoney, compareMoney, subtractMoney, zeroMoney } from "@shared/money";
+import { randomUUID } from "crypto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Due date of a round: the start date plus one period per earlier round. Monthly rounds keep the
+// start day of month, or the month's last day when it is shorter.
+function roundDueDate(start: Date, frequency: RoscaGroup['frequency'], roundNumber: number): Date {
+  const periods = roundNumber - 1;
+  if (frequency === 'weekly') return new Date(start.getTime() + periods * 7 * DAY_MS);
+  if (frequency === 'biweekly') return new Date(start.getTime() + periods * 14 * DAY_MS);
+
+  const month = start.getUTCMonth() + periods;
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), month + 1, 0)).getUTCDate();
+  const due = new Date(start);
+  due.setUTCFullYear(start.getUTCFullYear(), month, Math.min(start.getUTCDate(), lastDay));
+  return due;
+}
+
+/**
+ * Rotating savings groups. Every member pays the contribution amount into the group wallet each
+ * round; once a round has every contribution, its pot is paid to the member whose turn it is.
+ * Contributions and payouts are ordinary ledger transfers tagged rosca_contribution and
+ * rosca_payout, with the round bookkeeping written in the same posting. Late and missed
+ * contributions are handled by RoscaPenaltyService.
+ */
+export class RoscaService {
+  async createGroup(partnerId: string, data: CreateRoscaGroup) {
+    const existing = await roscaRepository.getGroupByIdempotencyKey(data.idempotencyKey);
+    if (existing) {
+      return await this.getGroupDetails(partnerId, existing.id);
+    }
+
+    const contribution = parseMoney(data.contributionAmount, data.currency);
+    for (const walletId of data.memberWalletIds) {
+      const wallet = await walletsRepository.getById(walletId);
+      if (!wallet || wallet.partnerId !== partnerId || wallet.systemAccountType) {
+        throw new Error(`Wallet ${walletId} not found or access denied`);
+      }
+      transactionService.assertWalletCurrency(wallet, contribution.currency);
+    }
+
+    // Every member pays in every round, the recipient included
+    const expected = sumMoney(data.memberWalletIds.map(() => contribution), contribution.currency);
+    const groupId = randomUUID();
+    try {
+      await withTransaction(async (tx) => {
+        const groupWallet = await walletsRepository.create({
+          partnerId,
+          name: `ROSCA group: ${data.name}`,
+          currency: contribution.currency,
+          metadata: { type: 'rosca_group', roscaGroupId: groupId },
+        }, tx);
+        await roscaRepository.createGroup({
+          id: groupId,
+          partnerId,
+          name: data.name,
+          groupWalletId: groupWallet.id,
+          currency: contribution.currency,
+          contributionAmount: formatMoney(contribution),
+          frequency: data.frequency,
+          startDate: data.startDate,
+          gracePeriodDays: data.gracePeriodDays,
+          lateFeeAmount: data.lateFeeAmount ? formatMoney(parseMoney(data.lateFeeAmount, contribution.currency)) : null,
+          missedPaymentRule: data.missedPaymentRule,
+          idempotencyKey: data.idempotencyKey,
+          metadata: data.metadata || {},
+        }, tx);
+
+        const members = await roscaRepository.createMembers(
+          data.memberWalletIds.map((walletId, i) => ({ groupId, walletId, position: i + 1 })),
+          tx
+        );
+        await roscaRepository.createRounds(members.map(member => ({
+          groupId,
+          roundNumber: member.position,
+          recipientMemberId: member.id,
+          dueDate: roundDueDate(data.startDate, data.frequency, member.position),
+          expectedAmount: formatMoney(expected),
+        })), tx);
+      });
+    } catch (error) {
+      // A concurrent request with the same idempotency key created the group first
+      if (isUniqueViolation(error)) {
+        const created = await roscaRepository.getGroupByIdempotencyKey(data.idempotencyKey);
+        if (created) return await this.getGroupDetails(partnerId, created.id);
+      }
+      throw error;
+    }
+
+    return await this.getGroupDetails(partnerId, groupId);
+  }
+
+  async getGroup(partnerId: string, groupId: string): Promise<RoscaGroup> {
+    const group = await roscaRepository.getGroup(groupId);
+    if (!group || group.partnerId !== partnerId) {
+      throw new Error('ROSCA group not found');
+    }
+    return group;
+  }
+
+  async listGroups(partnerId: string, limit = 50, offset = 0): Promise<RoscaGroup[]> {
+    return await roscaRepository.listGroupsByPartner(partnerId, limit, offset);
+  }
+
+  async getGroupDetails(partnerId: string, groupId: string) {
+    const group = await this.getGroup(partnerId, groupId);
+    const [members, rounds] = await Promise.all([
+      roscaRepository.listMembers(group.id),
+      roscaRepository.listRounds(group.id),
+    ]);
+    return { ...group, members, rounds };
+  }
+
+  // A round with its contributions and the members who have not paid yet
+  async getRoundDetails(partnerId: string, groupId: string, roundNumber: number) {
+    const group = await this.getGroup(partnerId, groupId);
+    const round = await this.findRound(group, roundNumber);
+    const [members, contributions] = await Promise.all([
+      roscaRepository.listMembers(group.id),
+      roscaRepository.listContributions(round.id),
+    ]);
+    return { ...round, contributions, outstandingMemberIds: this.outstandingMembers(members, contributions) };
+  }
+
+  async recordContribution(partnerId: string, groupId: string, data: RecordRoscaContribution): Promise<RoscaContribution> {
+    const group = await this.getGroup(partnerId, groupId);
+    this.assertActive(group);
+
+    const members = await roscaRepository.listMembers(group.id);
+    const member = members.find(m => m.walletId === data.walletId);
+    if (!member) {
+      throw new Error('Wallet is not a member of this group');
+    }
+    const round = await this.findRound(group, data.roundNumber ?? group.currentRound);
+    const late = roscaPenaltyService.isLate(group, round);
+    await walletApprovalService.assertNotRequired(member.walletId, parseMoney(group.contributionAmount, group.currency));
+
+    let contribution: RoscaContribution | undefined;
+    await transactionService.createTransaction(partnerId, {
+      type: 'transfer',
+      amount: group.contributionAmount,
+      currency: group.currency,
+      description: `ROSCA contribution - ${group.name} round ${round.roundNumber}`,
+      fromWalletId: member.walletId,
+      toWalletId: group.groupWalletId,
+      idempotencyKey: data.idempotencyKey,
+      metadata: { type: 'rosca_contribution', groupId: group.id, round: round.roundNumber, memberId: member.id },
+    }, {
+      enforceLimits: true,
+      afterPost: async (transaction, tx) => {
+        // The group lock serializes this with the round's payout
+        await roscaRepository.lockGroup(group.id, tx);
+        const current = (await roscaRepository.getRound(group.id, round.roundNumber, tx))!;
+        this.assertRoundOpen(current);
+        const paid = await roscaRepository.listContributions(current.id, tx);
+        if (paid.some(c => c.memberId === member.id)) {
+          throw new ApiError(`Member has already contributed to round ${current.roundNumber}`, 409, 'DUPLICATE_CONTRIBUTION', {
+            groupId: group.id,
+            roundNumber: current.roundNumber,
+            memberId: member.id,
+          });
+        }
+
+        contribution = await roscaRepository.createContribution({
+          groupId: group.id,
+          roundId: current.id,
+          memberId: member.id,
+          amount: transaction.amount,
+          transactionId: transaction.id,
+          late,
+        }, tx);
+        // Paying a round that was already assessed as missed clears the arrears
+        const missed = await roscaRepository.getPenalty(current.id, member.id, 'missed_contribution', tx);
+        if (missed?.status === 'outstanding') {
+          await roscaRepository.transitionPenalty(missed.id, 'outstanding', {
+            status: 'recovered',
+            transactionId: transaction.id,
+          }, tx);
+        }
+        const received = addMoney(parseMoney(current.receivedAmount, group.currency), parseMoney(transaction.amount, group.currency));
+        await roscaRepository.updateRound(current.id, { receivedAmount: formatMoney(received) }, tx);
+      },
+    });
+
+    if (!contribution) {
+      // Retried request: the transfer already exists, so return what it recorded
+      const recorded = await roscaRepository.listContributions(round.id);
+      contribution = recorded.find(c => c.memberId === member.id);
+      if (!contribution) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      return contribution;
+    }
+
+    if (late) {
+      await roscaPenaltyService.chargeLateFee(group, round, member, `Late contribution to round ${round.roundNumber}`);
+    }
+    return contribution;
+  }
+
+  // Pay the current round's pot to the member whose turn it is, then move on to the next round
+  async executePayout(partnerId: string, groupId: string, data: ExecuteRoscaPayout) {
+    const group = await this.getGroup(partnerId, groupId);
+
+    // A retried request returns the payout it already made
+    const existing = await transactionsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existing) {
+      const rounds = await roscaRepository.listRounds(group.id);
+      const paid = rounds.find(r => r.payoutTransactionId === existing.id);
+      if (!paid) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      const members = await roscaRepository.listMembers(group.id);
+      return { round: paid, recipient: members.find(m => m.id === paid.recipientMemberId)!, transaction: existing };
+    }
+
+    this.assertActive(group);
+    let round = await this.findRound(group, group.currentRound);
+    this.assertRoundOpen(round);
+    const [members, contributions] = await Promise.all([
+      roscaRepository.listMembers(group.id),
+      roscaRepository.listContributions(round.id),
+    ]);
+    const received = parseMoney(round.receivedAmount, group.currency);
+    const expected = parseMoney(round.expectedAmount, group.currency);
+    if (compareMoney(received, expected) < 0) {
+      // Once the grace period is over a short round is paid out with what came in, after the
+      // missing members are assessed (which can hand this round to someone else)
+      const empty = compareMoney(received, zeroMoney(group.currency)) === 0;
+      if (empty || !roscaPenaltyService.isLate(group, round)) {
+        throw new ApiError(`Round ${round.roundNumber} is missing contributions`, 409, 'CONTRIBUTIONS_OUTSTANDING', {
+          groupId: group.id,
+          roundNumber: round.roundNumber,
+          expectedAmount: formatMoney(expected),
+          receivedAmount: formatMoney(received),
+          outstandingAmount: formatMoney(subtractMoney(expected, received)),
+          outstandingMemberIds: this.outstandingMembers(members, contributions),
+          graceEndsAt: roscaPenaltyService.graceEndsAt(group, round),
+        });
+      }
+      await roscaPenaltyService.assessRound(group, round);
+      round = await this.findRound(group, round.roundNumber);
+    }
+
+    // The group wallet's approval policy covers the pot like any other debit
+    await walletApprovalService.assertNotRequired(group.groupWalletId, received);
+    const recipient = members.find(m => m.id === round.recipientMemberId)!;
+    const deductions = await roscaPenaltyService.collectDeductions(group, round, recipient, received);
+    const paidElsewhere = deductions.filter((d): d is PayoutDeduction & { walletId: string } => d.walletId !== null);
+    const net = subtractMoney(received, sumMoney(paidElsewhere.map(d => d.amount), group.currency));
+    const withheld = deductions.map(d => ({ penaltyId: d.penalty.id, type: d.penalty.type, amount: formatMoney(d.amount), walletId: d.walletId }));
+    const description = `ROSCA payout - ${group.name} round ${round.roundNumber}`;
+    const legs: LedgerEntryInput[] = [
+      { walletId: group.groupWalletId, type: 'debit', amount: received, description },
+      ...(compareMoney(net, zeroMoney(group.currency)) > 0
+        ? [{ walletId: recipient.walletId, type: 'credit' as const, amount: net, description }]
+        : []),
+      ...paidElsewhere.map(d => ({
+        walletId: d.walletId,
+        type: 'credit' as const,
+        amount: d.amount,
+        description: d.penalty.type === 'late_fee'
+          ? `ROSCA late fee withheld from round ${round.roundNumber} payout`
+          : `ROSCA arrears withheld from round ${round.roundNumber} payout`,
+      })),
+    ];
+
+    let paidRound: RoscaRound | undefined;
+    const transaction = await transactionService.postTransaction({
+      // A payout with withheld arrears pays several wallets; its legs carry the split
+      type: paidElsewhere.length > 0 ? 'split' : 'transfer',
+      amount: formatMoney(received),
+      currency: group.currency,
+      description,
+      fromWalletId: group.groupWalletId,
+      toWalletId: recipient.walletId,
+      idempotencyKey: data.idempotencyKey,
+      metadata: {
+        type: 'rosca_payout',
+        groupId: group.id,
+        round: round.roundNumber,
+        memberId: recipient.id,
+        ...(withheld.length > 0 && { deductions: withheld }),
+      },
+    }, legs, {
+      requireFunds: [{ walletId: group.groupWalletId, amount: received }],
+      afterPost: async (transaction, tx) => {
+        const locked = await roscaRepository.lockGroup(group.id, tx);
+        if (!locked || locked.status !== 'active' || locked.currentRound !== round.roundNumber) {
+          throw new ApiError(`Round ${round.roundNumber} has already been paid out`, 409, 'INVALID_ROUND_STATUS', {
+            groupId: group.id,
+            roundNumber: round.roundNumber,
+          });
+        }
+        // A contribution or assessment since the pot was read changes what this payout should be
+        const current = (await roscaRepository.getRound(group.id, round.roundNumber, tx))!;
+        if (current.receivedAmount !== round.receivedAmount || current.recipientMemberId !== round.recipientMemberId) {
+          throw new ApiError(`Round ${round.roundNumber} changed while being paid out`, 409, 'INVALID_ROUND_STATUS', {
+            groupId: group.id,
+            roundNumber: round.roundNumber,
+          });
+        }
+        for (const deduction of deductions) {
+          const recovered = await roscaRepository.transitionPenalty(deduction.penalty.id, 'outstanding', {
+            status: 'recovered',
+            transactionId: transaction.id,
+          }, tx);
+          if (!recovered) {
+            throw new ApiError(`Penalty ${deduction.penalty.id} was settled while being withheld`, 409, 'INVALID_PENALTY_STATUS', {
+              penaltyId: deduction.penalty.id,
+            });
+          }
+        }
+
+        paidRound = await roscaRepository.updateRound(round.id, {
+          status: 'paid_out',
+          payoutTransactionId: transaction.id,
+          paidOutAt: new Date(),
+        }, tx);
+        const lastRound = round.roundNumber >= members.length;
+        await roscaRepository.updateGroup(group.id, lastRound
+          ? { status: 'completed' }
+          : { currentRound: round.roundNumber + 1 }, tx);
+      },
+    });
+
+    return {
+      round: paidRound || (await roscaRepository.getRound(group.id, round.roundNumber))!,
+      recipient,
+      transaction,
+      deductions: withheld,
+    };
+  }
+
+  private async findRound(group: RoscaGroup, roundNumber: number): Promise<RoscaRound> {
+    const round = await roscaRepository.getRound(group.id, roundNumber);
+    if (!round) {
+      throw new Error(`Round ${roundNumber} not found`);
+    }
+    return round;
+  }
+
+  private outstandingMembers(members: RoscaMember[], contributions: RoscaContribution[]): string[] {
+    const paid = new Set(contributions.map(c => c.memberId));
+    return members.filter(m => !paid.has(m.id)).map(m => m.id);
+  }
+
+  private assertActive(group: RoscaGroup) {
+    if (group.status !== 'active') {
+      throw new ApiError(`ROSCA group is ${group.status}`, 409, 'INVALID_GROUP_STATUS', { groupId: group.id, status: group.status });
+    }
+  }
+
+  private assertRoundOpen(round: RoscaRound) {
+    if (round.status !== 'open') {
+      throw new ApiError(`Round ${round.roundNumber} has already been paid out`, 409, 'INVALID_ROUND_STATUS', {
+        groupId: round.groupId,
+        roundNumber: round.roundNumber,
+      });
+    }
+  }
+}
+
+export const roscaService = new RoscaService();
@@ -0,0 +1,121 @@
+import type { WalletStatement } from "./statement";
+
+// Minimal PDF writer for statements: monospaced text only, so no layout engine or font
+// embedding is needed (Courier is one of the 14 standard PDF fonts).
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LEADING = 12;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING) - 2; // Room for the footer
+
+const COLUMNS = [
+  { title: 'Posted (UTC)', width: 19 },
+  { title: 'Type', width: 6 },
+  { title: 'Description', width: 32 },
+  { title: 'Amount', width: 15, right: true },
+  { title: 'Balance', width: 15, right: true },
+];
+
+function fit(text: string, width: number, right = false): string {
+  const clipped = text.length > width ? text.slice(0, width - 1) + '~' : text;
+  return right ? clipped.padStart(width) : clipped.padEnd(width);
+}
+
+function row(values: string[]): string {
+  return COLUMNS.map((column, i) => fit(values[i], column.width, column.right)).join(' ');
+}
+
+// PDF string literal; anything outside printable ASCII is replaced since Courier here is not embedded
+function pdfString(text: string): string {
+  const ascii = text.replace(/[^\x20-\x7e]/g, '?');
+  return `(${ascii.replace(/([\\()])/g, '\\$1')})`;
+}
+
+function statementLines(statement: WalletStatement): { header: string[]; body: string[] } {
+  const header = [
+    `Wallet statement: ${statement.walletName || statement.walletId}`,
+    `Wallet ${statement.walletId} (${statement.currency})`,
+    `Period ${statement.from} to ${statement.to}`,
+    '',
+  ];
+  const body = [
+    `Opening balance: ${statement.openingBalance} ${statement.currency}`,
+    '',
+    ...statement.entries.map(line => row([
+      line.postedAt.slice(0, 19).replace('T', ' '),
+      line.type,
+      line.description || '',
+      line.type === 'debit' ? `-${line.amount}` : line.amount,
+      line.balance,
+    ])),
+    '',
+    `Total credits:   ${statement.totalCredits} ${statement.currency}`,
+    `Total debits:    ${statement.totalDebits} ${statement.currency}`,
+    `Closing balance: ${statement.closingBalance} ${statement.currency}`,
+  ];
+  return { header, body };
+}
+
+export function renderStatementPdf(statement: WalletStatement): Buffer {
+  const { header, body } = statementLines(statement);
+  const columnHeader = [row(COLUMNS.map(c => c.title)), '-'.repeat(row(COLUMNS.map(() => '')).length)];
+
+  // Header block on the first page, the column titles on every page
+  const pages: string[][] = [];
+  let current = [...header, ...columnHeader];
+  for (const line of body) {
+    if (current.length >= LINES_PER_PAGE) {
+      pages.push(current);
+      current = [...columnHeader];
+    }
+    current.push(line);
+  }
+  pages.push(current);
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((lines, i) => {
+    const footer = `Generated ${statement.generatedAt} - page ${i + 1} of ${pages.length}`;
+    const stream = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...lines.map(line => `${pdfString(line)} '`),
+      'ET',
+      'BT',
+      `/F1 ${FONT_SIZE - 2} Tf`,
+      `${MARGIN} ${MARGIN / 2} Td`,
+      `${pdfString(footer)} Tj`,
+      'ET',
+    ].join('\n');
+
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Everything above is ASCII, so string offsets equal byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,114 @@
+import { ledgerRepository } from "../repositories";
+import { walletService } from "./wallet";
+import { renderStatementPdf } from "./statement-pdf";
+import { type Money, parseMoney, formatMoney, addMoney, zeroMoney } from "@shared/money";
+
+export interface StatementLine {
+  entryId: string;
+  transactionId: string;
+  postedAt: string;
+  type: 'debit' | 'credit';
+  description: string | null;
+  amount: string;
+  balance: string; // Running balance after this entry
+}
+
+export interface WalletStatement {
+  walletId: string;
+  walletName: string | null;
+  currency: string;
+  from: string;
+  to: string;
+  openingBalance: string;
+  closingBalance: string;
+  totalCredits: string;
+  totalDebits: string;
+  entries: StatementLine[];
+  generatedAt: string;
+}
+
+const CSV_HEADER = ['posted_at', 'entry_id', 'transaction_id', 'type', 'description', 'amount', 'balance'];
+
+/**
+ * Wallet statements over a date range, built from ledger running balances: the opening
+ * balance is the balance just before `from`, the closing balance the one after the last entry.
+ */
+export class StatementService {
+  async getStatement(partnerId: string, walletId: string, from: Date, to: Date): Promise<WalletStatement> {
+    const wallet = await walletService.getPartnerWallet({ partnerId, walletId });
+    if (!wallet) {
+      throw new Error('Wallet not found or access denied');
+    }
+
+    const currency = wallet.currency;
+    const [openingEntry, entries] = await Promise.all([
+      ledgerRepository.getLatestEntryAsOf(wallet.id, from, false),
+      ledgerRepository.listByWalletBetween(wallet.id, from, to),
+    ]);
+
+    const opening = parseMoney(openingEntry?.balance || '0', currency);
+    let closing: Money = opening;
+    let credits = zeroMoney(currency);
+    let debits = zeroMoney(currency);
+    const lines: StatementLine[] = entries.map(entry => {
+      const amount = parseMoney(entry.amount, currency);
+      closing = parseMoney(entry.balance, currency);
+      if (entry.type === 'credit') {
+        credits = addMoney(credits, amount);
+      } else {
+        debits = addMoney(debits, amount);
+      }
+      return {
+        entryId: entry.id,
+        transactionId: entry.transactionId,
+        postedAt: entry.createdAt.toISOString(),
+        type: entry.type,
+        description: entry.description,
+        amount: formatMoney(amount),
+        balance: formatMoney(closing),
+      };
+    });
+
+    return {
+      walletId: wallet.id,
+      walletName: wallet.name,
+      currency,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      openingBalance: formatMoney(opening),
+      closingBalance: formatMoney(closing),
+      totalCredits: formatMoney(credits),
+      totalDebits: formatMoney(debits),
+      entries: lines,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Opening and closing balances are emitted as their own rows so the file stands alone
+  toCsv(statement: WalletStatement): string {
+    const rows: Array<Array<string | null>> = [
+      CSV_HEADER,
+      [statement.from, '', '', 'opening_balance', null, '', statement.openingBalance],
+      ...statement.entries.map(line => [
+        line.postedAt, line.entryId, line.transactionId, line.type, line.description, line.amount, line.balance,
+      ]),
+      [statement.to, '', '', 'closing_balance', null, '', statement.closingBalance],
+    ];
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+  }
+
+  toPdf(statement: WalletStatement): Buffer {
+    return renderStatementPdf(statement);
+  }
+}
+
+function csvField(value: string | null): string {
+  let field = value ?? '';
+  // Keep spreadsheet apps from evaluating partner-supplied descriptions as formulas
+  if (/^[=+\-@]/.test(field) && !/^-?\d/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+export const statementService = new StatementService();
@@ -0,0 +1,182 @@
+import { walletsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { walletService } from "./wallet";
+import { walletApprovalService } from "./wallet-approval";
+import { ApiError } from "../errors";
+import type { Transfer, UpdateSubWalletRules, Wallet } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, sumMoney, compareMoney, zeroMoney } from "@shared/money";
+import type { DbExecutor } from "../db";
+
+/**
+ * Parent/child wallets, one level deep: a parent (e.g. a user's main wallet or a group wallet)
+ * with sub-wallets (savings pots, per-member sub-ledgers) in the same currency. Every posting
+ * that touches a wallet in a tree also locks the parent, which serializes the tree, so the
+ * consolidated balance and the parent's rules can be checked under the lock.
+ */
+export class SubWalletService {
+  // Checks a new wallet's parent; the relationship cannot be changed afterwards
+  async assertValidParent(partnerId: string, parentWalletId: string, currency: string): Promise<Wallet> {
+    const parent = await walletsRepository.getById(parentWalletId);
+    if (!parent || parent.partnerId !== partnerId || parent.systemAccountType) {
+      throw new Error('Parent wallet not found or access denied');
+    }
+    if (parent.parentWalletId) {
+      throw new ApiError('Sub-wallets cannot have sub-wallets of their own', 409, 'INVALID_PARENT_WALLET', { parentWalletId });
+    }
+    if (parent.status === 'closed') {
+      throw new ApiError('Parent wallet is closed', 409, 'INVALID_PARENT_WALLET', { parentWalletId, status: parent.status });
+    }
+    if (parent.currency !== currency) {
+      throw new Error(`Currency mismatch: parent wallet holds ${parent.currency}, sub-wallet would hold ${currency}`);
+    }
+    return parent;
+  }
+
+  async listChildren(partnerId: string, parentWalletId: string): Promise<Wallet[]> {
+    const parent = await this.getParent(partnerId, parentWalletId);
+    return await walletsRepository.listChildren(parent.id);
+  }
+
+  // The parent and each child with their balances, plus the consolidated roll-up
+  async getTree(partnerId: string, parentWalletId: string) {
+    const parent = await this.getParent(partnerId, parentWalletId);
+    const children = await walletsRepository.listChildren(parent.id);
+    const withBalances = await Promise.all([parent, ...children].map(async (wallet) => ({
+      wallet,
+      balance: await walletsRepository.getBalance(wallet.id, wallet.currency),
+      available: await walletService.getAvailableBalance(wallet.id, wallet.currency),
+    })));
+    const present = ({ wallet, balance, available }: typeof withBalances[number]) => ({
+      ...wallet,
+      balance: formatMoney(balance),
+      availableBalance: formatMoney(available),
+    });
+
+    return {
+      parent: present(withBalances[0]),
+      children: withBalances.slice(1).map(present),
+      consolidated: {
+        currency: parent.currency,
+        balance: formatMoney(sumMoney(withBalances.map(w => w.balance), parent.currency)),
+        availableBalance: formatMoney(sumMoney(withBalances.map(w => w.available), parent.currency)),
+      },
+    };
+  }
+
+  async setRules(partnerId: string, parentWalletId: string, rules: UpdateSubWalletRules): Promise<Wallet> {
+    const parent = await this.getParent(partnerId, parentWalletId);
+    return await walletsRepository.update(parent.id, { subWalletRules: rules });
+  }
+
+  // Move money between two wallets of the same tree. The tree's own money does not change, so
+  // internal moves carry no fee and are exempt from every wallet limit, maximum balance included;
+  // an approval policy on the paying wallet still applies.
+  async transfer(partnerId: string, parentWalletId: string, data: Transfer) {
+    const parent = await this.getParent(partnerId, parentWalletId);
+    for (const walletId of [data.fromWalletId, data.toWalletId]) {
+      const wallet = await walletsRepository.getById(walletId);
+      if (!wallet || (wallet.id !== parent.id && wallet.parentWalletId !== parent.id)) {
+        throw new Error(`Wallet ${walletId} is not part of this wallet tree`);
+      }
+    }
+
+    const transaction = {
+      type: 'transfer' as const,
+      amount: data.amount,
+      currency: data.currency || parent.currency,
+      description: data.description || 'Transfer within wallet tree',
+      fromWalletId: data.fromWalletId,
+      toWalletId: data.toWalletId,
+      idempotencyKey: data.idempotencyKey,
+      metadata: { subWalletTransfer: { parentWalletId: parent.id } },
+    };
+    const policy = await walletApprovalService.policyFor(data.fromWalletId, parseMoney(transaction.amount, transaction.currency));
+    if (policy) {
+      return await walletApprovalService.propose(partnerId, policy, transaction, {});
+    }
+    return await transactionService.createTransaction(partnerId, transaction, { pending: data.pending });
+  }
+
+  // The wallets plus the parents of any sub-wallets among them, for locking
+  async withParents(walletIds: string[], executor?: DbExecutor): Promise<string[]> {
+    const wallets = await walletsRepository.getByIds(Array.from(new Set(walletIds)), executor);
+    const parentIds = wallets.map(w => w.parentWalletId).filter((id): id is string => !!id);
+    return [...walletIds, ...parentIds];
+  }
+
+  // Funds check for a posting that debits the wallet. A wallet outside any tree needs its own
+  // available balance. In a tree the consolidated available balance must cover it too, and a
+  // child needs only that unless its parent prevents negative children.
+  async hasFunds(wallet: Wallet, amount: Money, tx: DbExecutor, excludeHoldId?: string): Promise<boolean> {
+    const own = await walletService.getAvailableBalance(wallet.id, amount.currency, tx, excludeHoldId);
+    const parent = wallet.parentWalletId ? await this.getLockedParent(wallet.parentWalletId, tx) : wallet;
+    const children = await walletsRepository.listChildren(parent.id, tx);
+    if (children.length === 0) {
+      return compareMoney(own, amount) >= 0;
+    }
+
+    const overdraftAllowed = wallet.parentWalletId && !parent.subWalletRules?.preventNegativeChildren;
+    if (!overdraftAllowed && compareMoney(own, amount) < 0) {
+      return false;
+    }
+    const tree = await Promise.all([parent, ...children].map(w => walletService.getAvailableBalance(w.id, amount.currency, tx, excludeHoldId)));
+    return compareMoney(sumMoney(tree, amount.currency), amount) >= 0;
+  }
+
+  // Enforce the parents' rules on the balances a posting has just written
+  async assertRules(walletIds: string[], tx: DbExecutor) {
+    const touched = await walletsRepository.getByIds(Array.from(new Set(walletIds)), tx);
+    for (const wallet of touched) {
+      const parent = wallet.parentWalletId ? await this.getLockedParent(wallet.parentWalletId, tx) : wallet;
+      const rules = parent.subWalletRules;
+      if (!rules || (!rules.preventNegativeChildren && !rules.capAtParentBalance)) continue;
+
+      // A change to the parent's balance can put any child over the cap
+      const children = wallet.parentWalletId
+        ? [wallet]
+        : rules.capAtParentBalance ? await walletsRepository.listChildren(parent.id, tx) : [];
+      const parentBalance = await walletsRepository.getBalance(parent.id, parent.currency, tx);
+      for (const child of children) {
+        const balance = await walletsRepository.getBalance(child.id, child.currency, tx);
+        if (rules.preventNegativeChildren && compareMoney(balance, zeroMoney(child.currency)) < 0) {
+          this.ruleBroken(child, parent, 'preventNegativeChildren', balance, parentBalance);
+        }
+        if (rules.capAtParentBalance && compareMoney(balance, parentBalance) > 0) {
+          this.ruleBroken(child, parent, 'capAtParentBalance', balance, parentBalance);
+        }
+      }
+    }
+  }
+
+  private ruleBroken(child: Wallet, parent: Wallet, rule: keyof UpdateSubWalletRules, balance: Money, parentBalance: Money): never {
+    throw new ApiError(`Sub-wallet rule ${rule} of wallet ${parent.id} would be broken`, 409, 'SUB_WALLET_RULE_VIOLATION', {
+      rule,
+      walletId: child.id,
+      parentWalletId: parent.id,
+      balance: formatMoney(balance),
+      parentBalance: formatMoney(parentBalance),
+    });
+  }
+
+  // Posting code locks the parent alongside the wallets it touches, so this reads it under that lock
+  private async getLockedParent(parentWalletId: string, tx: DbExecutor): Promise<Wallet> {
+    const [parent] = await walletsRepository.lockForUpdate([parentWalletId], tx);
+    return parent;
+  }
+
+  private async getParent(partnerId: string, walletId: string): Promise<Wallet> {
+    const wallet = await walletsRepository.getById(walletId);
+    if (!wallet || wallet.partnerId !== partnerId || wallet.systemAccountType) {
+      throw new Error('Wallet not found or access denied');
+    }
+    if (wallet.parentWalletId) {
+      throw new ApiError('Wallet is a sub-wallet; use its parent', 409, 'INVALID_PARENT_WALLET', {
+        walletId,
+        parentWalletId: wallet.parentWalletId,
+      });
+    }
+    return wallet;
+  }
+}
+
+export const subWalletService = new SubWalletService();
@@ -0,0 +1,116 @@
+import { walletsRepository, partnersRepository } from "../repositories";
+import type { SystemAccountType, Wallet } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { isUniqueViolation } from "../errors";
+
+// Counterparty system account for each kind of posting
+export type LedgerOperation =
+  | 'manual_credit'
+  | 'manual_debit'
+  | 'funding'
+  | 'payout'
+  | 'fee'
+  | 'fx'
+  | 'unmatched'
+  | 'write_off'
+  | 'escrow';
+
+const OPERATION_ACCOUNTS: Record<LedgerOperation, SystemAccountType> = {
+  manual_credit: 'clearing',
+  manual_debit: 'clearing',
+  funding: 'gateway_receivable',
+  payout: 'payouts_in_transit',
+  fee: 'fees_revenue',
+  fx: 'fx_position',
+  unmatched: 'suspense',
+  write_off: 'write_offs',
+  escrow: 'escrow',
+};
+
+const ACCOUNT_NAMES: Record<SystemAccountType, string> = {
+  clearing: 'Clearing',
+  gateway_receivable: 'Gateway Receivable',
+  payouts_in_transit: 'Payouts In Transit',
+  fees_revenue: 'Fees Revenue',
+  fx_position: 'FX Position',
+  suspense: 'Suspense',
+  write_offs: 'Write-offs',
+  escrow: 'Escrow',
+};
+
+// Partner settings keys used before system accounts had their own column
+const LEGACY_SETTINGS_KEYS: Partial<Record<SystemAccountType, 'clearingWalletIds' | 'fxPositionWalletIds'>> = {
+  clearing: 'clearingWalletIds',
+  fx_position: 'fxPositionWalletIds',
+};
+
+/**
+ * Per-partner, per-currency system ledger accounts. They are ordinary wallets flagged with
+ * systemAccountType, created on first use, and may run negative (e.g. clearing after credits).
+ */
+export class SystemAccountService {
+  accountTypeFor(operation: LedgerOperation): SystemAccountType {
+    return OPERATION_ACCOUNTS[operation];
+  }
+
+  async getAccountForOperation(partnerId: string, operation: LedgerOperation, currency: string): Promise<Wallet> {
+    return await this.getOrCreateAccount(partnerId, this.accountTypeFor(operation), currency);
+  }
+
+  async getOrCreateAccount(partnerId: string, type: SystemAccountType, currency: string): Promise<Wallet> {
+    const existing = await walletsRepository.getSystemAccount(partnerId, type, currency);
+    if (existing) return existing;
+
+    const adopted = await this.adoptLegacyWallet(partnerId, type, currency);
+    if (adopted) return adopted;
+
+    try {
+      return await walletsRepository.createSystemAccount({
+        partnerId,
+        name: `${ACCOUNT_NAMES[type]} (${currency})`,
+        currency,
+        systemAccountType: type,
+        metadata: { system: true, purpose: type },
+      });
+    } catch (error) {
+      // Another request created the same account first
+      if (isUniqueViolation(error)) {
+        const created = await walletsRepository.getSystemAccount(partnerId, type, currency);
+        if (created) return created;
+      }
+      throw error;
+    }
+  }
+
+  async listAccounts(partnerId: string) {
+    const accounts = await walletsRepository.listSystemAccounts(partnerId);
+    return await Promise.all(accounts.map(async (account) => ({
+      ...account,
+      balance: formatMoney(await walletsRepository.getBalance(account.id, account.currency)),
+    })));
+  }
+
+  // Clearing and FX position wallets used to be tracked in partner settings; tag them
+  // instead of creating a second account so their ledger history carries over.
+  private async adoptLegacyWallet(partnerId: string, type: SystemAccountType, currency: string): Promise<Wallet | undefined> {
+    const settingsKey = LEGACY_SETTINGS_KEYS[type];
+    if (!settingsKey) return undefined;
+
+    const partner = await partnersRepository.getById(partnerId);
+    const settings = partner?.settings || {};
+    const candidateIds = [settings[settingsKey]?.[currency]];
+    if (type === 'clearing') {
+      candidateIds.push(settings.clearingWalletId);
+    }
+
+    for (const candidateId of candidateIds.filter((id): id is string => !!id)) {
+      const wallet = await walletsRepository.getById(candidateId);
+      if (wallet && wallet.partnerId === partnerId && wallet.currency === currency && !wallet.systemAccountType) {
+        return await walletsRepository.setSystemAccountType(wallet.id, type);
+      }
+    }
+    return undefined;
+  }
+}
+
+export const systemAccountService = new SystemAccountService();
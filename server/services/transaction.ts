@@ -1,25 +1,395 @@
-import { ledgerService } from "./ledger";
+import { ledgerService, type LedgerEntryInput } from "./ledger";
 import { walletService } from "./wallet";
-import type { InsertTransaction } from "@shared/schema";
-import { walletsRepository, transactionsRepository } from "../repositories";
+import { systemAccountService, type LedgerOperation } from "./system-accounts";
+import { webhookService } from "./webhook";
+import { feeService, type AppliedFee } from "./fee";
+import { walletLimitService, type LimitMovement } from "./wallet-limits";
+import { walletApprovalService } from "./wallet-approval";
+import { subWalletService } from "./sub-wallets";
+import { ApiError, ApprovalRequiredError, WalletNotActiveError, isUniqueViolation } from "../errors";
+import type { FeeBreakdown, FeeOperation, InsertTransaction, LedgerEntry, MultiLegTransaction, ReverseTransaction, Transaction, TransactionSettlement, VoidTransaction, Wallet } from "@shared/schema";
+import { type Money, money, parseMoney, formatMoney, addMoney, subtractMoney, sumMoney, compareMoney } from "@shared/money";
+import { walletsRepository, transactionsRepository, ledgerRepository, holdsRepository } from "../repositories";
+import { withTransaction, type DbExecutor } from "../db";
+
+type TransactionInput = Omit<InsertTransaction, 'id'> & {
+  status?: Transaction['status'];
+  reversedTransactionId?: string;
+  fee?: FeeBreakdown;
+  settlement?: TransactionSettlement;
+};
+
+// What the legs of a credit, debit or transfer are built from
+type LegSource = Pick<InsertTransaction, 'type' | 'description' | 'fromWalletId' | 'toWalletId'>;
+
+export interface FundsRequirement {
+  walletId: string;
+  amount: Money;
+  excludeHoldId?: string; // A hold being captured by this posting is not counted
+}
+
+export interface PostingOptions {
+  // Wallets whose available balance (ledger balance minus active holds) must cover the
+  // amount once they are locked
+  requireFunds?: FundsRequirement[];
+  // Wallet limits to check once the wallets are locked
+  limits?: LimitMovement[];
+  // Wallets allowed to move money while not active (sweeping a wallet that is being closed)
+  allowInactiveWalletIds?: string[];
+  // Wallets to lock besides those the legs touch (a pending transaction has no legs yet)
+  lockWalletIds?: string[];
+  // Runs inside the posting transaction after the ledger legs are written; may return the
+  // transaction row if it changed it
+  afterPost?: (transaction: Transaction, tx: DbExecutor) => Promise<Transaction | void>;
+}
+
+// Passed by the wallet approval service when it settles or voids the transaction it holds
+export interface ApprovalOptions {
+  approvalRequestId?: string;
+}
+
+// Passed by the funding, payout and refund flows when they settle or void their own reservation
+export interface OwnerOptions {
+  owner?: TransactionSettlement['owner'];
+}
 
 export class TransactionService {
-  async createTransaction(partnerId: string, transactionData: Omit<InsertTransaction, 'id'>) {
+  async createTransaction(
+    partnerId: string,
+    transactionData: Omit<InsertTransaction, 'id'>,
+    options: Pick<PostingOptions, 'afterPost' | 'allowInactiveWalletIds'> & {
+      excludeHoldId?: string;
+      operation?: LedgerOperation;
+      fee?: FeeOperation; // Apply the partner's fee schedule for this operation, if any
+      enforceLimits?: boolean; // Check wallet balance and velocity limits on both sides
+      pending?: boolean; // Two-phase: reserve the funds now, post the legs on settle
+      owner?: TransactionSettlement['owner']; // Flow that alone may settle or void the pending transaction
+    } = {}
+  ) {
     // Validate wallet ownership if specified
-    if (transactionData.fromWalletId) {
-      const fromWallet = await walletsRepository.getById(transactionData.fromWalletId);
-      if (!fromWallet || fromWallet.partnerId !== partnerId) {
-        throw new Error('From wallet not found or access denied');
+    const fromWallet = transactionData.fromWalletId ? await walletsRepository.getById(transactionData.fromWalletId) : undefined;
+    if (transactionData.fromWalletId && (!fromWallet || fromWallet.partnerId !== partnerId)) {
+      throw new Error('From wallet not found or access denied');
+    }
+    const toWallet = transactionData.toWalletId ? await walletsRepository.getById(transactionData.toWalletId) : undefined;
+    if (transactionData.toWalletId && (!toWallet || toWallet.partnerId !== partnerId)) {
+      throw new Error('To wallet not found or access denied');
+    }
+
+    // Without a currency the transaction moves money in the wallet's own currency. Parsing
+    // also rejects unknown currencies and amounts finer than the currency allows.
+    const currency = transactionData.currency || fromWallet?.currency || toWallet?.currency;
+    if (!currency) {
+      throw new Error('Currency is required when no wallet is given');
+    }
+    const amount = parseMoney(transactionData.amount, currency);
+    for (const wallet of [fromWallet, toWallet]) {
+      if (wallet) this.assertWalletCurrency(wallet, amount.currency);
+    }
+    transactionData = { ...transactionData, currency: amount.currency };
+
+    const ledgerEntries = await this.buildLegs(partnerId, transactionData, amount, options.operation);
+
+    // Fees are extra legs from the paying wallet to fees revenue: taken out of credits, on top of debits and transfers
+    const feePayerId = transactionData.type === 'credit' ? transactionData.toWalletId : transactionData.fromWalletId;
+    const fee = options.fee && feePayerId && ledgerEntries.length > 0
+      ? await feeService.calculateFee(partnerId, options.fee, amount, feePayerId)
+      : undefined;
+    if (fee) {
+      ledgerEntries.push(...await this.buildFeeLegs(partnerId, transactionData, fee));
+    }
+
+    const requiresFunds = (transactionData.type === 'debit' || transactionData.type === 'transfer') && transactionData.fromWalletId;
+    const debitTotal = fee && feePayerId === transactionData.fromWalletId ? addMoney(amount, fee.amount) : amount;
+
+    const limits: LimitMovement[] = [];
+    if (options.enforceLimits && ledgerEntries.length > 0) {
+      if (transactionData.fromWalletId) {
+        limits.push({
+          walletId: transactionData.fromWalletId,
+          direction: 'debit',
+          amount: debitTotal,
+          transactionAmount: amount,
+          balanceChange: money(-debitTotal.amount, amount.currency),
+        });
       }
+      if (transactionData.toWalletId) {
+        limits.push({
+          walletId: transactionData.toWalletId,
+          direction: 'credit',
+          amount,
+          transactionAmount: amount,
+          balanceChange: fee && feePayerId === transactionData.toWalletId ? subtractMoney(amount, fee.amount) : amount,
+        });
+      }
+    }
+
+    const requireFunds = requiresFunds
+      ? [{ walletId: transactionData.fromWalletId!, amount: debitTotal, excludeHoldId: options.excludeHoldId }]
+      : undefined;
+
+    if (options.pending) {
+      if (ledgerEntries.length === 0) {
+        throw new Error(`A pending ${transactionData.type} needs the wallets it moves money between`);
+      }
+      // No legs yet: the payer's funds are reserved with a hold, which lowers the available
+      // balance but not the ledger balance until the transaction is settled
+      return await this.postTransaction({
+        ...transactionData,
+        status: 'pending',
+        fee: fee?.breakdown,
+        settlement: { operation: options.operation || null, holdId: null, ...(options.owner ? { owner: options.owner } : {}) },
+      }, [], {
+        requireFunds,
+        limits,
+        allowInactiveWalletIds: options.allowInactiveWalletIds,
+        lockWalletIds: ledgerEntries.map(e => e.walletId),
+        afterPost: async (transaction, tx) => {
+          let result = transaction;
+          if (requiresFunds) {
+            const hold = await holdsRepository.create({
+              walletId: transactionData.fromWalletId!,
+              amount: formatMoney(debitTotal),
+              currency: debitTotal.currency,
+              description: `Pending: ${transactionData.description || transactionData.type}`,
+              metadata: { pendingTransactionId: transaction.id },
+            }, tx);
+            result = await transactionsRepository.update(transaction.id, {
+              settlement: { ...transaction.settlement!, holdId: hold.id },
+            }, tx);
+          }
+          return (options.afterPost && await options.afterPost(result, tx)) || result;
+        },
+      });
+    }
+
+    return await this.postTransaction({ ...transactionData, fee: fee?.breakdown }, ledgerEntries, {
+      requireFunds,
+      limits,
+      allowInactiveWalletIds: options.allowInactiveWalletIds,
+      afterPost: options.afterPost,
+    });
+  }
+
+  /**
+   * Settle a pending transaction: post its ledger legs, with the fee worked out when it was
+   * created, and capture the hold that reserved the payer's funds. Settling again is a no-op.
+   */
+  async settleTransaction(
+    partnerId: string,
+    transactionId: string,
+    options: ApprovalOptions & OwnerOptions & Pick<PostingOptions, 'allowInactiveWalletIds'> = {}
+  ): Promise<Transaction> {
+    const pending = await this.getPartnerTransaction(partnerId, transactionId);
+    const settlement = this.getSettlement(pending);
+    this.assertOwner(pending, settlement, 'settled', options);
+    if (pending.status === 'completed') {
+      return pending;
+    }
+    this.assertPending(pending, 'settled');
+    this.assertApproval(pending, settlement, 'settled', options);
+
+    const amount = parseMoney(pending.amount, pending.currency);
+    const legs = await this.buildLegs(partnerId, pending, amount, (settlement.operation as LedgerOperation) || undefined);
+    if (pending.fee) {
+      legs.push(...await this.buildFeeLegs(partnerId, pending, {
+        amount: parseMoney(pending.fee.amount, pending.fee.currency),
+        breakdown: pending.fee,
+      }));
     }
 
-    if (transactionData.toWalletId) {
-      const toWallet = await walletsRepository.getById(transactionData.toWalletId);
-      if (!toWallet || toWallet.partnerId !== partnerId) {
-        throw new Error('To wallet not found or access denied');
+    let settledNow = false;
+    const settled = await withTransaction(async (tx) => {
+      const hold = settlement.holdId ? await holdsRepository.getById(settlement.holdId, tx) : undefined;
+      await this.lockAndCheck(legs.map(leg => leg.walletId), {
+        allowInactiveWalletIds: options.allowInactiveWalletIds,
+        // The hold already reserves the payer's share, so only the rest of the balance is checked
+        requireFunds: hold
+          ? [{ walletId: hold.walletId, amount: parseMoney(hold.amount, hold.currency), excludeHoldId: hold.id }]
+          : undefined,
+      }, tx);
+
+      // Re-read under the wallet locks in case it was settled or voided concurrently
+      const current = await transactionsRepository.getById(pending.id, tx);
+      if (!current) {
+        throw new Error('Transaction not found');
+      }
+      if (current.status === 'completed') {
+        return current;
+      }
+      this.assertPending(current, 'settled');
+
+      await ledgerService.createDoubleEntry(current.id, legs, tx);
+      await subWalletService.assertRules(legs.map(leg => leg.walletId), tx);
+      if (hold) {
+        await holdsRepository.update(hold.id, { capturedAmount: hold.amount, status: 'captured' }, tx);
       }
+      settledNow = true;
+      return await transactionsRepository.update(current.id, {
+        status: 'completed',
+        settlement: { ...settlement, settledAt: new Date().toISOString() },
+      }, tx);
+    });
+
+    if (settledNow) {
+      await this.notifyPartner(partnerId, 'transaction.settled', settled);
     }
+    return settled;
+  }
 
+  // Cancel a pending transaction and release its hold. Nothing was posted, so nothing is reversed.
+  async voidTransaction(partnerId: string, transactionId: string, data: VoidTransaction = {}, options: ApprovalOptions & OwnerOptions = {}): Promise<Transaction> {
+    const pending = await this.getPartnerTransaction(partnerId, transactionId);
+    const settlement = this.getSettlement(pending);
+    this.assertOwner(pending, settlement, 'voided', options);
+    if (pending.status === 'cancelled') {
+      return pending;
+    }
+    this.assertPending(pending, 'voided');
+    this.assertApproval(pending, settlement, 'voided', options);
+
+    let voidedNow = false;
+    const voided = await withTransaction(async (tx) => {
+      // Settling locks these wallets too, so the two cannot interleave
+      await walletsRepository.lockForUpdate([pending.fromWalletId, pending.toWalletId].filter((id): id is string => !!id), tx);
+      const current = await transactionsRepository.getById(pending.id, tx);
+      if (!current) {
+        throw new Error('Transaction not found');
+      }
+      if (current.status === 'cancelled') {
+        return current;
+      }
+      this.assertPending(current, 'voided');
+
+      const hold = settlement.holdId ? await holdsRepository.getById(settlement.holdId, tx) : undefined;
+      if (hold?.status === 'active') {
+        await holdsRepository.update(hold.id, { status: 'released' }, tx);
+      }
+      voidedNow = true;
+      return await transactionsRepository.update(current.id, {
+        status: 'cancelled',
+        settlement: { ...settlement, voidedAt: new Date().toISOString(), voidReason: data.reason || null },
+      }, tx);
+    });
+
+    if (voidedNow) {
+      await this.notifyPartner(partnerId, 'transaction.voided', voided, { reason: data.reason || null });
+    }
+    return voided;
+  }
+
+  /**
+   * Move money from one or more source wallets to several destinations in a single posting,
+   * e.g. a purchase split between seller, platform fee and tax wallets. The schema guarantees
+   * sources and destinations add up to the same total, so the legs balance by construction.
+   */
+  async createMultiLegTransaction(partnerId: string, data: MultiLegTransaction) {
+    const currency = data.currency;
+    const toLeg = (leg: MultiLegTransaction['sources'][number], type: 'debit' | 'credit'): LedgerEntryInput => ({
+      walletId: leg.walletId,
+      type,
+      amount: parseMoney(leg.amount, currency),
+      description: leg.description || data.description || (type === 'debit' ? 'Split payment out' : 'Split payment in'),
+    });
+    const legs = [
+      ...data.sources.map(leg => toLeg(leg, 'debit')),
+      ...data.destinations.map(leg => toLeg(leg, 'credit')),
+    ];
+
+    for (const leg of legs) {
+      const wallet = await walletsRepository.getById(leg.walletId);
+      if (!wallet || wallet.partnerId !== partnerId || wallet.systemAccountType) {
+        throw new Error(`Wallet ${leg.walletId} not found or access denied`);
+      }
+      this.assertWalletCurrency(wallet, currency);
+    }
+    for (const leg of legs.filter(leg => leg.type === 'debit')) {
+      await walletApprovalService.assertNotRequired(leg.walletId, leg.amount);
+    }
+
+    const total = sumMoney(legs.filter(leg => leg.type === 'debit').map(leg => leg.amount), currency);
+    const limits = await this.limitsForLegs(legs);
+    const requireFunds: FundsRequirement[] = data.sources.map(leg => ({ walletId: leg.walletId, amount: parseMoney(leg.amount, currency) }));
+
+    // The split fee is worked out on the total and paid on top by the first source
+    const fee = await feeService.calculateFee(partnerId, 'split', total, data.sources[0].walletId);
+    if (fee) {
+      legs.push(...await this.buildFeeLegs(partnerId, { type: 'split', description: data.description }, fee));
+      this.addFee(requireFunds, limits, fee);
+    }
+
+    const single = (side: MultiLegTransaction['sources']) => (side.length === 1 ? side[0].walletId : undefined);
+    return await this.postTransaction({
+      type: 'split',
+      amount: formatMoney(total),
+      currency,
+      description: data.description,
+      fee: fee?.breakdown,
+      // Only set when that side has a single wallet; the ledger legs carry the full picture
+      fromWalletId: single(data.sources),
+      toWalletId: single(data.destinations),
+      idempotencyKey: data.idempotencyKey,
+      metadata: {
+        ...(data.metadata || {}),
+        legs: {
+          sources: data.sources.map(leg => ({ walletId: leg.walletId, amount: formatMoney(parseMoney(leg.amount, currency)) })),
+          destinations: data.destinations.map(leg => ({ walletId: leg.walletId, amount: formatMoney(parseMoney(leg.amount, currency)) })),
+        },
+      },
+    }, legs, {
+      requireFunds,
+      limits,
+    });
+  }
+
+  // A fee paid on top of a posting built from its own legs (splits, FX) must be covered by the
+  // payer's funds and counts toward its debit totals, but not toward the single-transaction limit
+  addFee(requireFunds: FundsRequirement[], limits: LimitMovement[], fee: AppliedFee) {
+    const payerId = fee.breakdown.chargedWalletId;
+    const funds = requireFunds.find(r => r.walletId === payerId);
+    if (funds) {
+      funds.amount = addMoney(funds.amount, fee.amount);
+    }
+    const movement = limits.find(m => m.walletId === payerId && m.direction === 'debit');
+    if (movement) {
+      movement.amount = addMoney(movement.amount, fee.amount);
+      movement.balanceChange = subtractMoney(movement.balanceChange, fee.amount);
+    }
+  }
+
+  // Limit checks for postings built from their own legs (splits, FX): one movement per partner
+  // wallet and side, with the wallet's total on that side. System accounts have no limits.
+  async limitsForLegs(legs: LedgerEntryInput[]): Promise<LimitMovement[]> {
+    const totals = new Map<string, LedgerEntryInput>();
+    for (const leg of legs) {
+      const key = `${leg.walletId}:${leg.type}`;
+      const current = totals.get(key);
+      totals.set(key, current ? { ...current, amount: addMoney(current.amount, leg.amount) } : leg);
+    }
+
+    const movements: LimitMovement[] = [];
+    for (const { walletId, type, amount } of Array.from(totals.values())) {
+      const wallet = await walletsRepository.getById(walletId);
+      if (wallet && !wallet.systemAccountType) {
+        movements.push({
+          walletId,
+          direction: type,
+          amount,
+          transactionAmount: amount,
+          balanceChange: type === 'debit' ? money(-amount.amount, amount.currency) : amount,
+        });
+      }
+    }
+    return movements;
+  }
+
+  // Post the transaction row and every ledger leg atomically. Locking the wallets first
+  // serializes concurrent postings, so the funds check and running balances stay correct.
+  async postTransaction(
+    transactionData: TransactionInput,
+    ledgerEntries: LedgerEntryInput[],
+    options: PostingOptions = {}
+  ): Promise<Transaction> {
     // Check for idempotency
     if (transactionData.idempotencyKey) {
       const existingTx = await transactionsRepository.getByIdempotencyKey(transactionData.idempotencyKey);
@@ -28,76 +398,155 @@ export class TransactionService {
       }
     }
 
-    // Create transaction
-    const transaction = await transactionsRepository.create(transactionData);
+    try {
+      return await withTransaction(async (tx) => {
+        await this.lockAndCheck([...ledgerEntries.map(e => e.walletId), ...(options.lockWalletIds || [])], options, tx);
 
-    // Create appropriate ledger entries based on transaction type
-    const ledgerEntries = [] as Array<{ walletId: string; type: 'debit' | 'credit'; amount: string; currency: string; description?: string }>;
-    
-    if (transactionData.type === 'transfer' && transactionData.fromWalletId && transactionData.toWalletId) {
-      // Transfer between wallets (double-entry)
-      ledgerEntries.push(
-        {
-          walletId: transactionData.fromWalletId,
-          type: 'debit' as const,
-          amount: transactionData.amount,
-          currency: transactionData.currency || 'USD',
-          description: transactionData.description || 'Transfer out'
-        },
-        {
-          walletId: transactionData.toWalletId,
-          type: 'credit' as const,
-          amount: transactionData.amount,
-          currency: transactionData.currency || 'USD',
-          description: transactionData.description || 'Transfer in'
+        // Ledger-backed transactions are final once their legs are written
+        const transaction = await transactionsRepository.create({
+          status: ledgerEntries.length > 0 ? 'completed' : 'pending',
+          ...transactionData,
+        }, tx);
+
+        if (ledgerEntries.length > 0) {
+          await ledgerService.createDoubleEntry(transaction.id, ledgerEntries, tx);
+          await subWalletService.assertRules(ledgerEntries.map(e => e.walletId), tx);
         }
-      );
-    } else if (transactionData.type === 'credit' && transactionData.toWalletId) {
-      // Treat credit as transfer from partner clearing wallet to target wallet
-      const clearingWallet = await walletService.getOrCreateClearingWallet(partnerId);
-      ledgerEntries.push(
-        {
-          walletId: clearingWallet.id,
-          type: 'debit',
-          amount: transactionData.amount,
-          currency: transactionData.currency || 'USD',
-          description: transactionData.description || 'Clearing to wallet'
-        },
-        {
-          walletId: transactionData.toWalletId,
-          type: 'credit',
-          amount: transactionData.amount,
-          currency: transactionData.currency || 'USD',
-          description: transactionData.description || 'Wallet credit'
+
+        if (options.afterPost) {
+          return (await options.afterPost(transaction, tx)) || transaction;
         }
-      );
-    } else if (transactionData.type === 'debit' && transactionData.fromWalletId) {
-      // Treat debit as transfer from wallet to partner clearing wallet
-      const clearingWallet = await walletService.getOrCreateClearingWallet(partnerId);
-      ledgerEntries.push(
-        {
-          walletId: transactionData.fromWalletId,
-          type: 'debit',
-          amount: transactionData.amount,
-          currency: transactionData.currency || 'USD',
-          description: transactionData.description || 'Wallet debit'
-        },
-        {
-          walletId: clearingWallet.id,
-          type: 'credit',
-          amount: transactionData.amount,
-          currency: transactionData.currency || 'USD',
-          description: transactionData.description || 'Wallet to clearing'
+
+        return transaction;
+      });
+    } catch (error) {
+      // A concurrent request with the same idempotency key committed first
+      if (isUniqueViolation(error) && transactionData.idempotencyKey) {
+        const existingTx = await transactionsRepository.getByIdempotencyKey(transactionData.idempotencyKey);
+        if (existingTx) {
+          return existingTx;
         }
-      );
+      }
+      throw error;
     }
+  }
+
+  // Lock the wallets and run the posting checks; the locks last until tx commits, so the
+  // checks still hold for whatever the caller writes next
+  private async lockAndCheck(walletIds: string[], options: PostingOptions, tx: DbExecutor): Promise<Wallet[]> {
+    // Parents of sub-wallets are locked too, which serializes postings within a wallet tree
+    const lockedWallets = await walletsRepository.lockForUpdate(await subWalletService.withParents(walletIds, tx), tx);
 
-    // Create ledger entries
-    if (ledgerEntries.length > 0) {
-      await ledgerService.createDoubleEntry(transaction.id, ledgerEntries);
+    // Read under the lock, so a concurrent suspend or close either lands first or waits
+    for (const wallet of lockedWallets as Wallet[]) {
+      if (walletIds.includes(wallet.id) && wallet.status !== 'active' && !options.allowInactiveWalletIds?.includes(wallet.id)) {
+        throw new WalletNotActiveError(wallet.id, wallet.status);
+      }
     }
 
-    return transaction;
+    for (const { walletId, amount, excludeHoldId } of options.requireFunds || []) {
+      const wallet = lockedWallets.find((w: Wallet) => w.id === walletId)!;
+      if (!await subWalletService.hasFunds(wallet, amount, tx, excludeHoldId)) {
+        throw new Error('Insufficient balance');
+      }
+    }
+
+    for (const movement of options.limits || []) {
+      const wallet = lockedWallets.find((w: Wallet) => w.id === movement.walletId);
+      if (wallet) {
+        await walletLimitService.assertWithinLimits(wallet, movement, tx);
+      }
+    }
+
+    return lockedWallets;
+  }
+
+  // Credits and debits are transfers against the operation's system account (clearing by default)
+  private async buildLegs(partnerId: string, data: LegSource, amount: Money, operation?: LedgerOperation): Promise<LedgerEntryInput[]> {
+    if (data.type === 'transfer' && data.fromWalletId && data.toWalletId) {
+      return [
+        { walletId: data.fromWalletId, type: 'debit', amount, description: data.description || 'Transfer out' },
+        { walletId: data.toWalletId, type: 'credit', amount, description: data.description || 'Transfer in' },
+      ];
+    }
+    if (data.type === 'credit' && data.toWalletId) {
+      const systemAccount = await systemAccountService.getAccountForOperation(partnerId, operation || 'manual_credit', amount.currency);
+      return [
+        { walletId: systemAccount.id, type: 'debit', amount, description: data.description || 'Clearing to wallet' },
+        { walletId: data.toWalletId, type: 'credit', amount, description: data.description || 'Wallet credit' },
+      ];
+    }
+    if (data.type === 'debit' && data.fromWalletId) {
+      const systemAccount = await systemAccountService.getAccountForOperation(partnerId, operation || 'manual_debit', amount.currency);
+      return [
+        { walletId: data.fromWalletId, type: 'debit', amount, description: data.description || 'Wallet debit' },
+        { walletId: systemAccount.id, type: 'credit', amount, description: data.description || 'Wallet to clearing' },
+      ];
+    }
+    return [];
+  }
+
+  async buildFeeLegs(partnerId: string, data: Pick<LegSource, 'type' | 'description'>, fee: AppliedFee): Promise<LedgerEntryInput[]> {
+    const feeAccount = await systemAccountService.getAccountForOperation(partnerId, 'fee', fee.amount.currency);
+    return [
+      { walletId: fee.breakdown.chargedWalletId, type: 'debit', amount: fee.amount, description: `Fee: ${data.description || data.type}` },
+      { walletId: feeAccount.id, type: 'credit', amount: fee.amount, description: `Fee revenue: ${data.type}` },
+    ];
+  }
+
+  private getSettlement(transaction: Transaction): TransactionSettlement {
+    if (!transaction.settlement) {
+      throw new Error('Only transactions created as pending can be settled or voided');
+    }
+    return transaction.settlement;
+  }
+
+  private assertPending(transaction: Transaction, action: 'settled' | 'voided') {
+    if (transaction.status !== 'pending') {
+      throw new Error(`Transaction is ${transaction.status} and cannot be ${action}`);
+    }
+  }
+
+  // A transaction waiting on a wallet approval request is only settled or voided through it
+  private assertApproval(transaction: Transaction, settlement: TransactionSettlement, action: 'settled' | 'voided', options: ApprovalOptions) {
+    if (settlement.approvalRequestId && settlement.approvalRequestId !== options.approvalRequestId) {
+      throw new ApprovalRequiredError(transaction.fromWalletId!, `Transaction is awaiting approval and cannot be ${action} directly`, {
+        transactionId: transaction.id,
+        approvalRequestId: settlement.approvalRequestId,
+      });
+    }
+  }
+
+  // A funding credit settled before the card is charged, or a payout or refund reservation voided
+  // while the gateway is paying it out, would move money the gateway never did
+  private assertOwner(transaction: Transaction, settlement: TransactionSettlement, action: 'settled' | 'voided', options: OwnerOptions) {
+    if (settlement.owner && settlement.owner !== options.owner) {
+      throw new ApiError(`Transaction is managed by its ${settlement.owner} and cannot be ${action} directly`, 409, 'TRANSACTION_MANAGED', {
+        transactionId: transaction.id,
+        owner: settlement.owner,
+      });
+    }
+  }
+
+  private async notifyPartner(partnerId: string, event: string, transaction: Transaction, extra: Record<string, unknown> = {}) {
+    const walletId = transaction.toWalletId || transaction.fromWalletId;
+    const wallet = walletId ? await walletsRepository.getById(walletId) : undefined;
+    await webhookService.handlePartnerWebhook(partnerId, event, {
+      transactionId: transaction.id,
+      status: transaction.status,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      fee: transaction.fee,
+      walletId: wallet?.id,
+      externalWalletId: wallet?.externalWalletId,
+      ...extra,
+    });
+  }
+
+  assertWalletCurrency(wallet: Wallet, currency: string) {
+    if (wallet.currency !== currency) {
+      throw new Error(`Currency mismatch: wallet ${wallet.id} holds ${wallet.currency}, transaction is ${currency}`);
+    }
   }
 
   async getPartnerTransactions(partnerId: string, walletId?: string, limit = 50, offset = 0) {
@@ -126,7 +575,7 @@ export class TransactionService {
       .slice(0, limit);
   }
 
-  async updateTransactionStatus(partnerId: string, transactionId: string, status: string, gatewayTransactionId?: string) {
+  async getPartnerTransaction(partnerId: string, transactionId: string) {
     const transaction = await transactionsRepository.getById(transactionId);
     if (!transaction) {
       throw new Error('Transaction not found');
@@ -147,8 +596,167 @@ export class TransactionService {
       }
     }
 
+    // Splits with several wallets on both sides only record them on their ledger legs
+    if (!transaction.fromWalletId && !transaction.toWalletId) {
+      const entries = await ledgerRepository.listByTransaction(transaction.id);
+      const wallets = await Promise.all(entries.map(entry => walletsRepository.getById(entry.walletId)));
+      if (wallets.length === 0 || wallets.some(wallet => !wallet || wallet.partnerId !== partnerId)) {
+        throw new Error('Transaction access denied');
+      }
+    }
+
+    return transaction;
+  }
+
+  async updateTransactionStatus(partnerId: string, transactionId: string, status: string, gatewayTransactionId?: string) {
+    await this.getPartnerTransaction(partnerId, transactionId);
     return await transactionsRepository.updateStatus(transactionId, status, gatewayTransactionId);
   }
+
+  /**
+   * Reverse a completed transaction in full or in part by posting its ledger legs mirrored
+   * (debits become credits and vice versa). Reversals link back through reversedTransactionId,
+   * and the sum of all reversals can never exceed the original amount.
+   */
+  async reverseTransaction(
+    partnerId: string,
+    transactionId: string,
+    data: ReverseTransaction,
+    options: Pick<PostingOptions, 'allowInactiveWalletIds'> = {}
+  ) {
+    const original = await this.getPartnerTransaction(partnerId, transactionId);
+
+    // A retried request returns its reversal; a key already used for anything else is refused
+    const existingTx = await transactionsRepository.getByIdempotencyKey(data.idempotencyKey);
+    if (existingTx) {
+      if (existingTx.reversedTransactionId !== original.id) {
+        throw new Error('Idempotency key was already used for a different transaction');
+      }
+      return existingTx;
+    }
+
+    if (original.status !== 'completed') {
+      throw new Error(`Only completed transactions can be reversed (status is ${original.status})`);
+    }
+    if (original.reversedTransactionId) {
+      throw new Error('A reversal cannot itself be reversed');
+    }
+
+    const originalAmount = parseMoney(original.amount, original.currency);
+    const alreadyReversed = await this.sumReversals(original);
+    const remaining = subtractMoney(originalAmount, alreadyReversed);
+    if (remaining.amount <= 0) {
+      throw new Error('Transaction has already been fully reversed');
+    }
+
+    const amount = data.amount ? parseMoney(data.amount, original.currency) : remaining;
+    if (amount.amount <= 0 || compareMoney(amount, remaining) > 0) {
+      throw new Error(`Reversal amount must be between 0 and the unreversed ${formatMoney(remaining)} ${original.currency}`);
+    }
+
+    const originalEntries = await ledgerRepository.listByTransaction(original.id);
+    if (originalEntries.length === 0) {
+      throw new Error('Transaction has no ledger entries to reverse');
+    }
+
+    const description = data.reason ? `Reversal: ${data.reason}` : `Reversal of ${original.id}`;
+    const legs = this.mirrorLegs(originalEntries, amount.amount, originalAmount.amount, description);
+    // Money leaving the original recipients must still be available there, and is refused where
+    // their approval policy covers it
+    const requireFunds = await this.fundsForDebitLegs(legs);
+    for (const requirement of requireFunds) {
+      await walletApprovalService.assertNotRequired(requirement.walletId, requirement.amount);
+    }
+
+    const reversal = await this.postTransaction({
+      type: original.type === 'credit' ? 'debit' : original.type === 'debit' ? 'credit' : original.type,
+      amount: formatMoney(amount),
+      currency: original.currency,
+      description,
+      fromWalletId: original.toWalletId,
+      toWalletId: original.fromWalletId,
+      idempotencyKey: data.idempotencyKey,
+      reversedTransactionId: original.id,
+      metadata: { reversal: { transactionId: original.id, reason: data.reason || null } },
+    }, legs, {
+      requireFunds,
+      allowInactiveWalletIds: options.allowInactiveWalletIds,
+      afterPost: async (_transaction, tx) => {
+        // Concurrent reversals lock the same wallets, so this total includes every committed one
+        const reversed = await this.sumReversals(original, tx);
+        if (compareMoney(reversed, originalAmount) > 0) {
+          throw new Error('Transaction has already been fully reversed');
+        }
+      },
+    });
+
+    const walletId = original.toWalletId || original.fromWalletId;
+    const wallet = walletId ? await walletsRepository.getById(walletId) : undefined;
+    await webhookService.handlePartnerWebhook(partnerId, 'transaction.reversed', {
+      transactionId: original.id,
+      reversalTransactionId: reversal.id,
+      amount: reversal.amount,
+      currency: reversal.currency,
+      fullyReversed: compareMoney(addMoney(alreadyReversed, amount), originalAmount) === 0,
+      walletId: wallet?.id,
+      externalWalletId: wallet?.externalWalletId,
+    });
+
+    return reversal;
+  }
+
+  // Funds checks for every partner wallet a posting debits. System accounts may run negative.
+  private async fundsForDebitLegs(legs: LedgerEntryInput[]): Promise<FundsRequirement[]> {
+    const debits = new Map<string, Money>();
+    for (const leg of legs.filter(l => l.type === 'debit')) {
+      const current = debits.get(leg.walletId);
+      debits.set(leg.walletId, current ? addMoney(current, leg.amount) : leg.amount);
+    }
+
+    const requirements: FundsRequirement[] = [];
+    for (const [walletId, amount] of Array.from(debits.entries())) {
+      const wallet = await walletsRepository.getById(walletId);
+      if (wallet && !wallet.systemAccountType) {
+        requirements.push({ walletId, amount });
+      }
+    }
+    return requirements;
+  }
+
+  private async sumReversals(original: Transaction, executor?: DbExecutor): Promise<Money> {
+    const reversals = await transactionsRepository.listReversals(original.id, executor);
+    return sumMoney(reversals.map(r => parseMoney(r.amount, r.currency)), original.currency);
+  }
+
+  // Mirror ledger entries, scaled by numerator/denominator for partial reversals. Scaling
+  // rounds down, so any leftover minor units per currency go to the largest short-side leg.
+  private mirrorLegs(entries: LedgerEntry[], numerator: number, denominator: number, description: string): LedgerEntryInput[] {
+    const legs: LedgerEntryInput[] = entries.map(entry => {
+      const full = parseMoney(entry.amount, entry.currency);
+      const scaled = Number(BigInt(full.amount) * BigInt(numerator) / BigInt(denominator));
+      return {
+        walletId: entry.walletId,
+        type: entry.type === 'debit' ? 'credit' as const : 'debit' as const,
+        amount: money(scaled, full.currency),
+        description,
+      };
+    });
+
+    const currencies = Array.from(new Set(legs.map(leg => leg.amount.currency)));
+    for (const currency of currencies) {
+      const inCurrency = legs.filter(leg => leg.amount.currency === currency);
+      const net = inCurrency.reduce((sum, leg) => sum + (leg.type === 'debit' ? leg.amount.amount : -leg.amount.amount), 0);
+      if (net === 0) continue;
+
+      const shortSide = net > 0 ? 'credit' : 'debit';
+      const target = inCurrency
+        .filter(leg => leg.type === shortSide)
+        .reduce((largest, leg) => (leg.amount.amount > largest.amount.amount ? leg : largest));
+      target.amount = money(target.amount.amount + Math.abs(net), currency);
+    }
+
+    return legs.filter(leg => leg.amount.amount > 0);
+  }
 }
 
 export const transactionService = new TransactionService();
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { walletApprovalsRepository, walletsRepository, transactionsRepository } from "../repositories";
+import { transactionService } from "./transaction";
+import { webhookService } from "./webhook";
+import { withTransaction } from "../db";
+import { ApiError, ApprovalRequiredError } from "../errors";
+import type {
+  ApprovalDecisionInput, InsertTransaction, SetApprovalPolicy, Transaction, Wallet, WalletApprovalPolicy, WalletApprovalRequest,
+} from "@shared/schema";
+import { type Money, parseMoney, formatMoney, compareMoney } from "@shared/money";
+
+type ProposalOptions = NonNullable<Parameters<typeof transactionService.createTransaction>[2]>;
+
+/**
+ * Multi-signature approvals for group wallets. A debit or transfer out of a wallet with a policy
+ * that covers its amount becomes a pending transaction (its hold reserves the funds) plus an
+ * approval request. The request is approved once requiredApprovals designated approvers agree,
+ * which settles the transaction; it is rejected once too many have refused for that to happen,
+ * or expires, and either voids it. Approvers are the partner's own identifiers; the partner
+ * authenticates them before calling approve or reject.
+ */
+export class WalletApprovalService {
+  async setPolicy(partnerId: string, walletId: string, data: SetApprovalPolicy): Promise<WalletApprovalPolicy> {
+    const wallet = await this.getGroupWallet(partnerId, walletId);
+    return await walletApprovalsRepository.upsertPolicy({
+      partnerId,
+      walletId: wallet.id,
+      approverIds: data.approverIds,
+      requiredApprovals: data.requiredApprovals,
+      thresholdAmount: data.thresholdAmount ? formatMoney(parseMoney(data.thresholdAmount, wallet.currency)) : null,
+      expiresAfterMinutes: data.expiresAfterMinutes,
+    });
+  }
+
+  async getPolicy(partnerId: string, walletId: string): Promise<WalletApprovalPolicy> {
+    const wallet = await this.getGroupWallet(partnerId, walletId);
+    const policy = await walletApprovalsRepository.getPolicy(wallet.id);
+    if (!policy) {
+      throw new Error('Approval policy not found');
+    }
+    return policy;
+  }
+
+  // Requests already waiting keep the approvers and threshold they were created with
+  async removePolicy(partnerId: string, walletId: string): Promise<void> {
+    const wallet = await this.getGroupWallet(partnerId, walletId);
+    if (!await walletApprovalsRepository.deletePolicy(wallet.id)) {
+      throw new Error('Approval policy not found');
+    }
+  }
+
+  // The policy a debit of this amount from the wallet falls under, if any
+  async policyFor(walletId: string, amount: Money): Promise<WalletApprovalPolicy | undefined> {
+    const policy = await walletApprovalsRepository.getPolicy(walletId);
+    if (!policy || !policy.thresholdAmount) return policy;
+
+    const wallet = await walletsRepository.getById(walletId);
+    // A mismatched currency is refused by the posting itself
+    if (!wallet || wallet.currency !== amount.currency) return policy;
+    return compareMoney(amount, parseMoney(policy.thresholdAmount, wallet.currency)) > 0 ? policy : undefined;
+  }
+
+  // For flows that move money out of a wallet without going through a proposal (payouts, holds,
+  // split payments, FX, escrow funding, reversals, ROSCA rounds, close sweeps): refuse amounts
+  // the policy covers
+  async assertNotRequired(walletId: string, amount: Money) {
+    const policy = await this.policyFor(walletId, amount);
+    if (policy) {
+      throw new ApprovalRequiredError(walletId, 'Wallet requires approval for this amount; propose a debit or transfer instead', {
+        amount: formatMoney(amount),
+        currency: amount.currency,
+        thresholdAmount: policy.thresholdAmount,
+      });
+    }
+  }
+
+  // Create the pending transaction and its approval request in one posting
+  async propose(
+    partnerId: string,
+    policy: WalletApprovalPolicy,
+    data: Omit<InsertTransaction, 'id'>,
+    options: Omit<ProposalOptions, 'pending' | 'afterPost'>
+  ): Promise<Transaction> {
+    let request: WalletApprovalRequest | undefined;
+    const transaction = await transactionService.createTransaction(partnerId, data, {
+      ...options,
+      pending: true,
+      afterPost: async (transaction, tx) => {
+        request = await walletApprovalsRepository.createRequest({
+          partnerId,
+          walletId: policy.walletId,
+          transactionId: transaction.id,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          approverIds: policy.approverIds,
+          requiredApprovals: policy.requiredApprovals,
+          expiresAt: new Date(Date.now() + policy.expiresAfterMinutes * 60 * 1000),
+        }, tx);
+        return await transactionsRepository.update(transaction.id, {
+          settlement: { ...transaction.settlement!, approvalRequestId: request.id },
+        }, tx);
+      },
+    });
+
+    if (request) {
+      await this.notify('wallet_approval.requested', request, {
+        type: transaction.type,
+        toWalletId: transaction.toWalletId,
+        description: transaction.description,
+      });
+    }
+    return transaction;
+  }
+
+  async getRequest(partnerId: string, requestId: string): Promise<WalletApprovalRequest> {
+    const request = await walletApprovalsRepository.getRequest(requestId);
+    if (!request || request.partnerId !== partnerId) {
+      throw new Error('Approval request not found');
+    }
+    return request;
+  }
+
+  async listRequests(partnerId: string, walletId: string, status?: WalletApprovalRequest['status'], limit = 50, offset = 0) {
+    const wallet = await walletsRepository.getById(walletId);
+    if (!wallet || wallet.partnerId !== partnerId) {
+      throw new Error('Wallet not found or access denied');
+    }
+    return await walletApprovalsRepository.listByWallet(wallet.id, status, limit, offset);
+  }
+
+  async approve(partnerId: string, requestId: string, decision: ApprovalDecisionInput): Promise<WalletApprovalRequest> {
+    const request = await this.getRequest(partnerId, requestId);
+    this.assertApprover(request, decision.approverId);
+    if (request.status === 'approved') {
+      // Settling failed last time (e.g. the wallet was suspended); try again
+      return await this.execute(request);
+    }
+    await this.assertOpen(request, 'approved');
+
+    let recorded = false;
+    const updated = await withTransaction(async (tx) => {
+      const current = (await walletApprovalsRepository.lockRequest(request.id, tx))!;
+      this.assertStatus(current, ['pending'], 'approved');
+      if (current.approvals.some(a => a.approverId === decision.approverId)) {
+        return current;
+      }
+      if (current.rejections.some(r => r.approverId === decision.approverId)) {
+        throw new ApiError('Approver has already rejected this request', 409, 'APPROVER_ALREADY_DECIDED', {
+          approvalRequestId: current.id,
+          approverId: decision.approverId,
+        });
+      }
+
+      const approvals = [...current.approvals, { approverId: decision.approverId, decidedAt: new Date().toISOString(), note: decision.note ?? null }];
+      const approved = approvals.length >= current.requiredApprovals;
+      recorded = true;
+      return await walletApprovalsRepository.update(current.id, {
+        approvals,
+        ...(approved && { status: 'approved' as const, decidedAt: new Date() }),
+      }, tx);
+    });
+
+    if (recorded) {
+      await this.notify('wallet_approval.granted', updated, { approverId: decision.approverId });
+      if (updated.status === 'approved') {
+        await this.notify('wallet_approval.approved', updated);
+      }
+    }
+    return updated.status === 'approved' ? await this.execute(updated) : updated;
+  }
+
+  async reject(partnerId: string, requestId: string, decision: ApprovalDecisionInput): Promise<WalletApprovalRequest> {
+    const request = await this.getRequest(partnerId, requestId);
+    this.assertApprover(request, decision.approverId);
+    if (request.status === 'rejected') {
+      return await this.cancel(request, 'Rejected by approvers');
+    }
+    await this.assertOpen(request, 'rejected');
+
+    let recorded = false;
+    const updated = await withTransaction(async (tx) => {
+      const current = (await walletApprovalsRepository.lockRequest(request.id, tx))!;
+      this.assertStatus(current, ['pending'], 'rejected');
+      if (current.rejections.some(r => r.approverId === decision.approverId)) {
+        return current;
+      }
+      if (current.approvals.some(a => a.approverId === decision.approverId)) {
+        throw new ApiError('Approver has already approved this request', 409, 'APPROVER_ALREADY_DECIDED', {
+          approvalRequestId: current.id,
+          approverId: decision.approverId,
+        });
+      }
+
+      const rejections = [...current.rejections, { approverId: decision.approverId, decidedAt: new Date().toISOString(), note: decision.note ?? null }];
+      // Rejected once the approvers left cannot reach the threshold any more
+      const rejected = current.approverIds.length - rejections.length < current.requiredApprovals;
+      recorded = true;
+      return await walletApprovalsRepository.update(current.id, {
+        rejections,
+        ...(rejected && { status: 'rejected' as const, decidedAt: new Date() }),
+      }, tx);
+    });
+
+    if (!recorded || updated.status !== 'rejected') {
+      return updated;
+    }
+    await this.notify('wallet_approval.rejected', updated, { approverId: decision.approverId, reason: decision.note ?? null });
+    return await this.cancel(updated, 'Rejected by approvers');
+  }
+
+  // Expire every request past its deadline (for a scheduled job)
+  async expireDueRequests(): Promise<{ expired: number; failed: number }> {
+    const due = await walletApprovalsRepository.listExpired(new Date());
+    let expired = 0;
+    let failed = 0;
+    for (const request of due) {
+      try {
+        await this.expire(request);
+        expired++;
+      } catch (error) {
+        console.error(`Expiring approval request ${request.id} failed:`, error);
+        failed++;
+      }
+    }
+    return { expired, failed };
+  }
+
+  private async expire(request: WalletApprovalRequest): Promise<WalletApprovalRequest> {
+    const expired = await withTransaction(async (tx) => {
+      const current = (await walletApprovalsRepository.lockRequest(request.id, tx))!;
+      if (current.status !== 'pending') return undefined;
+      return await walletApprovalsRepository.update(current.id, { status: 'expired', decidedAt: new Date() }, tx);
+    });
+    if (!expired) {
+      return (await walletApprovalsRepository.getRequest(request.id))!;
+    }
+    await this.notify('wallet_approval.expired', expired);
+    return await this.cancel(expired, 'Approval request expired');
+  }
+
+  // Pending requests past their deadline are expired before anyone can decide on them
+  private async assertOpen(request: WalletApprovalRequest, action: string) {
+    const current = request.status === 'pending' && request.expiresAt <= new Date() ? await this.expire(request) : request;
+    this.assertStatus(current, ['pending'], action);
+  }
+
+  private async execute(request: WalletApprovalRequest): Promise<WalletApprovalRequest> {
+    await transactionService.settleTransaction(request.partnerId, request.transactionId, { approvalRequestId: request.id });
+    return request;
+  }
+
+  private async cancel(request: WalletApprovalRequest, reason: string): Promise<WalletApprovalRequest> {
+    await transactionService.voidTransaction(request.partnerId, request.transactionId, { reason }, { approvalRequestId: request.id });
+    return request;
+  }
+
+  private async getGroupWallet(partnerId: string, walletId: string): Promise<Wallet> {
+    const wallet = await walletsRepository.getById(walletId);
+    if (!wallet || wallet.partnerId !== partnerId || wallet.systemAccountType) {
+      throw new Error('Wallet not found or access denied');
+    }
+    if (wallet.externalUserId) {
+      throw new Error('Approval policies are only available for group wallets (wallets without an externalUserId)');
+    }
+    return wallet;
+  }
+
+  private assertApprover(request: WalletApprovalRequest, approverId: string) {
+    if (!request.approverIds.includes(approverId)) {
+      throw new ApiError('Not a designated approver for this wallet', 403, 'NOT_AN_APPROVER', {
+        approvalRequestId: request.id,
+        approverId,
+      });
+    }
+  }
+
+  private assertStatus(request: WalletApprovalRequest, allowed: WalletApprovalRequest['status'][], action: string) {
+    if (!allowed.includes(request.status)) {
+      throw new ApiError(`Approval request is ${request.status} and cannot be ${action}`, 409, 'INVALID_APPROVAL_STATUS', {
+        approvalRequestId: request.id,
+        status: request.status,
+      });
+    }
+  }
+
+  private async notify(event: string, request: WalletApprovalRequest, extra: Record<string, unknown> = {}) {
+    await webhookService.handlePartnerWebhook(request.partnerId, event, {
+      approvalRequestId: request.id,
+      walletId: request.walletId,
+      transactionId: request.transactionId,
+      status: request.status,
+      amount: request.amount,
+      currency: request.currency,
+      approvals: request.approvals.length,
+      requiredApprovals: request.requiredApprovals,
+      expiresAt: request.expiresAt,
+      ...extra,
+    });
+  }
+}
+
+export const walletApprovalService = new WalletApprovalService();
@@ -0,0 +1,189 @@
+import { walletLimitsRepository, walletsRepository, ledgerRepository, transactionsRepository, partnersRepository } from "../repositories";
+import { walletService } from "./wallet";
+import { LimitExceededError, type LimitBreach } from "../errors";
+import { db, type DbExecutor } from "../db";
+import { WALLET_LIMIT_FIELDS, type UpsertWalletLimit, type Wallet, type WalletLimit } from "@shared/schema";
+import { type Money, parseMoney, formatMoney, addMoney, subtractMoney, compareMoney, zeroMoney } from "@shared/money";
+
+type LimitField = typeof WALLET_LIMIT_FIELDS[number];
+
+// One wallet's side of a posting, as the limits see it
+export interface LimitMovement {
+  walletId: string;
+  direction: 'debit' | 'credit';
+  amount: Money; // Counted toward the daily and monthly totals (includes fees on debits)
+  transactionAmount: Money; // Checked against the single-transaction limit
+  balanceChange: Money; // Signed change to the wallet balance, for the maximum balance
+}
+
+interface EffectiveLimit {
+  amount: Money;
+  scope: WalletLimit['scope'];
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Balance, single-transaction and daily/monthly velocity limits. Limits can be set for all of
+ * a partner's wallets, for a tier of wallets or for a single wallet; when several levels set
+ * the same limit, the lowest one applies. Periods are UTC calendar days and months.
+ *
+ * Credits, debits, transfers, payouts, funding, hold captures, FX transfers, split payments,
+ * escrow funding and ROSCA contributions are checked. Moves within a wallet tree are exempt, as
+ * are postings that settle or correct money already moved: escrow releases, ROSCA payouts,
+ * reversals, refunds and disputes.
+ */
+export class WalletLimitService {
+  async upsertLimit(partnerId: string, data: UpsertWalletLimit): Promise<WalletLimit> {
+    const partner = await partnersRepository.getById(partnerId);
+    if (!partner) {
+      throw new Error('Partner not found');
+    }
+    if (data.scope === 'wallet') {
+      const wallet = await walletsRepository.getById(data.walletId!);
+      if (!wallet || wallet.partnerId !== partnerId) {
+        throw new Error('Wallet not found or access denied');
+      }
+      if (wallet.currency !== data.currency) {
+        throw new Error(`Currency mismatch: wallet holds ${wallet.currency}, limits are in ${data.currency}`);
+      }
+    }
+    return await walletLimitsRepository.upsert(partnerId, data);
+  }
+
+  async listPartnerLimits(partnerId: string): Promise<WalletLimit[]> {
+    return await walletLimitsRepository.listByPartner(partnerId);
+  }
+
+  // Effective limits for a wallet with current usage and what remains of each
+  async getWalletLimits(partnerId: string, walletId: string) {
+    const wallet = await walletService.getPartnerWallet({ partnerId, walletId });
+    if (!wallet) {
+      throw new Error('Wallet not found or access denied');
+    }
+
+    const limits = await this.effectiveLimits(wallet);
+    const usage = await this.usage(wallet);
+    const report = (field: LimitField, used?: Money) => {
+      const limit = limits[field];
+      if (!limit) return null;
+      return {
+        limit: formatMoney(limit.amount),
+        scope: limit.scope,
+        ...(used ? {
+          used: formatMoney(used),
+          remaining: formatMoney(this.remaining(limit.amount, used)),
+        } : {}),
+      };
+    };
+
+    return {
+      walletId: wallet.id,
+      currency: wallet.currency,
+      tier: wallet.limitTier,
+      limits: {
+        maxBalance: report('maxBalance', usage.balance),
+        maxTransactionAmount: report('maxTransactionAmount'),
+        dailyDebitLimit: report('dailyDebitLimit', usage.dailyDebit),
+        dailyCreditLimit: report('dailyCreditLimit', usage.dailyCredit),
+        monthlyDebitLimit: report('monthlyDebitLimit', usage.monthlyDebit),
+        monthlyCreditLimit: report('monthlyCreditLimit', usage.monthlyCredit),
+      },
+    };
+  }
+
+  /**
+   * Throws LimitExceededError for the tightest limit the movement would breach. Postings call
+   * this with the wallet locked and their transaction as executor, so usage cannot move underneath.
+   */
+  async assertWithinLimits(wallet: Wallet, movement: LimitMovement, executor: DbExecutor = db): Promise<void> {
+    const limits = await this.effectiveLimits(wallet, executor);
+    if (Object.keys(limits).length === 0) return;
+
+    const usage = await this.usage(wallet, executor);
+    const breaches: LimitBreach[] = [];
+    const check = (field: LimitField, used: Money, attempted: Money) => {
+      const limit = limits[field];
+      if (!limit || compareMoney(addMoney(used, attempted), limit.amount) <= 0) return;
+      breaches.push({
+        limit: field,
+        scope: limit.scope,
+        walletId: wallet.id,
+        currency: wallet.currency,
+        limitAmount: formatMoney(limit.amount),
+        used: formatMoney(used),
+        remaining: formatMoney(this.remaining(limit.amount, used)),
+        attempted: formatMoney(attempted),
+      });
+    };
+
+    const none = zeroMoney(wallet.currency);
+    check('maxTransactionAmount', none, movement.transactionAmount);
+    if (movement.direction === 'debit') {
+      check('dailyDebitLimit', usage.dailyDebit, movement.amount);
+      check('monthlyDebitLimit', usage.monthlyDebit, movement.amount);
+    } else {
+      check('dailyCreditLimit', usage.dailyCredit, movement.amount);
+      check('monthlyCreditLimit', usage.monthlyCredit, movement.amount);
+    }
+    if (movement.balanceChange.amount > 0) {
+      check('maxBalance', usage.balance, movement.balanceChange);
+    }
+
+    if (breaches.length > 0) {
+      breaches.sort((a, b) => parseMoney(a.remaining, a.currency).amount - parseMoney(b.remaining, b.currency).amount);
+      throw new LimitExceededError(breaches[0]);
+    }
+  }
+
+  // Lowest value of each limit across partner, tier and wallet scopes
+  private async effectiveLimits(wallet: Wallet, executor?: DbExecutor): Promise<Partial<Record<LimitField, EffectiveLimit>>> {
+    const rows = await walletLimitsRepository.listApplicable(wallet, executor);
+    const limits: Partial<Record<LimitField, EffectiveLimit>> = {};
+    for (const row of rows) {
+      for (const field of WALLET_LIMIT_FIELDS) {
+        const value = row[field];
+        if (value === null) continue;
+        const amount = parseMoney(value, wallet.currency);
+        const current = limits[field];
+        if (!current || compareMoney(amount, current.amount) < 0) {
+          limits[field] = { amount, scope: row.scope };
+        }
+      }
+    }
+    return limits;
+  }
+
+  // Pending transactions count from when they are created, as settling them checks no limits;
+  // otherwise several pending debits that each fit could be settled together past a limit
+  private async usage(wallet: Wallet, executor: DbExecutor = db) {
+    const now = new Date();
+    const day = startOfUtcDay(now);
+    const month = startOfUtcMonth(now);
+    const total = async (type: 'debit' | 'credit', since: Date) => addMoney(
+      parseMoney(await ledgerRepository.sumByWalletSince(wallet.id, type, since, executor), wallet.currency),
+      parseMoney(await transactionsRepository.sumPendingByWalletSince(wallet.id, type, since, executor), wallet.currency),
+    );
+
+    return {
+      balance: await walletsRepository.getBalance(wallet.id, wallet.currency, executor),
+      dailyDebit: await total('debit', day),
+      dailyCredit: await total('credit', day),
+      monthlyDebit: await total('debit', month),
+      monthlyCredit: await total('credit', month),
+    };
+  }
+
+  private remaining(limit: Money, used: Money): Money {
+    const remaining = subtractMoney(limit, used);
+    return remaining.amount > 0 ? remaining : zeroMoney(limit.currency);
+  }
+}
+
+export const walletLimitService = new WalletLimitService();
@@ -1,7 +1,16 @@
 // storage removed in favor of repositories
 import { transactionService } from "./transaction";
-import type { InsertWallet } from "@shared/schema";
-import { walletsRepository, partnersRepository } from "../repositories";
+import { walletApprovalService } from "./wallet-approval";
+import { subWalletService } from "./sub-wallets";
+import { webhookService } from "./webhook";
+import type { CloseWallet, InsertWallet, Transaction, UpdateWallet, Wallet } from "@shared/schema";
+import { type Money, formatMoney, parseMoney, subtractMoney } from "@shared/money";
+import { getCurrency } from "@shared/currency";
+import { walletsRepository, holdsRepository, ledgerRepository } from "../repositories";
+import { withTransaction, type DbExecutor } from "../db";
+import { ApiError } from "../errors";
+import type { LedgerOperation } from "./system-accounts";
+import crypto from 'crypto';
 
 interface PartnerWalletRequest {
   partnerId: string;
@@ -10,34 +19,15 @@ interface PartnerWalletRequest {
 }
 
 export class WalletService {
-  async getOrCreateClearingWallet(partnerId: string) {
-    const partner = await partnersRepository.getById(partnerId);
-    const existingClearingWalletId = (partner as any)?.settings?.clearingWalletId as string | undefined;
-    if (existingClearingWalletId) {
-      const existing = await walletsRepository.getById(existingClearingWalletId);
-      if (existing) return existing;
-    }
-
-    const clearingWallet = await walletsRepository.create({
-      partnerId,
-      name: "Clearing",
-      currency: 'USD',
-      metadata: { system: true, purpose: 'clearing' },
-    } as unknown as Omit<InsertWallet, 'partnerId'> & { partnerId: string });
-
-    const currentSettings = ((partner as any)?.settings || {}) as Record<string, any>;
-    await partnersRepository.updateSettings(partnerId, {
-      ...currentSettings,
-      clearingWalletId: clearingWallet.id,
-    });
-
-    return clearingWallet;
-  }
   async createWallet(partnerId: string, walletData: Omit<InsertWallet, 'partnerId'>) {
+    const currency = getCurrency(walletData.currency || 'USD').code;
+    if (walletData.parentWalletId) {
+      await subWalletService.assertValidParent(partnerId, walletData.parentWalletId, currency);
+    }
     return await walletsRepository.create({
       partnerId,
       ...walletData,
-      currency: walletData.currency || 'USD'
+      currency
     });
   }
 
@@ -67,29 +57,213 @@ export class WalletService {
       throw new Error('Wallet not found or access denied');
     }
 
-    const balance = await walletsRepository.getBalance(walletId);
+    const [ledger, held] = await Promise.all([
+      walletsRepository.getBalance(walletId, wallet.currency),
+      holdsRepository.sumActiveByWallet(walletId, wallet.currency),
+    ]);
     return {
       walletId,
-      balance,
+      balance: formatMoney(ledger), // Kept for existing clients; same as ledger
+      ledger: formatMoney(ledger),
+      available: formatMoney(subtractMoney(ledger, held)),
       currency: wallet.currency
     };
   }
 
+  // Name and metadata only; metadata is replaced as a whole
+  async updateWallet(partnerId: string, walletId: string, data: UpdateWallet): Promise<Wallet> {
+    const wallet = await this.getLifecycleWallet(partnerId, walletId);
+    if (wallet.status === 'closed') {
+      throw new ApiError('Closed wallets cannot be updated', 409, 'INVALID_WALLET_STATUS', { walletId, status: wallet.status });
+    }
+    return await walletsRepository.update(wallet.id, { name: data.name, metadata: data.metadata });
+  }
+
+  async suspendWallet(partnerId: string, walletId: string, reason?: string): Promise<Wallet> {
+    return await this.changeStatus(partnerId, walletId, 'active', 'suspended', reason);
+  }
+
+  async reactivateWallet(partnerId: string, walletId: string, reason?: string): Promise<Wallet> {
+    return await this.changeStatus(partnerId, walletId, 'suspended', 'active', reason);
+  }
+
+  /**
+   * Close an active or suspended wallet. It must end with a zero balance and no active holds;
+   * any positive balance is swept to sweepToWalletId in the same database transaction that
+   * marks the wallet closed. Closing is final.
+   */
+  async closeWallet(partnerId: string, walletId: string, data: CloseWallet): Promise<{ wallet: Wallet; sweepTransaction?: Transaction }> {
+    const wallet = await this.getLifecycleWallet(partnerId, walletId);
+    if (wallet.status === 'closed') {
+      throw new ApiError('Wallet is already closed', 409, 'INVALID_WALLET_STATUS', { walletId, status: wallet.status });
+    }
+
+    const children = await walletsRepository.listChildren(wallet.id);
+    if (children.some(child => child.status !== 'closed')) {
+      throw new ApiError('Close the sub-wallets before closing their parent', 409, 'WALLET_HAS_CHILDREN', {
+        childWalletIds: children.filter(child => child.status !== 'closed').map(child => child.id),
+      });
+    }
+
+    const balance = await walletsRepository.getBalance(wallet.id, wallet.currency);
+    if (balance.amount < 0) {
+      throw new ApiError('Wallet has a negative balance and cannot be closed', 409, 'WALLET_NOT_EMPTY', { balance: formatMoney(balance) });
+    }
+
+    const close = async (tx: DbExecutor) => {
+      // Re-check under the wallet lock; nothing can post to it until this transaction ends
+      const [locked] = await walletsRepository.lockForUpdate([wallet.id], tx);
+      const remaining = await walletsRepository.getBalance(wallet.id, wallet.currency, tx);
+      const held = await holdsRepository.sumActiveByWallet(wallet.id, wallet.currency, tx);
+      if (locked.status === 'closed') {
+        throw new ApiError('Wallet is already closed', 409, 'INVALID_WALLET_STATUS', { walletId, status: locked.status });
+      }
+      if (held.amount > 0) {
+        throw new ApiError('Release or capture active holds before closing the wallet', 409, 'WALLET_NOT_EMPTY', { held: formatMoney(held) });
+      }
+      if (remaining.amount !== 0) {
+        throw new ApiError('Wallet balance must be zero to close; pass sweepToWalletId to move the remainder', 409, 'WALLET_NOT_EMPTY', {
+          balance: formatMoney(remaining),
+        });
+      }
+      return await walletsRepository.update(wallet.id, { status: 'closed', statusReason: data.reason ?? null }, tx);
+    };
+
+    let closed: Wallet | undefined;
+    let sweepTransaction: Transaction | undefined;
+    if (balance.amount > 0 && data.sweepToWalletId) {
+      if (data.sweepToWalletId === wallet.id) {
+        throw new Error('Cannot sweep a wallet into itself');
+      }
+      await walletApprovalService.assertNotRequired(wallet.id, balance);
+      sweepTransaction = await transactionService.createTransaction(partnerId, {
+        type: 'transfer',
+        amount: formatMoney(balance),
+        currency: wallet.currency,
+        description: 'Balance sweep on wallet close',
+        fromWalletId: wallet.id,
+        toWalletId: data.sweepToWalletId,
+        idempotencyKey: data.idempotencyKey || crypto.randomUUID(),
+        metadata: { closeSweep: { walletId: wallet.id } },
+      }, {
+        allowInactiveWalletIds: [wallet.id],
+        afterPost: async (_transaction, tx) => {
+          closed = await close(tx);
+        },
+      });
+    } else {
+      closed = await withTransaction(close);
+    }
+
+    // An idempotent retry of the sweep returns the earlier transaction without closing again
+    const result = closed || (await walletsRepository.getById(wallet.id))!;
+    if (closed) {
+      await webhookService.handlePartnerWebhook(partnerId, 'wallet.closed', {
+        walletId: result.id,
+        externalWalletId: result.externalWalletId,
+        reason: result.statusReason,
+        sweepTransactionId: sweepTransaction?.id,
+        sweptAmount: sweepTransaction?.amount,
+        sweptToWalletId: sweepTransaction ? data.sweepToWalletId : undefined,
+      });
+    }
+    return { wallet: result, sweepTransaction };
+  }
+
+  private async changeStatus(
+    partnerId: string,
+    walletId: string,
+    from: Wallet['status'],
+    to: Wallet['status'],
+    reason?: string
+  ): Promise<Wallet> {
+    const wallet = await this.getLifecycleWallet(partnerId, walletId);
+
+    const updated = await withTransaction(async (tx) => {
+      const [locked] = await walletsRepository.lockForUpdate([wallet.id], tx);
+      if (locked.status !== from) {
+        throw new ApiError(`Wallet is ${locked.status}; only ${from} wallets can become ${to}`, 409, 'INVALID_WALLET_STATUS', {
+          walletId,
+          status: locked.status,
+        });
+      }
+      return await walletsRepository.update(wallet.id, { status: to, statusReason: reason ?? null }, tx);
+    });
+
+    await webhookService.handlePartnerWebhook(partnerId, to === 'suspended' ? 'wallet.suspended' : 'wallet.reactivated', {
+      walletId: updated.id,
+      externalWalletId: updated.externalWalletId,
+      reason: updated.statusReason,
+    });
+    return updated;
+  }
+
+  // Partner wallets only; system ledger accounts are managed by PayFlow
+  private async getLifecycleWallet(partnerId: string, walletId: string): Promise<Wallet> {
+    const wallet = await this.getPartnerWallet({ partnerId, walletId });
+    if (!wallet || wallet.systemAccountType) {
+      throw new Error('Wallet not found or access denied');
+    }
+    return wallet;
+  }
+
+  // Ledger balance as it stood at a past instant, from the running balance on the last entry
+  // posted at or before it. Holds are not historical, so there is no available figure here.
+  async getBalanceAsOf(partnerId: string, walletId: string, asOf: Date) {
+    const wallet = await this.getPartnerWallet({ partnerId, walletId });
+    if (!wallet) {
+      throw new Error('Wallet not found or access denied');
+    }
+
+    const entry = await ledgerRepository.getLatestEntryAsOf(wallet.id, asOf);
+    return {
+      walletId: wallet.id,
+      asOf: asOf.toISOString(),
+      balance: formatMoney(parseMoney(entry?.balance || '0', wallet.currency)),
+      currency: wallet.currency,
+    };
+  }
+
+  // Ledger balance minus what active holds reserve. Pass the posting transaction as the
+  // executor (with the wallet locked) when the result gates a money movement.
+  async getAvailableBalance(walletId: string, currency: string, executor?: DbExecutor, excludeHoldId?: string): Promise<Money> {
+    const ledger = await walletsRepository.getBalance(walletId, currency, executor);
+    const held = await holdsRepository.sumActiveByWallet(walletId, currency, executor, excludeHoldId);
+    return subtractMoney(ledger, held);
+  }
+
+  // Credits default to the partner clearing account as the funding source; gateway-backed
+  // flows pass their own operation so the right system account is debited.
   async creditWallet(partnerId: string, data: {
     walletId: string;
     amount: string;
     currency?: string;
     description?: string;
     idempotencyKey: string;
-  }) {
+    pending?: boolean;
+    gateway?: Transaction['gateway'];
+  }, operation: LedgerOperation = 'manual_credit') {
     return await transactionService.createTransaction(partnerId, {
       type: 'credit',
       amount: data.amount,
-      currency: data.currency || 'USD',
+      currency: data.currency,
       description: data.description,
       toWalletId: data.walletId,
-      idempotencyKey: data.idempotencyKey
-    });
+      idempotencyKey: data.idempotencyKey,
+      gateway: data.gateway
+    }, { operation, fee: operation === 'funding' ? 'funding' : 'credit', enforceLimits: true, pending: data.pending });
+  }
+
+  // Requests may leave the currency out: the money then moves in the paying wallet's currency
+  private async currencyFor(walletId: string, currency?: string): Promise<string> {
+    if (currency) {
+      return currency;
+    }
+    const wallet = await walletsRepository.getById(walletId);
+    if (!wallet) {
+      throw new Error('Wallet not found or access denied');
+    }
+    return wallet.currency;
   }
 
   async debitWallet(partnerId: string, data: {
@@ -98,21 +272,25 @@ export class WalletService {
     currency?: string;
     description?: string;
     idempotencyKey: string;
+    pending?: boolean;
   }) {
-    // Check balance first
-    const balance = await walletsRepository.getBalance(data.walletId);
-    if (parseFloat(balance) < parseFloat(data.amount)) {
-      throw new Error('Insufficient balance');
-    }
-
-    return await transactionService.createTransaction(partnerId, {
-      type: 'debit',
+    const transaction = {
+      type: 'debit' as const,
       amount: data.amount,
-      currency: data.currency || 'USD',
+      currency: await this.currencyFor(data.walletId, data.currency),
       description: data.description,
       fromWalletId: data.walletId,
       idempotencyKey: data.idempotencyKey
-    });
+    };
+
+    // Group wallets with an approval policy hold the debit until the approvers agree
+    const policy = await walletApprovalService.policyFor(data.walletId, parseMoney(transaction.amount, transaction.currency));
+    if (policy) {
+      return await walletApprovalService.propose(partnerId, policy, transaction, { fee: 'debit', enforceLimits: true });
+    }
+
+    // Balance is checked under the wallet lock inside createTransaction
+    return await transactionService.createTransaction(partnerId, transaction, { fee: 'debit', enforceLimits: true, pending: data.pending });
   }
 
   async transferBetweenWallets(partnerId: string, data: {
@@ -122,22 +300,25 @@ export class WalletService {
     currency?: string;
     description?: string;
     idempotencyKey: string;
+    pending?: boolean;
   }) {
-    // Check balance first
-    const balance = await walletsRepository.getBalance(data.fromWalletId);
-    if (parseFloat(balance) < parseFloat(data.amount)) {
-      throw new Error('Insufficient balance');
-    }
-
-    return await transactionService.createTransaction(partnerId, {
-      type: 'transfer',
+    const transaction = {
+      type: 'transfer' as const,
       amount: data.amount,
-      currency: data.currency || 'USD',
+      currency: await this.currencyFor(data.fromWalletId, data.currency),
       description: data.description,
       fromWalletId: data.fromWalletId,
       toWalletId: data.toWalletId,
       idempotencyKey: data.idempotencyKey
-    });
+    };
+
+    const policy = await walletApprovalService.policyFor(data.fromWalletId, parseMoney(transaction.amount, transaction.currency));
+    if (policy) {
+      return await walletApprovalService.propose(partnerId, policy, transaction, { fee: 'transfer', enforceLimits: true });
+    }
+
+    // Balance is checked under the wallet lock inside createTransaction
+    return await transactionService.createTransaction(partnerId, transaction, { fee: 'transfer', enforceLimits: true, pending: data.pending });
   }
 }
 
@@ -0,0 +1,92 @@
+// ISO 4217 currencies PayFlow accepts, with the number of minor-unit digits each one uses.
+// Money parsing, formatting and gateway amount conversion all read precision from here.
+
+export interface CurrencyDefinition {
+  code: string;
+  name: string;
+  minorUnits: number; // Digits after the decimal point (JPY 0, USD 2, KWD 3)
+}
+
+const definitions: CurrencyDefinition[] = [
+  // Zero-decimal currencies
+  { code: 'BIF', name: 'Burundian Franc', minorUnits: 0 },
+  { code: 'CLP', name: 'Chilean Peso', minorUnits: 0 },
+  { code: 'DJF', name: 'Djiboutian Franc', minorUnits: 0 },
+  { code: 'GNF', name: 'Guinean Franc', minorUnits: 0 },
+  { code: 'ISK', name: 'Icelandic Krona', minorUnits: 0 },
+  { code: 'JPY', name: 'Japanese Yen', minorUnits: 0 },
+  { code: 'KMF', name: 'Comorian Franc', minorUnits: 0 },
+  { code: 'KRW', name: 'South Korean Won', minorUnits: 0 },
+  { code: 'PYG', name: 'Paraguayan Guarani', minorUnits: 0 },
+  { code: 'RWF', name: 'Rwandan Franc', minorUnits: 0 },
+  { code: 'UGX', name: 'Ugandan Shilling', minorUnits: 0 },
+  { code: 'VND', name: 'Vietnamese Dong', minorUnits: 0 },
+  { code: 'VUV', name: 'Vanuatu Vatu', minorUnits: 0 },
+  { code: 'XAF', name: 'Central African CFA Franc', minorUnits: 0 },
+  { code: 'XOF', name: 'West African CFA Franc', minorUnits: 0 },
+  { code: 'XPF', name: 'CFP Franc', minorUnits: 0 },
+
+  // Two-decimal currencies
+  { code: 'AED', name: 'UAE Dirham', minorUnits: 2 },
+  { code: 'AUD', name: 'Australian Dollar', minorUnits: 2 },
+  { code: 'BRL', name: 'Brazilian Real', minorUnits: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', minorUnits: 2 },
+  { code: 'CHF', name: 'Swiss Franc', minorUnits: 2 },
+  { code: 'CNY', name: 'Chinese Yuan', minorUnits: 2 },
+  { code: 'CZK', name: 'Czech Koruna', minorUnits: 2 },
+  { code: 'DKK', name: 'Danish Krone', minorUnits: 2 },
+  { code: 'EGP', name: 'Egyptian Pound', minorUnits: 2 },
+  { code: 'EUR', name: 'Euro', minorUnits: 2 },
+  { code: 'GBP', name: 'Pound Sterling', minorUnits: 2 },
+  { code: 'GHS', name: 'Ghanaian Cedi', minorUnits: 2 },
+  { code: 'HKD', name: 'Hong Kong Dollar', minorUnits: 2 },
+  { code: 'INR', name: 'Indian Rupee', minorUnits: 2 },
+  { code: 'KES', name: 'Kenyan Shilling', minorUnits: 2 },
+  { code: 'MAD', name: 'Moroccan Dirham', minorUnits: 2 },
+  { code: 'MXN', name: 'Mexican Peso', minorUnits: 2 },
+  { code: 'NGN', name: 'Nigerian Naira', minorUnits: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', minorUnits: 2 },
+  { code: 'NZD', name: 'New Zealand Dollar', minorUnits: 2 },
+  { code: 'PHP', name: 'Philippine Peso', minorUnits: 2 },
+  { code: 'PLN', name: 'Polish Zloty', minorUnits: 2 },
+  { code: 'SAR', name: 'Saudi Riyal', minorUnits: 2 },
+  { code: 'SEK', name: 'Swedish Krona', minorUnits: 2 },
+  { code: 'SGD', name: 'Singapore Dollar', minorUnits: 2 },
+  { code: 'TZS', name: 'Tanzanian Shilling', minorUnits: 2 },
+  { code: 'USD', name: 'US Dollar', minorUnits: 2 },
+  { code: 'ZAR', name: 'South African Rand', minorUnits: 2 },
+
+  // Three-decimal currencies
+  { code: 'BHD', name: 'Bahraini Dinar', minorUnits: 3 },
+  { code: 'IQD', name: 'Iraqi Dinar', minorUnits: 3 },
+  { code: 'JOD', name: 'Jordanian Dinar', minorUnits: 3 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', minorUnits: 3 },
+  { code: 'LYD', name: 'Libyan Dinar', minorUnits: 3 },
+  { code: 'OMR', name: 'Omani Rial', minorUnits: 3 },
+  { code: 'TND', name: 'Tunisian Dinar', minorUnits: 3 },
+];
+
+const registry = new Map(definitions.map(d => [d.code, d]));
+
+// Largest minor-unit precision in the registry; money columns are sized to hold it
+export const MAX_MINOR_UNITS = 3;
+
+export function isSupportedCurrency(code: string): boolean {
+  return registry.has(code.toUpperCase());
+}
+
+export function getCurrency(code: string): CurrencyDefinition {
+  const currency = registry.get(code.toUpperCase());
+  if (!currency) {
+    throw new Error(`Unsupported currency: ${code}`);
+  }
+  return currency;
+}
+
+export function getMinorUnits(code: string): number {
+  return getCurrency(code).minorUnits;
+}
+
+export function listCurrencies(): CurrencyDefinition[] {
+  return [...definitions];
+}
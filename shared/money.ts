@@ -0,0 +1,147 @@
+// Money helpers shared by the API schemas, services, repositories and gateway adapters.
+//
+// Amounts travel through the API and the database as decimal strings ("12.34"). Inside the
+// server they are converted to an integer count of minor units (cents for USD) so that
+// arithmetic and comparisons are exact and the ledger never drifts by fractions of a cent.
+// The number of minor-unit digits comes from the currency registry (JPY 0, USD 2, KWD 3).
+
+import { getCurrency, getMinorUnits } from "./currency";
+
+export interface Money {
+  amount: number; // Minor units, always a safe integer
+  currency: string;
+}
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+export function money(amount: number, currency: string): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new Error(`Invalid minor-unit amount: ${amount}`);
+  }
+  return { amount, currency: getCurrency(currency).code };
+}
+
+export function zeroMoney(currency: string): Money {
+  return money(0, currency);
+}
+
+/**
+ * Parse a decimal string into Money. Extra fractional digits are only accepted when they
+ * are zeros, so "10.5000" parses but "10.505" is rejected rather than rounded.
+ */
+export function parseMoney(value: string, currency: string): Money {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const digits = getMinorUnits(currency);
+  const [, sign, whole, fraction = ''] = match;
+  if (/[1-9]/.test(fraction.slice(digits))) {
+    throw new Error(`Amount ${value} has more than ${digits} decimal places for ${currency.toUpperCase()}`);
+  }
+
+  const minor = Number(whole + fraction.slice(0, digits).padEnd(digits, '0'));
+  return money(sign ? -minor : minor, currency);
+}
+
+export function formatMoney(value: Money): string {
+  const digits = getMinorUnits(value.currency);
+  const sign = value.amount < 0 ? '-' : '';
+  const padded = Math.abs(value.amount).toString().padStart(digits + 1, '0');
+  const whole = padded.slice(0, padded.length - digits);
+  const fraction = padded.slice(padded.length - digits);
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+/** True when the decimal string is well formed and fits the currency's precision. */
+export function isValidAmount(value: string, currency: string): boolean {
+  try {
+    parseMoney(value, currency);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce((total, value) => addMoney(total, value), zeroMoney(currency));
+}
+
+/** Returns a negative number when a < b, zero when equal and positive when a > b. */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.amount - b.amount;
+}
+
+/** Convert a decimal string to the integer amount payment gateways expect. */
+export function toMinorUnits(value: string, currency: string): number {
+  return parseMoney(value, currency).amount;
+}
+
+/** Convert a gateway's integer amount back to a decimal string. */
+export function fromMinorUnits(amount: number, currency: string): string {
+  return formatMoney(money(amount, currency));
+}
+
+const RATE_SCALE_DIGITS = 10;
+const RATE_PATTERN = /^(\d+)(?:\.(\d{1,10}))?$/;
+
+function pow10(exponent: number): bigint {
+  return BigInt('1' + '0'.repeat(exponent));
+}
+
+/**
+ * Convert money at a decimal rate (1 source unit = rate target units). The multiplication is
+ * done on scaled integers and rounded half-up once, to the target currency's minor unit.
+ */
+export function convertMoney(value: Money, rate: string, targetCurrency: string): Money {
+  const match = RATE_PATTERN.exec(rate.trim());
+  if (!match) {
+    throw new Error(`Invalid FX rate: ${rate}`);
+  }
+  const scaledRate = BigInt(match[1] + (match[2] || '').padEnd(RATE_SCALE_DIGITS, '0'));
+
+  const sourceDigits = getMinorUnits(value.currency);
+  const targetDigits = getMinorUnits(targetCurrency);
+  const numerator = BigInt(value.amount) * scaledRate * pow10(targetDigits);
+  const denominator = pow10(RATE_SCALE_DIGITS + sourceDigits);
+
+  const negative = numerator < BigInt(0);
+  const magnitude = negative ? -numerator : numerator;
+  const rounded = (magnitude * BigInt(2) + denominator) / (denominator * BigInt(2));
+  return money(Number(negative ? -rounded : rounded), targetCurrency);
+}
+
+/** Inverse of a decimal rate, truncated to the rate precision used by convertMoney. */
+export function invertRate(rate: string): string {
+  const match = RATE_PATTERN.exec(rate.trim());
+  if (!match) {
+    throw new Error(`Invalid FX rate: ${rate}`);
+  }
+  const scaledRate = BigInt(match[1] + (match[2] || '').padEnd(RATE_SCALE_DIGITS, '0'));
+  if (scaledRate === BigInt(0)) {
+    throw new Error('Cannot invert a zero FX rate');
+  }
+
+  const scale = pow10(RATE_SCALE_DIGITS);
+  const inverted = (scale * scale) / scaledRate;
+  const digits = inverted.toString().padStart(RATE_SCALE_DIGITS + 1, '0');
+  return `${digits.slice(0, -RATE_SCALE_DIGITS)}.${digits.slice(-RATE_SCALE_DIGITS)}`;
+}
@@ -1,18 +1,47 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, uuid, jsonb, pgEnum, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, uuid, jsonb, pgEnum, boolean, bigserial, integer, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isSupportedCurrency, MAX_MINOR_UNITS } from "./currency";
+import { isValidAmount, parseMoney, sumMoney } from "./money";
 
 // Enums
 export const transactionStatusEnum = pgEnum('transaction_status', ['pending', 'completed', 'failed', 'cancelled']);
-export const transactionTypeEnum = pgEnum('transaction_type', ['credit', 'debit', 'transfer']);
+export const transactionTypeEnum = pgEnum('transaction_type', ['credit', 'debit', 'transfer', 'split']);
 export const walletStatusEnum = pgEnum('wallet_status', ['active', 'suspended', 'closed']);
 export const paymentGatewayEnum = pgEnum('payment_gateway', ['stripe', 'mock']);
 export const ledgerEntryTypeEnum = pgEnum('ledger_entry_type', ['debit', 'credit']);
 export const partnerStatusEnum = pgEnum('partner_status', ['pending', 'approved', 'suspended', 'rejected']);
 export const apiKeyEnvironmentEnum = pgEnum('api_key_environment', ['sandbox', 'production']);
-export const fundingSessionStatusEnum = pgEnum('funding_session_status', ['created', 'active', 'completed', 'failed', 'expired']);
+export const fundingSessionStatusEnum = pgEnum('funding_session_status', ['created', 'active', 'authorized', 'completed', 'failed', 'expired', 'voided']);
+export const fundingCaptureModeEnum = pgEnum('funding_capture_mode', ['automatic', 'manual']);
+export const systemAccountTypeEnum = pgEnum('system_account_type', [
+  'clearing',
+  'gateway_receivable',
+  'payouts_in_transit',
+  'fees_revenue',
+  'fx_position',
+  'suspense',
+  'write_offs',
+  'escrow',
+]);
+export const feeOperationEnum = pgEnum('fee_operation', ['credit', 'debit', 'transfer', 'payout', 'funding', 'hold_capture', 'fx', 'split']);
+export const walletLimitScopeEnum = pgEnum('wallet_limit_scope', ['partner', 'tier', 'wallet']);
+export const holdStatusEnum = pgEnum('hold_status', ['active', 'captured', 'released', 'expired']);
+export const fxQuoteStatusEnum = pgEnum('fx_quote_status', ['active', 'used']);
+export const escrowStatusEnum = pgEnum('escrow_status', ['funded', 'disputed', 'released', 'refunded']);
+export const roscaFrequencyEnum = pgEnum('rosca_frequency', ['weekly', 'biweekly', 'monthly']);
+export const roscaGroupStatusEnum = pgEnum('rosca_group_status', ['active', 'completed', 'cancelled']);
+export const roscaRoundStatusEnum = pgEnum('rosca_round_status', ['open', 'paid_out']);
+export const roscaMissedPaymentRuleEnum = pgEnum('rosca_missed_payment_rule', ['none', 'skip_turn', 'deduct_from_payout']);
+export const roscaPenaltyTypeEnum = pgEnum('rosca_penalty_type', ['late_fee', 'missed_contribution', 'skip_turn']);
+export const roscaPenaltyStatusEnum = pgEnum('rosca_penalty_status', ['charged', 'outstanding', 'recovered', 'applied']);
+export const approvalRequestStatusEnum = pgEnum('approval_request_status', ['pending', 'approved', 'rejected', 'expired']);
+export const payoutStatusEnum = pgEnum('payout_status', ['requested', 'funds_reserved', 'submitted', 'paid', 'failed', 'returned']);
+export const refundSourceEnum = pgEnum('refund_source', ['funding_session', 'gateway_transaction']);
+export const refundStatusEnum = pgEnum('refund_status', ['pending', 'succeeded', 'failed']);
+export const gatewayEventStatusEnum = pgEnum('gateway_event_status', ['received', 'processing', 'processed', 'failed']);
 
 // Admin users table (for PayFlow admin interface)
 export const users = pgTable("users", {
@@ -36,7 +65,7 @@ export const partners = pgTable("partners", {
   status: partnerStatusEnum("status").notNull().default('pending'),
   webhookUrl: text("webhook_url"),
   stripeAccountId: text("stripe_account_id"), // Partner's own Stripe Connect account
-  settings: jsonb("settings"),
+  settings: jsonb("settings").$type<PartnerSettings>(),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -64,10 +93,21 @@ export const wallets = pgTable("wallets", {
   name: text("name"), // Human-readable wallet name
   currency: text("currency").notNull().default('USD'),
   status: walletStatusEnum("status").notNull().default('active'),
+  statusReason: text("status_reason"), // Why the wallet was last suspended, reactivated or closed
+  systemAccountType: systemAccountTypeEnum("system_account_type"), // Set on partner system ledger accounts only
+  limitTier: text("limit_tier"), // Partner-defined tier (e.g. KYC level) whose wallet limits apply
+  parentWalletId: varchar("parent_wallet_id").references((): AnyPgColumn => wallets.id), // Set on sub-wallets; fixed at creation
+  subWalletRules: jsonb("sub_wallet_rules").$type<SubWalletRules>(), // Set on parents; apply to their children
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // At most one system account of each type per partner and currency
+  uniqueIndex("wallets_system_account_idx")
+    .on(table.partnerId, table.systemAccountType, table.currency)
+    .where(sql`${table.systemAccountType} IS NOT NULL`),
+  index("wallets_parent_idx").on(table.parentWalletId),
+]);
 
 // Transactions table
 export const transactions = pgTable("transactions", {
@@ -75,7 +115,7 @@ export const transactions = pgTable("transactions", {
   idempotencyKey: text("idempotency_key").unique(),
   type: transactionTypeEnum("type").notNull(),
   status: transactionStatusEnum("status").notNull().default('pending'),
-  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
   currency: text("currency").notNull().default('USD'),
   description: text("description"),
   metadata: jsonb("metadata"),
@@ -83,6 +123,9 @@ export const transactions = pgTable("transactions", {
   toWalletId: varchar("to_wallet_id").references(() => wallets.id),
   gatewayTransactionId: text("gateway_transaction_id"),
   gateway: paymentGatewayEnum("gateway"),
+  reversedTransactionId: varchar("reversed_transaction_id").references((): AnyPgColumn => transactions.id), // Set on reversals
+  fee: jsonb("fee").$type<FeeBreakdown>(), // Set when a fee schedule applied; the fee is posted as extra ledger legs
+  settlement: jsonb("settlement").$type<TransactionSettlement>(), // Set on two-phase transactions created as pending
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -90,13 +133,18 @@ export const transactions = pgTable("transactions", {
 // Double-entry ledger table
 export const ledgerEntries = pgTable("ledger_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: bigserial("sequence", { mode: "number" }).notNull(), // Insertion order; running balances follow it
   transactionId: varchar("transaction_id").notNull().references(() => transactions.id),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id),
   type: ledgerEntryTypeEnum("type").notNull(),
-  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
   currency: text("currency").notNull().default('USD'),
-  balance: decimal("balance", { precision: 15, scale: 2 }).notNull(),
+  balance: decimal("balance", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
   description: text("description"),
+  // SHA-256 over this row's contents and prevHash, chaining each wallet's entries in sequence order.
+  // Nullable only for rows written before hashing; those are backfilled on startup.
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -106,7 +154,7 @@ export const gatewayTransactions = pgTable("gateway_transactions", {
   gatewayTransactionId: text("gateway_transaction_id").notNull(),
   gateway: paymentGatewayEnum("gateway").notNull(),
   status: text("status").notNull(),
-  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
   currency: text("currency").notNull().default('USD'),
   metadata: jsonb("metadata"),
   webhookData: jsonb("webhook_data"),
@@ -115,14 +163,39 @@ export const gatewayTransactions = pgTable("gateway_transactions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Verified inbound gateway events, one row per gateway event id, so retried deliveries are
+// recognised and failed ones can be re-processed from the stored payload
+export const gatewayEvents = pgTable("gateway_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gateway: paymentGatewayEnum("gateway").notNull(),
+  eventId: text("event_id").notNull(), // The gateway's own event id
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: gatewayEventStatusEnum("status").notNull().default('received'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  processingStartedAt: timestamp("processing_started_at"), // When the current or last attempt was claimed
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("gateway_events_event_idx").on(table.gateway, table.eventId),
+  index("gateway_events_status_idx").on(table.status, table.createdAt),
+]);
+
 // Funding sessions for wallet funding flow
 export const fundingSessions = pgTable("payment_funding_sessions", {
   id: varchar("id").primaryKey(),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id),
   paymentIntentId: text("payment_intent_id").notNull(),
-  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
   currency: text("currency").notNull().default('USD'),
   status: fundingSessionStatusEnum("status").notNull().default('created'),
+  // Manual capture only authorizes the card; the wallet is credited when the partner captures
+  captureMode: fundingCaptureModeEnum("capture_mode").notNull().default('automatic'),
+  authorizedAt: timestamp("authorized_at"),
+  authorizationExpiresAt: timestamp("authorization_expires_at"), // Capture is refused after this
+  capturedAt: timestamp("captured_at"),
   successUrl: text("success_url"),
   cancelUrl: text("cancel_url"),
   expiresAt: timestamp("expires_at").notNull(),
@@ -131,6 +204,304 @@ export const fundingSessions = pgTable("payment_funding_sessions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Holds reserve part of a wallet's balance without moving it. Active, unexpired holds
+// reduce the available balance until they are captured, released or expire.
+export const walletHolds = pgTable("wallet_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  capturedAmount: decimal("captured_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull().default('0'),
+  currency: text("currency").notNull().default('USD'),
+  status: holdStatusEnum("status").notNull().default('active'),
+  description: text("description"),
+  idempotencyKey: text("idempotency_key").unique(),
+  expiresAt: timestamp("expires_at"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// FX rates for the table-backed rate provider (1 baseCurrency = rate quoteCurrency)
+export const fxRates = pgTable("fx_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  baseCurrency: text("base_currency").notNull(),
+  quoteCurrency: text("quote_currency").notNull(),
+  rate: decimal("rate", { precision: 24, scale: 10 }).notNull(),
+  source: text("source"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("fx_rates_pair_idx").on(table.baseCurrency, table.quoteCurrency),
+]);
+
+// Per-partner fee schedules, one per operation and currency. When tiers are set, the tier
+// matching the transaction amount supplies the fixed and percentage parts instead.
+export const feeSchedules = pgTable("fee_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  operation: feeOperationEnum("operation").notNull(),
+  currency: text("currency").notNull(),
+  fixedAmount: decimal("fixed_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull().default('0'),
+  percentage: decimal("percentage", { precision: 9, scale: 4 }).notNull().default('0'), // 1.5 means 1.5%
+  tiers: jsonb("tiers").$type<FeeTier[]>(),
+  minimumFee: decimal("minimum_fee", { precision: 18, scale: MAX_MINOR_UNITS }),
+  maximumFee: decimal("maximum_fee", { precision: 18, scale: MAX_MINOR_UNITS }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("fee_schedules_partner_operation_idx").on(table.partnerId, table.operation, table.currency),
+]);
+
+// Wallet limits configured for every wallet of a partner, for a tier, or for one wallet. A
+// null column means no limit at that level; every level that sets a limit is enforced.
+export const walletLimits = pgTable("wallet_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  scope: walletLimitScopeEnum("scope").notNull(),
+  tier: text("tier"), // Set for tier scope
+  walletId: varchar("wallet_id").references(() => wallets.id), // Set for wallet scope
+  currency: text("currency").notNull(),
+  maxBalance: decimal("max_balance", { precision: 18, scale: MAX_MINOR_UNITS }),
+  maxTransactionAmount: decimal("max_transaction_amount", { precision: 18, scale: MAX_MINOR_UNITS }),
+  dailyDebitLimit: decimal("daily_debit_limit", { precision: 18, scale: MAX_MINOR_UNITS }),
+  dailyCreditLimit: decimal("daily_credit_limit", { precision: 18, scale: MAX_MINOR_UNITS }),
+  monthlyDebitLimit: decimal("monthly_debit_limit", { precision: 18, scale: MAX_MINOR_UNITS }),
+  monthlyCreditLimit: decimal("monthly_credit_limit", { precision: 18, scale: MAX_MINOR_UNITS }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("wallet_limits_partner_idx").on(table.partnerId, table.currency).where(sql`${table.scope} = 'partner'`),
+  uniqueIndex("wallet_limits_tier_idx").on(table.partnerId, table.tier, table.currency).where(sql`${table.scope} = 'tier'`),
+  uniqueIndex("wallet_limits_wallet_idx").on(table.walletId).where(sql`${table.scope} = 'wallet'`),
+]);
+
+// Rate-locked FX quotes; a quote can be used by exactly one FX transfer before it expires
+export const fxQuotes = pgTable("fx_quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id, { onDelete: 'cascade' }),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: decimal("rate", { precision: 24, scale: 10 }).notNull(),
+  fromAmount: decimal("from_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  toAmount: decimal("to_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  status: fxQuoteStatusEnum("status").notNull().default('active'),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Escrow positions: the buyer's money sits in the partner's escrow system account until it is
+// released to the seller (both parties confirm, a dispute is resolved for the seller, or the
+// release deadline passes) or refunded to the buyer (a dispute is resolved for the buyer).
+export const escrows = pgTable("escrows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  dealReference: text("deal_reference").notNull(), // The partner's own id for the deal
+  buyerWalletId: varchar("buyer_wallet_id").notNull().references(() => wallets.id),
+  sellerWalletId: varchar("seller_wallet_id").notNull().references(() => wallets.id),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  currency: text("currency").notNull(),
+  status: escrowStatusEnum("status").notNull().default('funded'),
+  description: text("description"),
+  buyerConfirmedAt: timestamp("buyer_confirmed_at"),
+  sellerConfirmedAt: timestamp("seller_confirmed_at"),
+  releaseAfter: timestamp("release_after"), // Auto-release deadline; disputes pause it
+  disputedAt: timestamp("disputed_at"),
+  disputeReason: text("dispute_reason"),
+  resolutionNote: text("resolution_note"),
+  fundingTransactionId: varchar("funding_transaction_id").references(() => transactions.id),
+  settlementTransactionId: varchar("settlement_transaction_id").references(() => transactions.id), // Release or refund
+  idempotencyKey: text("idempotency_key").unique(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("escrows_partner_idx").on(table.partnerId, table.createdAt),
+  index("escrows_release_after_idx").on(table.status, table.releaseAfter),
+]);
+
+// Payouts to external accounts. The wallet's money (plus any payout fee) is reserved while the
+// gateway is asked, moves to the partner's payouts-in-transit account once the gateway accepts,
+// and clears to the gateway receivable account when the gateway reports it paid.
+export const payouts = pgTable("payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id),
+  gateway: paymentGatewayEnum("gateway").notNull(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  currency: text("currency").notNull(),
+  destination: jsonb("destination").notNull(),
+  status: payoutStatusEnum("status").notNull().default('requested'),
+  gatewayPayoutId: text("gateway_payout_id"),
+  transactionId: varchar("transaction_id").references(() => transactions.id), // The debit of the wallet
+  clearingTransactionId: varchar("clearing_transaction_id").references(() => transactions.id), // In transit -> receivable once paid
+  reversalTransactionId: varchar("reversal_transaction_id").references(() => transactions.id), // Money back to the wallet
+  failureReason: text("failure_reason"),
+  submittedAt: timestamp("submitted_at"),
+  paidAt: timestamp("paid_at"),
+  failedAt: timestamp("failed_at"),
+  returnedAt: timestamp("returned_at"),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("payouts_partner_idx").on(table.partnerId, table.createdAt),
+  index("payouts_gateway_payout_idx").on(table.gatewayPayoutId),
+]);
+
+// Refunds of card payments that funded a wallet. The wallet is debited to the gateway receivable
+// account while the gateway processes the refund; a refund the gateway fails is put back. All
+// refunds of one payment together never exceed what it captured.
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id),
+  source: refundSourceEnum("source").notNull(),
+  fundingSessionId: varchar("funding_session_id").references(() => fundingSessions.id),
+  gateway: paymentGatewayEnum("gateway").notNull(),
+  paymentId: text("payment_id").notNull(), // The gateway's id of the payment being refunded
+  gatewayRefundId: text("gateway_refund_id"),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  currency: text("currency").notNull(),
+  status: refundStatusEnum("status").notNull().default('pending'),
+  reason: text("reason"),
+  failureReason: text("failure_reason"),
+  transactionId: varchar("transaction_id").references(() => transactions.id), // The debit of the wallet
+  reversalTransactionId: varchar("reversal_transaction_id").references(() => transactions.id), // Put back after a failure
+  succeededAt: timestamp("succeeded_at"),
+  failedAt: timestamp("failed_at"),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("refunds_partner_idx").on(table.partnerId, table.createdAt),
+  index("refunds_payment_idx").on(table.gateway, table.paymentId),
+  index("refunds_gateway_refund_idx").on(table.gatewayRefundId),
+]);
+
+// Rotating savings groups (ROSCAs): every member pays the contribution amount into the group
+// wallet each round, and each round's pot is paid out to one member in rotation order.
+export const roscaGroups = pgTable("rosca_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  name: text("name").notNull(),
+  groupWalletId: varchar("group_wallet_id").notNull().references(() => wallets.id), // Holds contributions until payout
+  currency: text("currency").notNull(),
+  contributionAmount: decimal("contribution_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  frequency: roscaFrequencyEnum("frequency").notNull(),
+  startDate: timestamp("start_date").notNull(), // Due date of round 1
+  status: roscaGroupStatusEnum("status").notNull().default('active'),
+  currentRound: integer("current_round").notNull().default(1), // Next round to pay out
+  gracePeriodDays: integer("grace_period_days").notNull().default(0), // Contributions after due date + grace are late
+  lateFeeAmount: decimal("late_fee_amount", { precision: 18, scale: MAX_MINOR_UNITS }), // Charged to fees revenue
+  missedPaymentRule: roscaMissedPaymentRuleEnum("missed_payment_rule").notNull().default('none'),
+  idempotencyKey: text("idempotency_key").unique(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const roscaMembers = pgTable("rosca_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => roscaGroups.id),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id), // Pays contributions, receives the payout
+  position: integer("position").notNull(), // Rotation order, from 1
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("rosca_members_wallet_idx").on(table.groupId, table.walletId),
+  uniqueIndex("rosca_members_position_idx").on(table.groupId, table.position),
+]);
+
+export const roscaRounds = pgTable("rosca_rounds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => roscaGroups.id),
+  roundNumber: integer("round_number").notNull(),
+  recipientMemberId: varchar("recipient_member_id").notNull().references(() => roscaMembers.id),
+  dueDate: timestamp("due_date").notNull(),
+  status: roscaRoundStatusEnum("status").notNull().default('open'),
+  expectedAmount: decimal("expected_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  receivedAmount: decimal("received_amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull().default('0'),
+  payoutTransactionId: varchar("payout_transaction_id").references(() => transactions.id),
+  paidOutAt: timestamp("paid_out_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("rosca_rounds_number_idx").on(table.groupId, table.roundNumber),
+]);
+
+export const roscaContributions = pgTable("rosca_contributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => roscaGroups.id),
+  roundId: varchar("round_id").notNull().references(() => roscaRounds.id),
+  memberId: varchar("member_id").notNull().references(() => roscaMembers.id),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  transactionId: varchar("transaction_id").notNull().references(() => transactions.id),
+  late: boolean("late").notNull().default(false), // Paid after the due date and grace period
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("rosca_contributions_member_idx").on(table.roundId, table.memberId),
+]);
+
+// Penalties for late or missed contributions. A missed contribution stays outstanding (the
+// member's arrears) until it is paid late or recovered from the member's own payout.
+export const roscaPenalties = pgTable("rosca_penalties", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => roscaGroups.id),
+  roundId: varchar("round_id").notNull().references(() => roscaRounds.id),
+  memberId: varchar("member_id").notNull().references(() => roscaMembers.id),
+  type: roscaPenaltyTypeEnum("type").notNull(),
+  status: roscaPenaltyStatusEnum("status").notNull(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }), // Not set for skip_turn
+  transactionId: varchar("transaction_id").references(() => transactions.id), // Charge or recovery posting
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("rosca_penalties_member_idx").on(table.roundId, table.memberId, table.type),
+]);
+
+// M-of-N approval policy for a group wallet (one without an externalUserId): debits and transfers
+// out of it above the threshold wait for requiredApprovals of the designated approvers
+export const walletApprovalPolicies = pgTable("wallet_approval_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id).unique(),
+  approverIds: jsonb("approver_ids").$type<string[]>().notNull(), // The partner's identifiers for the approvers
+  requiredApprovals: integer("required_approvals").notNull(),
+  thresholdAmount: decimal("threshold_amount", { precision: 18, scale: MAX_MINOR_UNITS }), // Null: every debit needs approval
+  expiresAfterMinutes: integer("expires_after_minutes").notNull().default(1440),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A proposed debit or transfer awaiting approval. The money is reserved by a pending transaction,
+// which is settled once enough approvers agree and voided if the request is rejected or expires.
+export const walletApprovalRequests = pgTable("wallet_approval_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: varchar("partner_id").notNull().references(() => partners.id),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id),
+  transactionId: varchar("transaction_id").notNull().references(() => transactions.id).unique(),
+  amount: decimal("amount", { precision: 18, scale: MAX_MINOR_UNITS }).notNull(),
+  currency: text("currency").notNull(),
+  status: approvalRequestStatusEnum("status").notNull().default('pending'),
+  // Copied from the policy, so changing it does not affect requests already waiting
+  approverIds: jsonb("approver_ids").$type<string[]>().notNull(),
+  requiredApprovals: integer("required_approvals").notNull(),
+  approvals: jsonb("approvals").$type<ApprovalDecision[]>().notNull().default([]),
+  rejections: jsonb("rejections").$type<ApprovalDecision[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("wallet_approval_requests_wallet_idx").on(table.walletId, table.status),
+  index("wallet_approval_requests_expiry_idx").on(table.status, table.expiresAt),
+]);
+
 // Relations
 export const partnersRelations = relations(partners, ({ many }) => ({
   wallets: many(wallets),
@@ -157,6 +528,7 @@ export const walletsRelations = relations(wallets, ({ one, many }) => ({
     relationName: "toWallet",
   }),
   fundingSessions: many(fundingSessions),
+  holds: many(walletHolds),
 }));
 
 export const transactionsRelations = relations(transactions, ({ one, many }) => ({
@@ -170,6 +542,14 @@ export const transactionsRelations = relations(transactions, ({ one, many }) =>
     references: [wallets.id],
     relationName: "toWallet",
   }),
+  reversedTransaction: one(transactions, {
+    fields: [transactions.reversedTransactionId],
+    references: [transactions.id],
+    relationName: "reversals",
+  }),
+  reversals: many(transactions, {
+    relationName: "reversals",
+  }),
   ledgerEntries: many(ledgerEntries),
 }));
 
@@ -184,6 +564,13 @@ export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
   }),
 }));
 
+export const walletHoldsRelations = relations(walletHolds, ({ one }) => ({
+  wallet: one(wallets, {
+    fields: [walletHolds.walletId],
+    references: [wallets.id],
+  }),
+}));
+
 export const fundingSessionsRelations = relations(fundingSessions, ({ one }) => ({
   wallet: one(wallets, {
     fields: [fundingSessions.walletId],
@@ -217,12 +604,21 @@ export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
   expiresAt: true,
 });
 
-export const insertWalletSchema = createInsertSchema(wallets).pick({
+// ISO 4217 code from the currency registry; lower-case input is normalized
+export const currencyCodeSchema = z.string().toUpperCase().refine(isSupportedCurrency, {
+  message: 'Unsupported currency',
+});
+
+export const insertWalletSchema = createInsertSchema(wallets, {
+  currency: (schema) => schema.toUpperCase().refine(isSupportedCurrency, { message: 'Unsupported currency' }),
+}).pick({
   partnerId: true,
   externalUserId: true,
   externalWalletId: true,
   name: true,
   currency: true,
+  limitTier: true,
+  parentWalletId: true,
   metadata: true,
 });
 
@@ -235,53 +631,431 @@ export const insertTransactionSchema = createInsertSchema(transactions).pick({
   fromWalletId: true,
   toWalletId: true,
   idempotencyKey: true,
+  gateway: true,
 });
 
+// Decimal amount string; services convert it to minor-unit Money (see ./money) before any arithmetic.
+// How many decimals are allowed depends on the currency, so object schemas add amountPrecisionCheck.
+export const moneyAmountSchema = z.string().regex(/^\d+(\.\d+)?$/);
+
+// Requests that leave the currency out use the wallet's; the service checks precision then
+const amountPrecisionCheck = (data: { amount: string; currency?: string }, ctx: z.RefinementCtx) => {
+  if (data.currency && isSupportedCurrency(data.currency) && !isValidAmount(data.amount, data.currency)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['amount'],
+      message: `Amount has more decimal places than ${data.currency} allows`,
+    });
+  }
+};
+
 export const creditWalletSchema = z.object({
   walletId: z.string().uuid(),
-  amount: z.string().regex(/^\d+(\.\d{1,2})?$/),
-  currency: z.string().default('USD'),
+  amount: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(),
   description: z.string().optional(),
   idempotencyKey: z.string().uuid(),
+  pending: z.boolean().optional(), // Two-phase: reserve now, then settle or void
+  // A pending credit paid through this gateway: its payment events (metadata.transactionId)
+  // settle or void it
+  gateway: z.enum(paymentGatewayEnum.enumValues).optional(),
+}).superRefine(amountPrecisionCheck).refine(data => !data.gateway || data.pending, {
+  path: ['gateway'],
+  message: 'Only pending credits can be paid through a gateway',
 });
 
 export const debitWalletSchema = z.object({
   walletId: z.string().uuid(),
-  amount: z.string().regex(/^\d+(\.\d{1,2})?$/),
-  currency: z.string().default('USD'),
+  amount: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(),
   description: z.string().optional(),
   idempotencyKey: z.string().uuid(),
-});
+  pending: z.boolean().optional(), // Two-phase: reserve now, then settle or void
+}).superRefine(amountPrecisionCheck);
 
 export const transferSchema = z.object({
   fromWalletId: z.string().uuid(),
   toWalletId: z.string().uuid(),
-  amount: z.string().regex(/^\d+(\.\d{1,2})?$/),
-  currency: z.string().default('USD'),
+  amount: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(),
   description: z.string().optional(),
   idempotencyKey: z.string().uuid(),
+  pending: z.boolean().optional(), // Two-phase: reserve now, then settle or void
+}).superRefine(amountPrecisionCheck);
+
+const transactionLegSchema = z.object({
+  walletId: z.string().uuid(),
+  amount: moneyAmountSchema,
+  description: z.string().optional(),
+});
+
+// Single-currency split: every source and destination leg posts in one ledger transaction
+export const multiLegTransactionSchema = z.object({
+  currency: currencyCodeSchema.default('USD'),
+  sources: z.array(transactionLegSchema).min(1).max(50),
+  destinations: z.array(transactionLegSchema).min(1).max(50),
+  description: z.string().optional(),
+  metadata: z.record(z.any()).optional(),
+  idempotencyKey: z.string().uuid(),
+}).superRefine((data, ctx) => {
+  if (!isSupportedCurrency(data.currency)) return;
+
+  let valid = true;
+  for (const side of ['sources', 'destinations'] as const) {
+    data[side].forEach((leg, i) => {
+      if (!isValidAmount(leg.amount, data.currency) || parseMoney(leg.amount, data.currency).amount <= 0) {
+        valid = false;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [side, i, 'amount'],
+          message: `Amount must be positive and fit ${data.currency} precision`,
+        });
+      }
+    });
+  }
+
+  const walletIds = [...data.sources, ...data.destinations].map(leg => leg.walletId);
+  if (new Set(walletIds).size !== walletIds.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['destinations'],
+      message: 'Each wallet may appear in only one leg',
+    });
+  }
+
+  if (valid) {
+    const total = (legs: Array<{ amount: string }>) => sumMoney(legs.map(leg => parseMoney(leg.amount, data.currency)), data.currency);
+    if (total(data.sources).amount !== total(data.destinations).amount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['destinations'],
+        message: 'Source and destination amounts must add up to the same total',
+      });
+    }
+  }
 });
 
 export const payoutSchema = z.object({
   walletId: z.string().uuid(),
-  amount: z.string().regex(/^\d+(\.\d{1,2})?$/),
-  currency: z.string().default('USD'),
+  amount: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(),
   destination: z.object({
     type: z.enum(['bank_account', 'card']),
     account: z.string(),
   }),
   idempotencyKey: z.string().uuid(),
-});
+}).superRefine(amountPrecisionCheck);
 
 export const createFundingSessionSchema = z.object({
-  amount: z.number().positive(),
-  currency: z.string().default('USD'),
+  amount: moneyAmountSchema.refine(value => /[1-9]/.test(value), 'Amount must be greater than 0'),
+  currency: currencyCodeSchema.optional(),
   description: z.string().optional(),
   successUrl: z.string().url().optional(),
   cancelUrl: z.string().url().optional(),
+  captureMode: z.enum(fundingCaptureModeEnum.enumValues).default('automatic'),
+  metadata: z.record(z.any()).optional(),
+}).superRefine(amountPrecisionCheck);
+
+export const reverseTransactionSchema = z.object({
+  amount: moneyAmountSchema.optional(), // Partial reversal; defaults to the unreversed remainder
+  reason: z.string().optional(),
+  idempotencyKey: z.string().uuid(),
+});
+
+export const voidTransactionSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const createRefundSchema = z.object({
+  amount: moneyAmountSchema.optional(), // Partial refund; defaults to what is left to refund
+  reason: z.string().max(500).optional(),
+  idempotencyKey: z.string().uuid(),
+});
+
+export const createHoldSchema = z.object({
+  walletId: z.string().uuid(),
+  amount: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(),
+  description: z.string().optional(),
+  expiresAt: z.coerce.date().optional(),
+  metadata: z.record(z.any()).optional(),
+  idempotencyKey: z.string().uuid(),
+}).superRefine(amountPrecisionCheck);
+
+export const createEscrowSchema = z.object({
+  buyerWalletId: z.string().uuid(),
+  sellerWalletId: z.string().uuid(),
+  amount: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(),
+  dealReference: z.string().min(1).max(200),
+  description: z.string().optional(),
+  releaseAfter: z.coerce.date().optional(),
+  metadata: z.record(z.any()).optional(),
+  idempotencyKey: z.string().uuid(),
+}).superRefine(amountPrecisionCheck).refine(data => data.buyerWalletId !== data.sellerWalletId, {
+  message: 'Buyer and seller wallets must differ',
+  path: ['sellerWalletId'],
+});
+
+export const confirmEscrowSchema = z.object({
+  party: z.enum(['buyer', 'seller']),
+});
+
+export const disputeEscrowSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+export const resolveEscrowSchema = z.object({
+  outcome: z.enum(['release', 'refund']), // Release to the seller or refund the buyer
+  note: z.string().max(500).optional(),
+});
+
+export const subWalletRulesSchema = z.object({
+  preventNegativeChildren: z.boolean().default(false),
+  capAtParentBalance: z.boolean().default(false),
+});
+
+export const setApprovalPolicySchema = z.object({
+  approverIds: z.array(z.string().min(1).max(255)).min(1).max(20),
+  requiredApprovals: z.number().int().min(1),
+  thresholdAmount: moneyAmountSchema.nullable().default(null),
+  expiresAfterMinutes: z.number().int().min(5).max(7 * 24 * 60).default(1440),
+}).superRefine((data, ctx) => {
+  if (new Set(data.approverIds).size !== data.approverIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['approverIds'], message: 'Approvers must be unique' });
+  }
+  if (data.requiredApprovals > data.approverIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['requiredApprovals'], message: 'Cannot require more approvals than there are approvers' });
+  }
+});
+
+export const approvalDecisionSchema = z.object({
+  approverId: z.string().min(1).max(255),
+  note: z.string().max(500).optional(),
+});
+
+// Missed-contribution handling; skip_turn moves a defaulter's payout to the end of the rotation,
+// deduct_from_payout repays their arrears out of their own payout
+const roscaRulesShape = {
+  gracePeriodDays: z.number().int().min(0).max(90),
+  lateFeeAmount: moneyAmountSchema.nullable(),
+  missedPaymentRule: z.enum(['none', 'skip_turn', 'deduct_from_payout']),
+};
+
+export const createRoscaGroupSchema = z.object({
+  name: z.string().min(1).max(200),
+  currency: currencyCodeSchema.default('USD'),
+  contributionAmount: moneyAmountSchema,
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']),
+  startDate: z.coerce.date(),
+  memberWalletIds: z.array(z.string().uuid()).min(2).max(100), // In rotation order
+  gracePeriodDays: roscaRulesShape.gracePeriodDays.default(0),
+  lateFeeAmount: roscaRulesShape.lateFeeAmount.optional(),
+  missedPaymentRule: roscaRulesShape.missedPaymentRule.default('none'),
+  metadata: z.record(z.any()).optional(),
+  idempotencyKey: z.string().uuid(),
+}).superRefine((data, ctx) => {
+  if (data.lateFeeAmount && isSupportedCurrency(data.currency) && !isValidAmount(data.lateFeeAmount, data.currency)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lateFeeAmount'], message: `Amount has more decimal places than ${data.currency} allows` });
+  }
+  if (isSupportedCurrency(data.currency) && (!isValidAmount(data.contributionAmount, data.currency)
+    || parseMoney(data.contributionAmount, data.currency).amount <= 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['contributionAmount'],
+      message: `Contribution amount must be positive and fit ${data.currency} precision`,
+    });
+  }
+  if (new Set(data.memberWalletIds).size !== data.memberWalletIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['memberWalletIds'], message: 'A wallet can only join a group once' });
+  }
+});
+
+export const updateRoscaRulesSchema = z.object({
+  gracePeriodDays: roscaRulesShape.gracePeriodDays.optional(),
+  lateFeeAmount: roscaRulesShape.lateFeeAmount.optional(), // null removes the late fee
+  missedPaymentRule: roscaRulesShape.missedPaymentRule.optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Provide at least one rule to update',
+});
+
+export const recordRoscaContributionSchema = z.object({
+  walletId: z.string().uuid(), // The contributing member's wallet
+  roundNumber: z.number().int().positive().optional(), // Defaults to the group's current round
+  idempotencyKey: z.string().uuid(),
+});
+
+export const executeRoscaPayoutSchema = z.object({
+  idempotencyKey: z.string().uuid(),
+});
+
+export const captureHoldSchema = z.object({
+  amount: moneyAmountSchema.optional(), // Defaults to the hold's remaining amount
+  toWalletId: z.string().uuid().optional(), // Transfer destination; otherwise a debit to clearing
+  description: z.string().optional(),
+  idempotencyKey: z.string().uuid(),
+});
+
+export const fxRateSchema = z.string().regex(/^\d+(\.\d{1,10})?$/).refine(rate => Number(rate) > 0, {
+  message: 'Rate must be positive',
+});
+
+export const upsertFxRateSchema = z.object({
+  baseCurrency: currencyCodeSchema,
+  quoteCurrency: currencyCodeSchema,
+  rate: fxRateSchema,
+  source: z.string().optional(),
+});
+
+export const createFxQuoteSchema = z.object({
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema,
+  amount: moneyAmountSchema,
+}).superRefine((data, ctx) => amountPrecisionCheck({ amount: data.amount, currency: data.fromCurrency }, ctx));
+
+export const fxTransferSchema = z.object({
+  quoteId: z.string().uuid(),
+  fromWalletId: z.string().uuid(),
+  toWalletId: z.string().uuid(),
+  description: z.string().optional(),
+  idempotencyKey: z.string().uuid(),
+});
+
+const percentageSchema = z.string().regex(/^\d{1,3}(\.\d{1,4})?$/).refine(value => Number(value) <= 100, {
+  message: 'Percentage must be between 0 and 100',
+});
+
+const feeTierSchema = z.object({
+  upTo: moneyAmountSchema.nullable(), // Inclusive upper bound of the transaction amount; null for the last tier
+  fixedAmount: moneyAmountSchema.optional(),
+  percentage: percentageSchema.optional(),
+});
+
+export const upsertFeeScheduleSchema = z.object({
+  operation: z.enum(feeOperationEnum.enumValues),
+  currency: currencyCodeSchema,
+  fixedAmount: moneyAmountSchema.default('0'),
+  percentage: percentageSchema.default('0'),
+  tiers: z.array(feeTierSchema).min(1).max(20).optional(),
+  minimumFee: moneyAmountSchema.optional(),
+  maximumFee: moneyAmountSchema.optional(),
+  isActive: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+  if (!isSupportedCurrency(data.currency)) return;
+
+  const amounts: Array<[Array<string | number>, string | null | undefined]> = [
+    [['fixedAmount'], data.fixedAmount],
+    [['minimumFee'], data.minimumFee],
+    [['maximumFee'], data.maximumFee],
+    ...(data.tiers || []).flatMap((tier, i): Array<[Array<string | number>, string | null | undefined]> => [
+      [['tiers', i, 'upTo'], tier.upTo],
+      [['tiers', i, 'fixedAmount'], tier.fixedAmount],
+    ]),
+  ];
+  for (const [path, value] of amounts) {
+    if (value && !isValidAmount(value, data.currency)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Amount has more decimal places than ${data.currency} allows` });
+      return;
+    }
+  }
+
+  if (data.minimumFee && data.maximumFee &&
+      parseMoney(data.minimumFee, data.currency).amount > parseMoney(data.maximumFee, data.currency).amount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minimumFee'], message: 'minimumFee cannot exceed maximumFee' });
+  }
+
+  // Tiers must ascend, and only the last one may be open-ended
+  const tiers = data.tiers || [];
+  tiers.forEach((tier, i) => {
+    const previous = tiers[i - 1];
+    const isLast = i === tiers.length - 1;
+    if (tier.upTo === null && !isLast) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tiers', i, 'upTo'], message: 'Only the last tier may be open-ended' });
+    } else if (previous?.upTo && tier.upTo &&
+        parseMoney(tier.upTo, data.currency).amount <= parseMoney(previous.upTo, data.currency).amount) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tiers', i, 'upTo'], message: 'Tier bounds must be ascending' });
+    }
+  });
+});
+
+export const WALLET_LIMIT_FIELDS = [
+  'maxBalance',
+  'maxTransactionAmount',
+  'dailyDebitLimit',
+  'dailyCreditLimit',
+  'monthlyDebitLimit',
+  'monthlyCreditLimit',
+] as const;
+
+const optionalLimitSchema = moneyAmountSchema.nullable().optional(); // null clears the limit
+
+export const upsertWalletLimitSchema = z.object({
+  scope: z.enum(walletLimitScopeEnum.enumValues),
+  tier: z.string().min(1).optional(),
+  walletId: z.string().uuid().optional(),
+  currency: currencyCodeSchema,
+  maxBalance: optionalLimitSchema,
+  maxTransactionAmount: optionalLimitSchema,
+  dailyDebitLimit: optionalLimitSchema,
+  dailyCreditLimit: optionalLimitSchema,
+  monthlyDebitLimit: optionalLimitSchema,
+  monthlyCreditLimit: optionalLimitSchema,
+}).superRefine((data, ctx) => {
+  if (data.scope === 'tier' && !data.tier) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tier'], message: 'tier is required for tier limits' });
+  }
+  if (data.scope === 'wallet' && !data.walletId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['walletId'], message: 'walletId is required for wallet limits' });
+  }
+  if (!isSupportedCurrency(data.currency)) return;
+
+  for (const field of WALLET_LIMIT_FIELDS) {
+    const value = data[field];
+    if (value && !isValidAmount(value, data.currency)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Amount has more decimal places than ${data.currency} allows` });
+    }
+  }
+});
+
+export const updateWalletSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
   metadata: z.record(z.any()).optional(),
+}).refine(data => data.name !== undefined || data.metadata !== undefined, {
+  message: 'Provide name or metadata to update',
 });
 
+export const walletStatusChangeSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const closeWalletSchema = z.object({
+  sweepToWalletId: z.string().uuid().optional(), // Required when the wallet still holds a balance
+  reason: z.string().max(500).optional(),
+  idempotencyKey: z.string().uuid().optional(), // Used for the sweep transfer
+});
+
+// Date-only values ("2026-01-31") cover the whole UTC day when used as an upper bound
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const dateBoundarySchema = (endOfDay: boolean) => z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' })
+  .transform(value => {
+    const date = new Date(value);
+    if (endOfDay && DATE_ONLY_PATTERN.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  });
+
+export const balanceAsOfQuerySchema = z.object({
+  asOf: dateBoundarySchema(true),
+});
+
+export const statementQuerySchema = z.object({
+  from: dateBoundarySchema(false),
+  to: dateBoundarySchema(true),
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+}).refine(data => data.from <= data.to, { message: 'from must not be after to', path: ['from'] });
+
 export const insertFundingSessionSchema = createInsertSchema(fundingSessions).pick({
   id: true,
   walletId: true,
@@ -289,6 +1063,7 @@ export const insertFundingSessionSchema = createInsertSchema(fundingSessions).pi
   amount: true,
   currency: true,
   status: true,
+  captureMode: true,
   successUrl: true,
   cancelUrl: true,
   expiresAt: true,
@@ -304,14 +1079,118 @@ export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 export type ApiKey = typeof apiKeys.$inferSelect;
 export type InsertWallet = z.infer<typeof insertWalletSchema>;
 export type Wallet = typeof wallets.$inferSelect;
+export type SystemAccountType = typeof systemAccountTypeEnum.enumValues[number];
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type LedgerEntry = typeof ledgerEntries.$inferSelect;
 export type GatewayTransaction = typeof gatewayTransactions.$inferSelect;
+export type GatewayEvent = typeof gatewayEvents.$inferSelect;
+export type InsertGatewayEvent = typeof gatewayEvents.$inferInsert;
 export type CreditWallet = z.infer<typeof creditWalletSchema>;
 export type DebitWallet = z.infer<typeof debitWalletSchema>;
 export type Transfer = z.infer<typeof transferSchema>;
+export type MultiLegTransaction = z.infer<typeof multiLegTransactionSchema>;
 export type Payout = z.infer<typeof payoutSchema>;
+export type PayoutRecord = typeof payouts.$inferSelect;
+export type InsertPayoutRecord = typeof payouts.$inferInsert;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = typeof refunds.$inferInsert;
+export type CreateRefund = z.infer<typeof createRefundSchema>;
 export type CreateFundingSession = z.infer<typeof createFundingSessionSchema>;
 export type InsertFundingSession = z.infer<typeof insertFundingSessionSchema>;
 export type FundingSession = typeof fundingSessions.$inferSelect;
+export type ReverseTransaction = z.infer<typeof reverseTransactionSchema>;
+export type VoidTransaction = z.infer<typeof voidTransactionSchema>;
+export type WalletHold = typeof walletHolds.$inferSelect;
+export type InsertWalletHold = typeof walletHolds.$inferInsert;
+export type CreateHold = z.infer<typeof createHoldSchema>;
+export type CaptureHold = z.infer<typeof captureHoldSchema>;
+export type Escrow = typeof escrows.$inferSelect;
+export type InsertEscrow = typeof escrows.$inferInsert;
+export type CreateEscrow = z.infer<typeof createEscrowSchema>;
+export type ConfirmEscrow = z.infer<typeof confirmEscrowSchema>;
+export type DisputeEscrow = z.infer<typeof disputeEscrowSchema>;
+export type ResolveEscrow = z.infer<typeof resolveEscrowSchema>;
+export type UpdateSubWalletRules = z.infer<typeof subWalletRulesSchema>;
+export type WalletApprovalPolicy = typeof walletApprovalPolicies.$inferSelect;
+export type WalletApprovalRequest = typeof walletApprovalRequests.$inferSelect;
+export type SetApprovalPolicy = z.infer<typeof setApprovalPolicySchema>;
+export type ApprovalDecisionInput = z.infer<typeof approvalDecisionSchema>;
+export type RoscaGroup = typeof roscaGroups.$inferSelect;
+export type RoscaMember = typeof roscaMembers.$inferSelect;
+export type RoscaRound = typeof roscaRounds.$inferSelect;
+export type RoscaContribution = typeof roscaContributions.$inferSelect;
+export type RoscaPenalty = typeof roscaPenalties.$inferSelect;
+export type UpdateRoscaRules = z.infer<typeof updateRoscaRulesSchema>;
+export type CreateRoscaGroup = z.infer<typeof createRoscaGroupSchema>;
+export type RecordRoscaContribution = z.infer<typeof recordRoscaContributionSchema>;
+export type ExecuteRoscaPayout = z.infer<typeof executeRoscaPayoutSchema>;
+export type FxRate = typeof fxRates.$inferSelect;
+export type FxQuote = typeof fxQuotes.$inferSelect;
+export type InsertFxQuote = typeof fxQuotes.$inferInsert;
+export type UpsertFxRate = z.infer<typeof upsertFxRateSchema>;
+export type CreateFxQuote = z.infer<typeof createFxQuoteSchema>;
+export type FxTransfer = z.infer<typeof fxTransferSchema>;
+export type FeeOperation = typeof feeOperationEnum.enumValues[number];
+export type WalletLimit = typeof walletLimits.$inferSelect;
+export type UpdateWallet = z.infer<typeof updateWalletSchema>;
+export type CloseWallet = z.infer<typeof closeWalletSchema>;
+export type UpsertWalletLimit = z.infer<typeof upsertWalletLimitSchema>;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type UpsertFeeSchedule = z.infer<typeof upsertFeeScheduleSchema>;
+
+export interface FeeTier {
+  upTo: string | null;
+  fixedAmount?: string;
+  percentage?: string;
+}
+
+// Stored on transactions and included in webhooks so partners can see how a fee was derived
+export interface FeeBreakdown {
+  scheduleId: string;
+  operation: FeeOperation;
+  amount: string; // Total fee posted to fees revenue
+  currency: string;
+  fixedAmount: string;
+  percentage: string;
+  percentageAmount: string;
+  tierUpTo?: string | null; // Set when a tier was used
+  minimumApplied: boolean;
+  maximumApplied: boolean;
+  chargedWalletId: string;
+}
+
+// Two-phase bookkeeping: a pending transaction has no ledger legs yet, only a hold on the
+// paying wallet (if any). Settling posts the legs; voiding releases the hold.
+export interface TransactionSettlement {
+  operation: string | null; // System account operation the credit or debit legs post against
+  holdId: string | null;
+  approvalRequestId?: string; // Only settled or voided through this wallet approval request
+  // Set when a funding session, payout or refund reserved the transaction for itself; only that
+  // flow settles or voids it
+  owner?: 'funding' | 'payout' | 'refund';
+  settledAt?: string;
+  voidedAt?: string;
+  voidReason?: string | null;
+}
+// Rules a parent wallet sets for its children. Without preventNegativeChildren a child may spend
+// beyond its own balance as long as the tree as a whole stays covered.
+export interface SubWalletRules {
+  preventNegativeChildren?: boolean;
+  capAtParentBalance?: boolean; // A child's balance may not exceed the parent's own balance
+}
+
+// Clearing and FX position wallets were tracked here, by currency, before system accounts existed
+export interface PartnerSettings {
+  clearingWalletId?: string;
+  clearingWalletIds?: Record<string, string>;
+  fxPositionWalletIds?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface ApprovalDecision {
+  approverId: string;
+  decidedAt: string;
+  note?: string | null;
+}
+export type StatementQuery = z.infer<typeof statementQuerySchema>;